@@ -0,0 +1,85 @@
+import React from 'react';
+import { CheckCircle, Circle, Loader2, MinusCircle, XCircle } from 'lucide-react';
+import type { UploadProgress } from '../services/fileUpload';
+
+export type StageId = 'upload' | 'model' | 'search' | 'places';
+export type StageStatus = 'pending' | 'active' | 'done' | 'skipped' | 'failed';
+export type StageMap = Record<StageId, StageStatus>;
+
+export const INITIAL_STAGES: StageMap = { upload: 'active', model: 'pending', search: 'pending', places: 'pending' };
+
+const STATUS_ICON: Record<StageStatus, any> = {
+  pending: Circle,
+  active: Loader2,
+  done: CheckCircle,
+  skipped: MinusCircle,
+  failed: XCircle,
+};
+
+const STATUS_STYLE: Record<StageStatus, string> = {
+  pending: 'text-slate-300',
+  active: 'text-indigo-600 animate-spin',
+  done: 'text-emerald-500',
+  skipped: 'text-slate-300',
+  failed: 'text-red-500',
+};
+
+interface AnalysisProgressProps {
+  stages: StageMap;
+  placesLabel: string;
+  uploadProgress: UploadProgress | null;
+  prepStatus: string | null;
+  notes: Partial<Record<StageId, string>>; // e.g. retry status, shown while a stage is active
+  receivedChars: number;
+  hidden?: StageId[]; // stages that don't apply to this run, e.g. search in match mode
+  onCancel: () => void;
+}
+
+export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ stages, placesLabel, uploadProgress, prepStatus, notes, receivedChars, hidden = [], onCancel }) => {
+  const uploadDetail = prepStatus
+    || (uploadProgress && `${uploadProgress.phase === 'uploading' ? 'Uploading' : 'Processing'} ${(uploadProgress.sentBytes / 1048576).toFixed(1)} / ${(uploadProgress.totalBytes / 1048576).toFixed(1)} MB`);
+
+  const rows: { id: StageId, label: string, detail?: string | null }[] = [
+    { id: 'upload', label: 'Uploading video', detail: stages.upload === 'active' ? uploadDetail : null },
+    { id: 'model', label: 'Model processing', detail: stages.model === 'active' && receivedChars > 0 ? 'Writing report...' : null },
+    { id: 'search', label: 'Searching resources' },
+    { id: 'places', label: `Finding ${placesLabel.toLowerCase()}`, detail: stages.places === 'skipped' ? 'Location unavailable' : null },
+  ];
+
+  return (
+    <div className="w-2/3 max-w-xs">
+      <ul className="space-y-2.5">
+        {rows.filter((r) => !hidden.includes(r.id)).map(({ id, label, detail }) => {
+          const status = stages[id];
+          const Icon = STATUS_ICON[status];
+          const note = status === 'active' ? notes[id] || detail : status === 'failed' ? 'Failed' : detail;
+          return (
+            <li key={id} className="flex items-start gap-2.5">
+              <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${STATUS_STYLE[status]}`} />
+              <div className="min-w-0">
+                <p className={`text-sm font-semibold ${status === 'active' ? 'text-indigo-600' : status === 'done' ? 'text-slate-700' : 'text-slate-400'}`}>{label}</p>
+                {note && <p className={`text-xs ${status === 'failed' ? 'text-red-500' : 'text-slate-400'}`}>{note}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {stages.upload === 'active' && uploadProgress && (
+        <div className="h-1.5 bg-indigo-100 rounded-full overflow-hidden mt-3">
+          <div
+            className="h-full bg-indigo-600 rounded-full transition-all"
+            style={{ width: `${(uploadProgress.sentBytes / Math.max(1, uploadProgress.totalBytes)) * 100}%` }}
+          />
+        </div>
+      )}
+
+      <button
+        onClick={onCancel}
+        className="mt-4 w-full text-xs font-semibold text-slate-600 bg-slate-100 px-3 py-1.5 rounded-full hover:bg-slate-200 transition-colors"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import React from 'react';
+import { Activity, Dumbbell, AlertTriangle, Wrench, Clock, Package, PlayCircle, Target, ShieldAlert, UserCog, Bookmark, BookmarkCheck } from 'lucide-react';
+import { Card } from './ui';
+import { SCORE_LABELS } from '../services/analysisSchema';
+import { formatRange } from '../utils/time';
+import type { AnalysisIssue, AnalysisResult, CategoryScore, Drill, Severity, StrokeBreakdown } from '../types';
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+  high: 'bg-red-100 text-red-700',
+  medium: 'bg-amber-100 text-amber-700',
+  low: 'bg-slate-100 text-slate-600',
+};
+
+const scoreColor = (score: number) =>
+  score >= 7.5 ? 'bg-emerald-500' : score >= 5 ? 'bg-amber-400' : 'bg-red-500';
+
+export const ScoreBar: React.FC<{ score: CategoryScore }> = ({ score }) => (
+  <div>
+    <div className="flex justify-between items-baseline mb-1">
+      <span className="text-sm font-semibold text-slate-700">{SCORE_LABELS[score.category]}</span>
+      <span className="text-sm font-bold text-slate-900">{score.score.toFixed(1)}<span className="text-xs text-slate-400">/10</span></span>
+    </div>
+    <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+      <div className={`h-full rounded-full ${scoreColor(score.score)}`} style={{ width: `${score.score * 10}%` }} />
+    </div>
+    {score.note && <p className="text-xs text-slate-500 mt-1">{score.note}</p>}
+  </div>
+);
+
+export const TimestampChip: React.FC<{ start: number, end: number, onSeek?: (time: number) => void }> = ({ start, end, onSeek }) => (
+  <button
+    onClick={() => onSeek?.(start)}
+    disabled={!onSeek}
+    className="inline-flex items-center gap-1 text-[11px] font-mono font-semibold text-indigo-700 bg-indigo-50 hover:bg-indigo-100 disabled:hover:bg-indigo-50 px-2 py-0.5 rounded-full transition-colors"
+  >
+    <PlayCircle className="w-3 h-3" /> {formatRange(start, end)}
+  </button>
+);
+
+export const IssueItem: React.FC<{ issue: AnalysisIssue, onSeek?: (time: number) => void }> = ({ issue, onSeek }) => (
+  <div className="p-4 rounded-xl border border-slate-200 bg-slate-50/50">
+    <div className="flex flex-wrap items-center gap-2 mb-2">
+      <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${SEVERITY_STYLES[issue.severity]}`}>{issue.severity}</span>
+      <span className="text-xs font-semibold text-slate-900">{issue.bodyPart}</span>
+      <span className="text-xs text-slate-400">&middot; {issue.strokePhase}</span>
+      <span className="ml-auto"><TimestampChip start={issue.startTime} end={issue.endTime} onSeek={onSeek} /></span>
+    </div>
+    <p className="text-sm text-slate-600 leading-relaxed flex gap-2">
+      <AlertTriangle className="w-4 h-4 text-slate-400 shrink-0 mt-0.5" /> {issue.description}
+    </p>
+    {issue.fix && (
+      <p className="text-sm text-indigo-700 leading-relaxed flex gap-2 mt-2">
+        <Wrench className="w-4 h-4 shrink-0 mt-0.5" /> {issue.fix}
+      </p>
+    )}
+  </div>
+);
+
+// Saving drills to the library; the report renders without it
+export interface DrillBookmarks {
+  isSaved: (drill: Drill) => boolean;
+  onToggle: (drill: Drill) => void;
+}
+
+// Without an index (outside a numbered list) the badge shows an icon
+export const DrillItem: React.FC<{ drill: Drill, index?: number, bookmarks?: DrillBookmarks }> = ({ drill, index, bookmarks }) => (
+  <div className="flex gap-3">
+    <div className="w-7 h-7 rounded-full bg-emerald-100 text-emerald-700 font-bold text-sm flex items-center justify-center shrink-0">
+      {index !== undefined ? index + 1 : <Dumbbell className="w-3.5 h-3.5" />}
+    </div>
+    <div className="flex-1 min-w-0">
+      <div className="flex items-start gap-2">
+        <h4 className="font-semibold text-slate-900 flex-1">{drill.name}</h4>
+        {bookmarks && (
+          <button
+            onClick={() => bookmarks.onToggle(drill)}
+            title={bookmarks.isSaved(drill) ? 'Remove from library' : 'Save to library'}
+            className={`p-1 -mt-0.5 rounded-full shrink-0 transition-colors ${bookmarks.isSaved(drill) ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 hover:text-indigo-600 hover:bg-slate-100'}`}
+          >
+            {bookmarks.isSaved(drill) ? <BookmarkCheck className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-slate-600 leading-relaxed mt-0.5">{drill.goal}</p>
+      <div className="flex flex-wrap gap-3 mt-2 text-xs text-slate-500">
+        {drill.repsOrDuration && (
+          <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> {drill.repsOrDuration}</span>
+        )}
+        {drill.equipment.length > 0 && (
+          <span className="flex items-center gap-1"><Package className="w-3 h-3" /> {drill.equipment.join(', ')}</span>
+        )}
+      </div>
+      {drill.caution && (
+        <p className="mt-2 text-xs text-amber-800 bg-amber-50 border border-amber-100 rounded-lg px-2.5 py-1.5 flex gap-1.5">
+          <ShieldAlert className="w-3.5 h-3.5 shrink-0 mt-px" /> {drill.caution}
+        </p>
+      )}
+    </div>
+  </div>
+);
+
+const TINTS = {
+  indigo: { bg: 'bg-indigo-50', icon: 'text-indigo-600' },
+  emerald: { bg: 'bg-emerald-50', icon: 'text-emerald-600' },
+};
+
+export const SectionHeader: React.FC<{ icon: any, title: string, tint: keyof typeof TINTS }> = ({ icon: Icon, title, tint }) => (
+  <div className="flex items-center gap-3 mb-4 border-b border-slate-100 pb-3">
+    <div className={`p-2 rounded-lg ${TINTS[tint].bg}`}>
+      <Icon className={`w-5 h-5 ${TINTS[tint].icon}`} />
+    </div>
+    <h2 className="text-lg font-bold text-slate-900">{title}</h2>
+  </div>
+);
+
+const IssueList: React.FC<{ issues: AnalysisIssue[], onSeek?: (time: number) => void }> = ({ issues, onSeek }) => (
+  <div className="space-y-3">
+    {issues.length > 0 ? (
+      issues.map((issue, i) => <IssueItem key={i} issue={issue} onSeek={onSeek} />)
+    ) : (
+      <p className="text-sm text-slate-500">No significant issues detected.</p>
+    )}
+  </div>
+);
+
+const DrillList: React.FC<{ drills: Drill[], bookmarks?: DrillBookmarks }> = ({ drills, bookmarks }) => (
+  <div className="space-y-5">
+    {drills.length > 0 ? (
+      drills.map((drill, i) => <DrillItem key={i} drill={drill} index={i} bookmarks={bookmarks} />)
+    ) : (
+      <p className="text-sm text-slate-500">Drills unavailable.</p>
+    )}
+  </div>
+);
+
+export const StrokeCard: React.FC<{ stroke: StrokeBreakdown, issues: AnalysisIssue[], drills: Drill[], onSeek?: (time: number) => void, bookmarks?: DrillBookmarks }> = ({ stroke, issues, drills, onSeek, bookmarks }) => (
+  <Card className="p-5 border-l-4 border-l-indigo-500">
+    <SectionHeader icon={Target} title={stroke.stroke} tint="indigo" />
+    {stroke.segments.length > 0 && (
+      <div className="flex flex-wrap gap-1.5 mb-3">
+        {stroke.segments.map((seg, i) => <TimestampChip key={i} start={seg.startTime} end={seg.endTime} onSeek={onSeek} />)}
+      </div>
+    )}
+    {stroke.summary && <p className="text-slate-600 leading-relaxed text-sm md:text-base mb-4">{stroke.summary}</p>}
+    <IssueList issues={issues} onSeek={onSeek} />
+    <div className="mt-5 pt-4 border-t border-slate-100">
+      <h3 className="text-sm font-bold text-emerald-700 flex items-center gap-2 mb-3">
+        <Dumbbell className="w-4 h-4" /> Drills for {stroke.stroke}
+      </h3>
+      <DrillList drills={drills} bookmarks={bookmarks} />
+    </div>
+  </Card>
+);
+
+// children render after the drills, e.g. the training plan built from them
+export const AnalysisReport: React.FC<{ result: AnalysisResult, onSeek?: (time: number) => void, bookmarks?: DrillBookmarks, children?: React.ReactNode }> = ({ result, onSeek, bookmarks, children }) => {
+  const strokes = result.strokes || [];
+
+  return (
+    <div className="space-y-6">
+      {/* Card 1: Technical Analysis */}
+      <Card className="p-5 border-l-4 border-l-indigo-500">
+        <SectionHeader icon={Activity} title="Technical Analysis" tint="indigo" />
+        <p className="text-slate-600 leading-relaxed text-sm md:text-base mb-5">{result.summary}</p>
+
+        {/* What the model took from the player profile, or guessed without one */}
+        {result.assumptions && result.assumptions.length > 0 && (
+          <div className="mb-5 p-3 rounded-xl bg-slate-50 border border-slate-100">
+            <h3 className="text-[11px] font-bold text-slate-500 uppercase tracking-wider flex items-center gap-1.5 mb-1.5"><UserCog className="w-3.5 h-3.5" /> Assumptions</h3>
+            <ul className="text-xs text-slate-600 space-y-0.5 list-disc pl-4">
+              {result.assumptions.map((a, i) => <li key={i}>{a}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {result.scores.length > 0 && (
+          <div className={`grid sm:grid-cols-2 gap-4 ${strokes.length ? '' : 'mb-5'}`}>
+            {result.scores.map((s) => <ScoreBar key={s.category} score={s} />)}
+          </div>
+        )}
+
+        {/* Sessions saved before per-stroke analysis keep the blended layout */}
+        {strokes.length === 0 && <IssueList issues={result.issues} onSeek={onSeek} />}
+      </Card>
+
+      {strokes.length > 0 ? (
+        strokes.map((stroke) => (
+          <StrokeCard
+            key={stroke.stroke}
+            stroke={stroke}
+            issues={result.issues.filter((i) => i.stroke === stroke.stroke)}
+            drills={result.drills.filter((d) => d.stroke === stroke.stroke)}
+            onSeek={onSeek}
+            bookmarks={bookmarks}
+          />
+        ))
+      ) : (
+        /* Card 2: Drills */
+        <Card className="p-5 border-l-4 border-l-emerald-500">
+          <SectionHeader icon={Dumbbell} title="Recommended Drills" tint="emerald" />
+          <DrillList drills={result.drills} bookmarks={bookmarks} />
+        </Card>
+      )}
+
+      {children}
+
+      <div className="text-center">
+        <p className="text-xs text-slate-400">AI analysis based on visual data. Consult a professional for safety.</p>
+      </div>
+    </div>
+  );
+};
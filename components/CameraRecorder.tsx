@@ -0,0 +1,220 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Loader2, SwitchCamera, X } from 'lucide-react';
+import { ActiveRecording, COUNTDOWN_S, CameraFacing, FRAMING_GUIDES, MAX_RECORDING_S, countCameras, framingFor, openCamera, startRecording, stopCamera } from '../services/recording';
+import { formatTimestamp } from '../utils/time';
+import type { CameraView, SportDefinition } from '../services/sports';
+
+// --- Framing Guide ---
+//
+// Dashed outline of where the player should stand, over the live preview.
+// Side-on puts them left of center with the ground line low; from behind
+// they are centered between converging sidelines.
+
+const FramingGuide: React.FC<{ view: CameraView }> = ({ view }) => (
+  <svg viewBox="0 0 160 90" preserveAspectRatio="xMidYMid meet" className="absolute inset-0 w-full h-full pointer-events-none">
+    <g fill="none" stroke="rgba(255,255,255,0.75)" strokeWidth="0.6" strokeDasharray="2 1.5">
+      {view === 'side' ? (
+        <>
+          <line x1="10" y1="80" x2="150" y2="80" />
+          <circle cx="62" cy="25" r="4.5" />
+          <rect x="54" y="31" width="16" height="49" rx="5" />
+          <path d="M 78 40 L 96 40 M 91 36 L 96 40 L 91 44" strokeDasharray="none" />
+        </>
+      ) : (
+        <>
+          <line x1="20" y1="82" x2="140" y2="82" />
+          <line x1="20" y1="82" x2="55" y2="30" />
+          <line x1="140" y1="82" x2="105" y2="30" />
+          <line x1="55" y1="30" x2="105" y2="30" strokeDasharray="none" />
+          <circle cx="80" cy="47" r="4" />
+          <rect x="73" y="52" width="14" height="30" rx="4.5" />
+        </>
+      )}
+    </g>
+  </svg>
+);
+
+// --- Camera Recorder ---
+
+type Phase = 'starting' | 'ready' | 'countdown' | 'recording' | 'saving';
+
+interface CameraRecorderProps {
+  sport: SportDefinition;
+  stroke?: string; // picks the framing guide
+  onStrokeChange: (stroke?: string) => void;
+  onRecorded: (file: File) => void;
+  onCancel: () => void;
+}
+
+export const CameraRecorder: React.FC<CameraRecorderProps> = ({ sport, stroke, onStrokeChange, onRecorded, onCancel }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const recordingRef = useRef<ActiveRecording | null>(null);
+  const [facing, setFacing] = useState<CameraFacing>('environment');
+  const [cameras, setCameras] = useState(0);
+  const [phase, setPhase] = useState<Phase>('starting');
+  const [error, setError] = useState<string | null>(null);
+  const [countdown, setCountdown] = useState(COUNTDOWN_S);
+  const [elapsed, setElapsed] = useState(0);
+
+  // (Re)open the camera whenever the facing changes; tracks are always
+  // stopped on the way out so the camera light goes off.
+  useEffect(() => {
+    let cancelled = false;
+    setPhase('starting');
+    setError(null);
+    openCamera(facing)
+      .then((stream) => {
+        if (cancelled) return stopCamera(stream);
+        streamRef.current = stream;
+        if (videoRef.current) videoRef.current.srcObject = stream;
+        setPhase('ready');
+        countCameras().then(setCameras);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message);
+      });
+    return () => {
+      cancelled = true;
+      stopCamera(streamRef.current);
+      streamRef.current = null;
+    };
+  }, [facing]);
+
+  useEffect(() => {
+    if (phase !== 'countdown') return;
+    if (countdown === 0) {
+      try {
+        recordingRef.current = startRecording(streamRef.current!);
+        setElapsed(0);
+        setPhase('recording');
+      } catch (err: any) {
+        setError(err.message);
+        setPhase('ready');
+      }
+      return;
+    }
+    const t = setTimeout(() => setCountdown((n) => n - 1), 1000);
+    return () => clearTimeout(t);
+  }, [phase, countdown]);
+
+  useEffect(() => {
+    if (phase !== 'recording') return;
+    const t = setInterval(() => {
+      const seconds = (Date.now() - recordingRef.current!.startedAt) / 1000;
+      setElapsed(seconds);
+      if (seconds >= MAX_RECORDING_S) finish();
+    }, 250);
+    return () => clearInterval(t);
+  }, [phase]);
+
+  const finish = async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    setPhase('saving');
+    const file = await recording.stop();
+    // An empty take goes back to 'ready', which needs the camera still live
+    if (file.size) {
+      stopCamera(streamRef.current);
+      onRecorded(file);
+    } else {
+      setError('Nothing was recorded. Try again.');
+      setPhase('ready');
+    }
+  };
+
+  const begin = () => {
+    setCountdown(COUNTDOWN_S);
+    setPhase('countdown');
+  };
+
+  const view = framingFor(sport, stroke);
+  const guide = FRAMING_GUIDES[view];
+  const busy = phase === 'countdown' || phase === 'recording' || phase === 'saving';
+
+  return (
+    <div className="absolute inset-0 bg-black">
+      <video
+        ref={videoRef}
+        autoPlay
+        muted
+        playsInline
+        className={`w-full h-full object-contain ${facing === 'user' ? '-scale-x-100' : ''}`}
+      />
+      {phase !== 'starting' && !error && <FramingGuide view={view} />}
+
+      <div className="absolute top-3 left-3 right-3 flex items-start justify-between gap-2">
+        {phase === 'recording' ? (
+          <span className="text-xs font-mono font-semibold text-white bg-red-600 px-2 py-1 rounded-md flex items-center gap-1.5">
+            <span className="w-2 h-2 rounded-full bg-white animate-pulse" />
+            {formatTimestamp(elapsed)} / {formatTimestamp(MAX_RECORDING_S)}
+          </span>
+        ) : (
+          <select
+            value={stroke || ''}
+            onChange={(e) => onStrokeChange(e.target.value || undefined)}
+            disabled={busy}
+            className="text-xs font-semibold text-white bg-slate-900/70 border border-white/20 rounded-md px-2 py-1 max-w-[60%]"
+          >
+            <option value="">Any stroke</option>
+            {sport.strokes.map((s) => <option key={s} value={s}>{s}</option>)}
+          </select>
+        )}
+        {!busy && (
+          <button onClick={onCancel} title="Close camera" className="p-1.5 rounded-full bg-slate-900/70 text-white hover:bg-slate-900">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {phase === 'ready' && !error && (
+        <p className="absolute left-3 right-3 bottom-20 text-[11px] text-white/90 bg-slate-900/60 px-2.5 py-1.5 rounded-md">
+          <span className="font-bold">{guide.label}:</span> {guide.tip}
+        </p>
+      )}
+
+      {phase === 'countdown' && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <span className="text-7xl font-black text-white drop-shadow-lg">{countdown || ''}</span>
+        </div>
+      )}
+
+      {(phase === 'starting' || phase === 'saving') && !error && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <Loader2 className="w-8 h-8 text-white animate-spin" />
+        </div>
+      )}
+
+      {error && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 p-6 text-center">
+          <AlertCircle className="w-8 h-8 text-red-400" />
+          <p className="text-sm text-white">{error}</p>
+          <button onClick={onCancel} className="text-xs font-semibold text-slate-900 bg-white px-3 py-1.5 rounded-full">Back to upload</button>
+        </div>
+      )}
+
+      {!error && (phase === 'ready' || phase === 'recording') && (
+        <div className="absolute bottom-4 left-0 right-0 flex items-center justify-center gap-6">
+          {phase === 'ready' && cameras > 1 && (
+            <button
+              onClick={() => setFacing((f) => (f === 'user' ? 'environment' : 'user'))}
+              title={facing === 'user' ? 'Use rear camera' : 'Use front camera'}
+              className="p-2.5 rounded-full bg-slate-900/70 text-white hover:bg-slate-900"
+            >
+              <SwitchCamera className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={phase === 'ready' ? begin : finish}
+            title={phase === 'ready' ? `Record (up to ${MAX_RECORDING_S}s)` : 'Stop'}
+            className="w-14 h-14 rounded-full border-4 border-white flex items-center justify-center"
+          >
+            <span className={`bg-red-600 transition-all ${phase === 'recording' ? 'w-5 h-5 rounded-sm' : 'w-10 h-10 rounded-full'}`} />
+          </button>
+          {phase === 'ready' && cameras > 1 && <span className="w-10" />}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, MessageCircle, RotateCcw, Send, Trash2 } from 'lucide-react';
+import { TimestampChip } from './AnalysisReport';
+import { ChatMedia, askCoach, createChatMessage, splitCitations, suggestedQuestions } from '../services/coachChat';
+import { ClassifiedError, classifyError } from '../services/errors';
+import type { AnalysisResult, ChatMessage } from '../types';
+
+// --- Message ---
+
+const MessageBubble: React.FC<{ message: ChatMessage, onSeek?: (time: number) => void }> = ({ message, onSeek }) =>
+  message.role === 'user' ? (
+    <div className="flex justify-end">
+      <p className="max-w-[85%] text-sm text-white bg-indigo-600 px-3.5 py-2 rounded-2xl rounded-br-md whitespace-pre-wrap">{message.text}</p>
+    </div>
+  ) : (
+    <div className="max-w-[92%] text-sm text-slate-700 bg-white border border-slate-200 px-3.5 py-2.5 rounded-2xl rounded-bl-md leading-relaxed whitespace-pre-wrap">
+      {splitCitations(message.text).map((segment, i) =>
+        'text' in segment
+          ? <React.Fragment key={i}>{segment.text}</React.Fragment>
+          : <span key={i} className="inline-block align-middle"><TimestampChip start={segment.start} end={segment.end} onSeek={onSeek} /></span>
+      )}
+    </div>
+  );
+
+// --- Coach Chat ---
+
+interface CoachChatProps {
+  sport: string;
+  persona: string;
+  result: AnalysisResult;
+  messages: ChatMessage[];
+  getMedia: () => Promise<ChatMedia>; // the clip may need uploading again for a reopened session
+  onChange: (messages: ChatMessage[]) => void;
+  onSeek?: (time: number) => void;
+}
+
+export const CoachChat: React.FC<CoachChatProps> = ({ sport, persona, result, messages, getMedia, onChange, onSeek }) => {
+  const [draft, setDraft] = useState('');
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<ClassifiedError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [messages.length, pending]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // The question is saved right away; if the answer fails it stays, and
+  // retrying asks it again.
+  const ask = async (history: ChatMessage[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPending(true);
+    setError(null);
+    try {
+      const text = await askCoach({ sport, persona, result, media: await getMedia(), history }, controller.signal);
+      onChange([...history, createChatMessage('model', text.trim() || "I don't have an answer for that one. Try asking another way.")]);
+    } catch (err: any) {
+      if (err?.name === 'AbortError') return;
+      console.error(err);
+      setError(classifyError(err));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const send = (text: string) => {
+    const question = text.trim();
+    if (!question || pending) return;
+    const history = [...messages, createChatMessage('user', question)];
+    onChange(history);
+    setDraft('');
+    ask(history);
+  };
+
+  const awaitingAnswer = messages.length > 0 && messages[messages.length - 1].role === 'user';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between px-1">
+        <div>
+          <h3 className="font-bold text-slate-900 flex items-center gap-2"><MessageCircle className="w-4 h-4 text-indigo-600" /> Ask your coach</h3>
+          <p className="text-xs text-slate-500">Questions about this clip and report. Tap a time to jump to it.</p>
+        </div>
+        {messages.length > 0 && !pending && (
+          <button onClick={() => onChange([])} title="Clear conversation" className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {messages.length === 0 && (
+        <div className="flex flex-col items-start gap-2">
+          {suggestedQuestions(result).map((q) => (
+            <button
+              key={q}
+              onClick={() => send(q)}
+              className="text-left text-sm text-indigo-700 bg-indigo-50 hover:bg-indigo-100 px-3 py-2 rounded-xl transition-colors"
+            >
+              {q}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {messages.map((m) => <MessageBubble key={m.id} message={m} onSeek={onSeek} />)}
+        {pending && (
+          <div className="flex items-center gap-2 text-xs text-slate-500 px-1">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" /> Watching the clip again...
+          </div>
+        )}
+        {error && !pending && (
+          <div className="p-3 bg-red-50 border border-red-100 rounded-xl text-sm">
+            <p className="font-semibold text-red-600">{error.title}</p>
+            <p className="text-xs text-red-500 mt-0.5">{error.guidance}</p>
+            {awaitingAnswer && (
+              <button onClick={() => ask(messages)} className="mt-2 text-xs font-semibold text-red-600 flex items-center gap-1">
+                <RotateCcw className="w-3.5 h-3.5" /> Ask again
+              </button>
+            )}
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          send(draft);
+        }}
+        className="flex gap-2"
+      >
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Why is my contact point late?"
+          className="flex-1 min-w-0 text-sm px-3.5 py-2.5 rounded-xl border border-slate-200 bg-white focus:outline-none focus:border-indigo-400"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim() || pending}
+          className="px-3.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white transition-colors"
+          title="Send"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Award, CalendarClock, CheckCircle, Loader2, MapPin, Send, Star, Verified, X } from 'lucide-react';
+import { CoachMatch, CoachSort, coachSource, formatPriceRange, formatSlot, matchCoaches, sortCoaches } from '../services/coachDirectory';
+import { formatDistance } from '../utils/geo';
+import type { AnalysisIssue, Coach, LatLng } from '../types';
+
+// --- Contact Form ---
+
+const ContactForm: React.FC<{ coach: Coach, issues: AnalysisIssue[], onClose: () => void }> = ({ coach, issues, onClose }) => {
+  const focus = issues.slice(0, 3).map((i) => i.description).filter(Boolean);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [preferredSlot, setPreferredSlot] = useState('');
+  const [message, setMessage] = useState(
+    `Hi ${coach.name.split(' ')[0]}, I'd like to book a lesson.${focus.length ? ` I'm working on:\n${focus.map((f) => `- ${f}`).join('\n')}` : ''}`
+  );
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent' | 'failed'>('idle');
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStatus('sending');
+    try {
+      await coachSource.requestContact({ coachId: coach.id, name, email, preferredSlot: preferredSlot || undefined, message });
+      setStatus('sent');
+    } catch (err) {
+      console.error(err);
+      setStatus('failed');
+    }
+  };
+
+  if (status === 'sent') {
+    return (
+      <div className="mt-3 p-3 bg-emerald-50 border border-emerald-100 rounded-lg text-xs text-emerald-700 flex items-center gap-2">
+        <CheckCircle className="w-4 h-4 shrink-0" /> Request sent. {coach.name} will reply to {email}.
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="mt-3 pt-3 border-t border-slate-100 space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <input required value={name} onChange={(e) => setName(e.target.value)} placeholder="Your name" className="text-sm px-3 py-2 rounded-lg border border-slate-200 focus:outline-none focus:border-indigo-400" />
+        <input required type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="Email" className="text-sm px-3 py-2 rounded-lg border border-slate-200 focus:outline-none focus:border-indigo-400" />
+      </div>
+      <select value={preferredSlot} onChange={(e) => setPreferredSlot(e.target.value)} className="w-full text-sm px-3 py-2 rounded-lg border border-slate-200 bg-white focus:outline-none focus:border-indigo-400">
+        <option value="">Any available time</option>
+        {coach.availability.map((slot) => <option key={formatSlot(slot)} value={formatSlot(slot)}>{formatSlot(slot)}</option>)}
+      </select>
+      <textarea required rows={4} value={message} onChange={(e) => setMessage(e.target.value)} className="w-full text-sm px-3 py-2 rounded-lg border border-slate-200 focus:outline-none focus:border-indigo-400" />
+      {status === 'failed' && <p className="text-xs text-red-600">Could not send the request. Try again.</p>}
+      <div className="flex gap-2">
+        <button type="button" onClick={onClose} className="px-3 py-2 text-xs font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg">Cancel</button>
+        <button type="submit" disabled={status === 'sending'} className="flex-1 px-3 py-2 text-xs font-semibold text-white bg-slate-900 hover:bg-slate-800 disabled:opacity-60 rounded-lg flex items-center justify-center gap-1.5">
+          {status === 'sending' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />} Send Request
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// --- Coach Card ---
+
+const CoachCard: React.FC<{ match: CoachMatch, issues: AnalysisIssue[] }> = ({ match, issues }) => {
+  const { coach, distanceKm, matchedFocus } = match;
+  const [contacting, setContacting] = useState(false);
+
+  return (
+    <div className="p-4 bg-white rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex items-start gap-4">
+        <img src={coach.image} alt={coach.name} className="w-14 h-14 rounded-full bg-slate-100 object-cover shrink-0 border border-slate-100" />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-1">
+            <h4 className="font-bold text-sm text-slate-900 truncate">{coach.name}</h4>
+            {coach.verified && <Verified className="w-3.5 h-3.5 text-blue-500 shrink-0" />}
+          </div>
+          <p className="text-xs font-semibold text-indigo-600 truncate">{coach.title}</p>
+          <div className="flex items-center gap-1 mt-1 text-xs">
+            <Star className="w-3 h-3 fill-amber-400 text-amber-400" />
+            <span className="font-bold text-slate-700">{coach.rating.toFixed(1)}</span>
+            <span className="text-slate-400">({coach.reviews})</span>
+            <span className="text-slate-300 mx-1">•</span>
+            <span className="font-semibold text-slate-700">{formatPriceRange(coach.priceRange)}</span>
+          </div>
+          <p className="text-xs text-slate-500 mt-1 flex items-center gap-1">
+            <MapPin className="w-3 h-3 shrink-0" />
+            <span className="truncate">{coach.location.name}{distanceKm !== undefined && ` · ${formatDistance(distanceKm)}`}</span>
+          </p>
+        </div>
+        {!contacting && (
+          <button onClick={() => setContacting(true)} className="self-center px-3 py-1.5 bg-slate-900 hover:bg-slate-800 text-white text-xs font-semibold rounded-lg">Contact</button>
+        )}
+        {contacting && (
+          <button onClick={() => setContacting(false)} className="self-start p-1 text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+        )}
+      </div>
+
+      {matchedFocus.length > 0 && (
+        <p className="mt-3 text-xs font-semibold text-emerald-700 bg-emerald-50 px-2.5 py-1.5 rounded-lg">
+          Specializes in {matchedFocus.join(', ').toLowerCase()}, which your analysis flagged.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-1 mt-3">
+        {coach.specialties.map((s) => (
+          <span key={s} className={`text-[10px] font-semibold px-1.5 py-0.5 rounded ${matchedFocus.includes(s) ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-600'}`}>{s}</span>
+        ))}
+      </div>
+      <div className="mt-2 space-y-1 text-[11px] text-slate-500">
+        <p className="flex items-center gap-1"><Award className="w-3 h-3 shrink-0" /> {coach.certifications.join(', ')}</p>
+        <p className="flex items-center gap-1"><CalendarClock className="w-3 h-3 shrink-0" /> {coach.availability.map(formatSlot).join(' · ')}</p>
+      </div>
+
+      {contacting && <ContactForm coach={coach} issues={issues} onClose={() => setContacting(false)} />}
+    </div>
+  );
+};
+
+// --- Directory ---
+
+interface CoachDirectoryProps {
+  sport: string;
+  location: LatLng | null;
+  issues: AnalysisIssue[];
+}
+
+const SORT_LABELS: Record<CoachSort, string> = { match: 'Best match', distance: 'Nearest', rating: 'Top rated' };
+
+export const CoachDirectory: React.FC<CoachDirectoryProps> = ({ sport, location, issues }) => {
+  const [coaches, setCoaches] = useState<Coach[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [specialty, setSpecialty] = useState<string | null>(null);
+  const [sort, setSort] = useState<CoachSort>(issues.length ? 'match' : 'rating');
+
+  useEffect(() => {
+    setCoaches(null);
+    setLoadFailed(false);
+    coachSource.list(sport).then(setCoaches).catch((err) => {
+      console.error(err);
+      setLoadFailed(true);
+    });
+  }, [sport]);
+
+  const specialties = useMemo(() => [...new Set((coaches || []).flatMap((c) => c.specialties))].sort(), [coaches]);
+
+  const matches = useMemo(() => {
+    const visible = (coaches || []).filter((c) => !specialty || c.specialties.includes(specialty));
+    return sortCoaches(matchCoaches(visible, issues, location), sort);
+  }, [coaches, specialty, issues, location, sort]);
+
+  if (loadFailed) return <p className="text-sm text-slate-500 px-1">The coach directory is unavailable right now.</p>;
+  if (!coaches) return <div className="flex justify-center p-8"><Loader2 className="w-5 h-5 text-indigo-600 animate-spin" /></div>;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center px-1">
+        <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">Coach Directory</h3>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as CoachSort)}
+          className="text-xs font-semibold text-slate-600 bg-white border border-slate-200 rounded-lg px-2 py-1"
+        >
+          {(Object.keys(SORT_LABELS) as CoachSort[])
+            .filter((s) => s !== 'distance' || location)
+            .map((s) => <option key={s} value={s}>{SORT_LABELS[s]}</option>)}
+        </select>
+      </div>
+
+      {specialties.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 px-1">
+          <button
+            onClick={() => setSpecialty(null)}
+            className={`text-xs font-semibold px-2.5 py-1 rounded-full transition-colors ${specialty === null ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'}`}
+          >
+            All
+          </button>
+          {specialties.map((s) => (
+            <button
+              key={s}
+              onClick={() => setSpecialty(specialty === s ? null : s)}
+              className={`text-xs font-semibold px-2.5 py-1 rounded-full transition-colors ${specialty === s ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'}`}
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {matches.length > 0 ? (
+        matches.map((m) => <CoachCard key={m.coach.id} match={m} issues={issues} />)
+      ) : (
+        <p className="text-sm text-slate-500 px-1">No coaches listed for this {specialty ? 'specialty' : 'sport'} yet.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, ChevronRight, ClipboardCheck, Eye, Loader2, MessageSquare, Trash2, UserPlus, Users, Video } from 'lucide-react';
+import { Card } from './ui';
+import { AnalysisReport } from './AnalysisReport';
+import { ReviewEditor, STATUS_STYLES } from './ReviewEditor';
+import { coachStore, createAthleteId } from '../services/coachStore';
+import { publishedResult } from '../services/coachReview';
+import { SPORTS, getSport } from '../services/sports';
+import type { Athlete, CoachReview } from '../types';
+
+const field = 'w-full text-sm px-3 py-2 rounded-lg border border-slate-200 bg-white focus:outline-none focus:border-indigo-400';
+
+// --- Roster ---
+
+const AddAthlete: React.FC<{ defaultSport?: string | null, onAdd: (athlete: Athlete) => void }> = ({ defaultSport, onAdd }) => {
+  const [name, setName] = useState('');
+  const [sport, setSport] = useState(defaultSport || '');
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        onAdd({ id: createAthleteId(), name: name.trim(), sport: sport || undefined, createdAt: Date.now() });
+        setName('');
+      }}
+      className="flex gap-2"
+    >
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Athlete name" className={field} />
+      <select value={sport} onChange={(e) => setSport(e.target.value)} className="text-sm px-2 rounded-lg border border-slate-200 bg-white">
+        <option value="">Any sport</option>
+        {SPORTS.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+      </select>
+      <button type="submit" disabled={!name.trim()} className="px-3 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40" title="Add athlete">
+        <UserPlus className="w-4 h-4" />
+      </button>
+    </form>
+  );
+};
+
+// --- Student View ---
+
+// Only what was published, as the student sees it
+const StudentReports: React.FC<{ reviews: CoachReview[] }> = ({ reviews }) => {
+  const published = reviews.filter((r) => r.published);
+  if (!published.length) {
+    return <p className="text-sm text-slate-500 px-1">Nothing has been published to this athlete yet.</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      {published.map((review) => (
+        <div key={review.id} className="space-y-3">
+          <div className="px-1">
+            <h3 className="font-bold text-slate-900">{review.title}</h3>
+            <p className="text-xs text-slate-500">Reviewed by your coach · {new Date(review.published!.publishedAt).toLocaleDateString()}</p>
+          </div>
+          {review.published!.comments.length > 0 && (
+            <Card className="p-4 border-l-4 border-l-amber-400 space-y-2">
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-1.5"><MessageSquare className="w-3.5 h-3.5" /> From your coach</h4>
+              {review.published!.comments.map((c) => <p key={c.id} className="text-sm text-slate-700 whitespace-pre-wrap">{c.text}</p>)}
+            </Card>
+          )}
+          <AnalysisReport result={publishedResult(review)!} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// --- Athlete Page ---
+
+interface AthletePageProps {
+  athlete: Athlete;
+  onBack: () => void;
+  onRemove: () => void;
+}
+
+const AthletePage: React.FC<AthletePageProps> = ({ athlete, onBack, onRemove }) => {
+  const [reviews, setReviews] = useState<CoachReview[] | null>(null);
+  const [tab, setTab] = useState<'reviews' | 'student'>('reviews');
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const refresh = () => coachStore.listReviews(athlete.id).then(setReviews).catch((err) => {
+    console.error(err);
+    setReviews([]);
+    setNotice(err.message);
+  });
+
+  useEffect(() => { refresh(); }, [athlete.id]);
+
+  const open = reviews?.find((r) => r.id === openId);
+  if (open) {
+    return (
+      <ReviewEditor
+        review={open}
+        athleteName={athlete.name}
+        onSave={coachStore.saveReview}
+        onBack={() => {
+          setOpenId(null);
+          refresh();
+        }}
+      />
+    );
+  }
+
+  const unassign = async (review: CoachReview) => {
+    if (!confirm(`Remove "${review.title}" from ${athlete.name}? Your edits and comments on it are deleted.`)) return;
+    await coachStore.deleteReview(review.id).catch((err) => setNotice(err.message));
+    refresh();
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <button onClick={onBack} className="flex items-center gap-1 text-xs font-semibold text-slate-500 hover:text-indigo-600">
+          <ArrowLeft className="w-3.5 h-3.5" /> Roster
+        </button>
+        <button onClick={onRemove} className="ml-auto text-xs font-semibold text-slate-400 hover:text-red-600 flex items-center gap-1">
+          <Trash2 className="w-3.5 h-3.5" /> Remove athlete
+        </button>
+      </div>
+      <div className="px-1">
+        <h2 className="text-lg font-bold text-slate-900">{athlete.name}</h2>
+        {athlete.sport && <p className="text-xs text-slate-500">{getSport(athlete.sport).name}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 rounded-xl">
+        <button
+          onClick={() => setTab('reviews')}
+          className={`py-2 rounded-lg text-xs font-semibold flex items-center justify-center gap-1.5 transition-colors ${tab === 'reviews' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+        >
+          <ClipboardCheck className="w-3.5 h-3.5" /> Reviews
+        </button>
+        <button
+          onClick={() => setTab('student')}
+          className={`py-2 rounded-lg text-xs font-semibold flex items-center justify-center gap-1.5 transition-colors ${tab === 'student' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+        >
+          <Eye className="w-3.5 h-3.5" /> Student view
+        </button>
+      </div>
+
+      {notice && <p className="text-xs text-red-600 px-1">{notice}</p>}
+
+      {reviews === null ? (
+        <div className="flex justify-center p-12"><Loader2 className="w-6 h-6 text-slate-400 animate-spin" /></div>
+      ) : tab === 'student' ? (
+        <StudentReports reviews={reviews} />
+      ) : reviews.length === 0 ? (
+        <div className="text-center p-12 bg-white rounded-2xl border border-dashed border-slate-300">
+          <ClipboardCheck className="w-10 h-10 mx-auto mb-3 text-slate-300" />
+          <p className="text-slate-500 text-sm">Assign an analysis to {athlete.name} from its report, and it shows up here for review.</p>
+        </div>
+      ) : (
+        reviews.map((review) => (
+          <div key={review.id} className="flex items-center gap-3 p-3 bg-white rounded-xl border border-slate-200 shadow-sm">
+            <button onClick={() => setOpenId(review.id)} className="flex-1 min-w-0 flex items-center gap-3 text-left">
+              <div className="w-20 h-14 bg-slate-100 rounded-lg shrink-0 overflow-hidden flex items-center justify-center">
+                {review.thumbnail ? <img src={review.thumbnail} alt="" className="w-full h-full object-cover" /> : <Video className="w-5 h-5 text-slate-300" />}
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-semibold text-slate-900 truncate">{review.title}</p>
+                <div className="flex items-center gap-2 mt-1">
+                  <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${STATUS_STYLES[review.status]}`}>{review.status}</span>
+                  {review.published && review.status !== 'published' && <span className="text-[11px] text-slate-400">unpublished changes</span>}
+                </div>
+              </div>
+              <ChevronRight className="w-4 h-4 text-slate-300 shrink-0" />
+            </button>
+            <button onClick={() => unassign(review)} title="Remove from athlete" className="p-1.5 rounded-full text-slate-400 hover:text-red-600 hover:bg-red-50 shrink-0">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+// --- Coach Workspace ---
+
+interface CoachWorkspaceProps {
+  athletes: Athlete[];
+  defaultSport?: string | null;
+  onRosterChange: (athletes: Athlete[]) => void;
+}
+
+export const CoachWorkspace: React.FC<CoachWorkspaceProps> = ({ athletes, defaultSport, onRosterChange }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [notice, setNotice] = useState<string | null>(null);
+  const selected = athletes.find((a) => a.id === selectedId);
+
+  // Reviews still waiting on the coach, per athlete
+  useEffect(() => {
+    if (selected) return;
+    coachStore.listReviews().then((reviews) => {
+      const next: Record<string, number> = {};
+      reviews.filter((r) => r.status !== 'published').forEach((r) => { next[r.athleteId] = (next[r.athleteId] || 0) + 1; });
+      setCounts(next);
+    }).catch((err) => console.warn("Could not count reviews", err));
+  }, [selected, athletes]);
+
+  const add = async (athlete: Athlete) => {
+    try {
+      await coachStore.saveAthlete(athlete);
+      onRosterChange([...athletes, athlete].sort((a, b) => a.name.localeCompare(b.name)));
+      setNotice(null);
+    } catch (err: any) {
+      setNotice(err.message);
+    }
+  };
+
+  const remove = async (athlete: Athlete) => {
+    if (!confirm(`Remove ${athlete.name} and all of their reviews? This cannot be undone.`)) return;
+    try {
+      await coachStore.deleteAthlete(athlete.id);
+      onRosterChange(athletes.filter((a) => a.id !== athlete.id));
+      setSelectedId(null);
+    } catch (err: any) {
+      setNotice(err.message);
+    }
+  };
+
+  if (selected) return <AthletePage athlete={selected} onBack={() => setSelectedId(null)} onRemove={() => remove(selected)} />;
+
+  return (
+    <div className="p-4 space-y-4">
+      <p className="text-sm text-slate-500 px-1">
+        Assign analyses to your athletes, then review the AI's issues and drills, add your own comments and publish the report to the athlete.
+        {coachStore.id === 'rest' ? ' Reviews are kept on the coach server.' : ' Reviews are kept on this device.'}
+      </p>
+      <AddAthlete defaultSport={defaultSport} onAdd={add} />
+      {notice && <p className="text-xs text-red-600 px-1">{notice}</p>}
+
+      {athletes.length === 0 ? (
+        <div className="text-center p-12 bg-white rounded-2xl border border-dashed border-slate-300">
+          <Users className="w-10 h-10 mx-auto mb-3 text-slate-300" />
+          <p className="text-slate-500 text-sm">Add the athletes you coach to start a roster.</p>
+        </div>
+      ) : (
+        athletes.map((athlete) => (
+          <button
+            key={athlete.id}
+            onClick={() => setSelectedId(athlete.id)}
+            className="w-full flex items-center gap-3 p-3 bg-white rounded-xl border border-slate-200 shadow-sm text-left hover:border-indigo-300 transition-colors"
+          >
+            <div className="w-9 h-9 rounded-full bg-indigo-50 text-indigo-600 font-bold flex items-center justify-center shrink-0">
+              {athlete.name.charAt(0).toUpperCase()}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-semibold text-slate-900 truncate">{athlete.name}</p>
+              <p className="text-xs text-slate-500">{athlete.sport ? getSport(athlete.sport).name : 'Any sport'}</p>
+            </div>
+            {counts[athlete.id] > 0 && (
+              <span className="text-[10px] font-bold bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full">{counts[athlete.id]} to review</span>
+            )}
+            <ChevronRight className="w-4 h-4 text-slate-300 shrink-0" />
+          </button>
+        ))
+      )}
+    </div>
+  );
+};
+
+// --- Athlete Select ---
+
+// Which athlete an analysis belongs to, shown once there is a roster
+export const AthleteSelect: React.FC<{ athletes: Athlete[], value: string | null, onChange: (athleteId: string | null) => void }> = ({ athletes, value, onChange }) => (
+  <label className="flex items-center gap-2 text-xs font-semibold text-slate-500">
+    <Users className="w-3.5 h-3.5 shrink-0" /> Athlete
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      className="flex-1 text-sm font-normal text-slate-700 px-2 py-1.5 rounded-lg border border-slate-200 bg-white"
+    >
+      <option value="">Not assigned</option>
+      {athletes.map((a) => <option key={a.id} value={a.id}>{a.name}</option>)}
+    </select>
+  </label>
+);
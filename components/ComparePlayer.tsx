@@ -0,0 +1,359 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Pause, X, Columns2, Layers, ChevronLeft, ChevronRight, Link2, Sparkles, Loader2, Upload, AlertCircle } from 'lucide-react';
+import { Card } from './ui';
+import { FRAME_STEP } from '../services/clipPrep';
+import { listSessions, getSessionVideo } from '../services/sessionStore';
+import { summarizeDifferences } from '../services/compare';
+import { classifyError } from '../services/errors';
+import { formatTimestamp } from '../utils/time';
+import type { ComparisonSummary, SavedSession } from '../types';
+
+const RATES = [0.25, 0.5, 1];
+const DRIFT_TOLERANCE = 0.08;
+
+type Layout = 'side' | 'overlay';
+type Blend = 'normal' | 'difference';
+
+interface ComparePlayerProps {
+  currentFile: File;
+  currentSrc: string;
+  sport: string;
+  excludeSessionId?: string | null;
+  onClose: () => void;
+}
+
+const clamp = (v: number, max: number) => Math.min(Math.max(0, v), max || 0);
+
+// The left (current) clip is the master clock; the reference follows it at
+// `delta` seconds ahead, which is what the per-side nudges adjust.
+export const ComparePlayer: React.FC<ComparePlayerProps> = ({ currentFile, currentSrc, sport, excludeSessionId, onClose }) => {
+  const leftRef = useRef<HTMLVideoElement>(null);
+  const rightRef = useRef<HTMLVideoElement>(null);
+  const rafRef = useRef<number | null>(null);
+
+  const [sessions, setSessions] = useState<SavedSession[]>([]);
+  const [refFile, setRefFile] = useState<File | null>(null);
+  const [refSrc, setRefSrc] = useState<string | null>(null);
+  const [refLabel, setRefLabel] = useState("");
+  const [pickError, setPickError] = useState<string | null>(null);
+
+  const [delta, setDelta] = useState(0);
+  const [time, setTime] = useState(0);
+  const [durations, setDurations] = useState({ left: 0, right: 0 });
+  const [playing, setPlaying] = useState(false);
+  const [rate, setRate] = useState(1);
+  const [layout, setLayout] = useState<Layout>('side');
+  const [blend, setBlend] = useState<Blend>('normal');
+  const [opacity, setOpacity] = useState(0.5);
+
+  const [diff, setDiff] = useState<ComparisonSummary | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [diffError, setDiffError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then((all) => setSessions(all.filter((s) => s.hasVideo && s.id !== excludeSessionId)))
+      .catch(() => setSessions([]));
+  }, [excludeSessionId]);
+
+  useEffect(() => () => {
+    if (rafRef.current) cancelAnimationFrame(rafRef.current);
+  }, []);
+
+  useEffect(() => {
+    [leftRef.current, rightRef.current].forEach((v) => { if (v) v.playbackRate = rate; });
+  }, [rate, refSrc]);
+
+  // Frees the reference clip when it is replaced, cleared or the player closes
+  useEffect(() => () => {
+    if (refSrc) URL.revokeObjectURL(refSrc);
+  }, [refSrc]);
+
+  const loadReference = (file: File, label: string) => {
+    setRefFile(file);
+    setRefSrc(URL.createObjectURL(file));
+    setRefLabel(label);
+    setDelta(0);
+    setDiff(null);
+    setPickError(null);
+  };
+
+  const pickSession = async (session: SavedSession) => {
+    const blob = await getSessionVideo(session.id).catch((err) => {
+      console.warn("Could not read saved video", err);
+      return undefined;
+    });
+    if (!blob) {
+      setPickError(`The video for "${session.title}" could not be loaded from history.`);
+      return;
+    }
+    loadReference(new File([blob], session.videoName || 'reference', { type: session.videoType || blob.type }), session.title);
+  };
+
+  // --- Transport ---
+
+  // Switching layouts remounts the <video> elements, so put each back where
+  // the shared clock says it should be.
+  const restoreVideo = (video: HTMLVideoElement, side: 'left' | 'right') => {
+    const duration = video.duration || 0;
+    setDurations((d) => ({ ...d, [side]: duration }));
+    video.playbackRate = rate;
+    video.currentTime = clamp(side === 'left' ? time : time + delta, duration);
+  };
+
+  const changeLayout = (next: Layout) => {
+    leftRef.current?.pause();
+    rightRef.current?.pause();
+    setPlaying(false);
+    setLayout(next);
+  };
+
+  const syncRight = (force = false) => {
+    const left = leftRef.current;
+    const right = rightRef.current;
+    if (!left || !right) return;
+    const target = left.currentTime + delta;
+    const inRange = target >= 0 && target <= durations.right;
+    if (force || Math.abs(right.currentTime - target) > DRIFT_TOLERANCE) right.currentTime = clamp(target, durations.right);
+    if (!left.paused && inRange && right.paused) right.play().catch(() => {});
+    if (!inRange && !right.paused) right.pause();
+  };
+
+  const tick = () => {
+    const left = leftRef.current;
+    if (!left) return;
+    syncRight();
+    setTime(left.currentTime);
+    if (left.paused || left.ended) {
+      rightRef.current?.pause();
+      setPlaying(false);
+      rafRef.current = null;
+      return;
+    }
+    rafRef.current = requestAnimationFrame(tick);
+  };
+
+  const togglePlay = async () => {
+    const left = leftRef.current;
+    const right = rightRef.current;
+    if (!left || !right) return;
+    if (playing) {
+      left.pause();
+      right.pause();
+      setPlaying(false);
+      return;
+    }
+    syncRight(true);
+    await Promise.all([left.play(), right.play()]).catch(() => {});
+    setPlaying(true);
+    rafRef.current = requestAnimationFrame(tick);
+  };
+
+  const scrub = (t: number) => {
+    const left = leftRef.current;
+    if (!left) return;
+    left.currentTime = clamp(t, durations.left);
+    setTime(left.currentTime);
+    syncRight(true);
+  };
+
+  // Moving one side alone changes the alignment between the two clips.
+  const nudge = (side: 'left' | 'right', amount: number) => {
+    const left = leftRef.current;
+    const right = rightRef.current;
+    if (!left || !right || playing) return;
+    if (side === 'left') {
+      left.currentTime = clamp(left.currentTime + amount, durations.left);
+      setTime(left.currentTime);
+      setDelta(right.currentTime - left.currentTime);
+    } else {
+      right.currentTime = clamp(right.currentTime + amount, durations.right);
+      setDelta(right.currentTime - left.currentTime);
+    }
+  };
+
+  const runDiff = async () => {
+    if (!refFile) return;
+    setDiffLoading(true);
+    setDiffError(null);
+    try {
+      const currentAt = leftRef.current?.currentTime || 0;
+      setDiff(await summarizeDifferences(currentFile, refFile, {
+        sport,
+        offsets: { current: currentAt, reference: currentAt + delta },
+      }));
+    } catch (err) {
+      console.error(err);
+      const { title, guidance } = classifyError(err);
+      setDiffError(`${title}. ${guidance}`);
+    } finally {
+      setDiffLoading(false);
+    }
+  };
+
+  const sideControls = (side: 'left' | 'right') => (
+    <div className="flex items-center justify-center gap-1 mt-2">
+      <button onClick={() => nudge(side, -0.1)} disabled={playing} className="px-2 py-1 rounded-md bg-slate-100 hover:bg-slate-200 text-[11px] font-semibold text-slate-600 disabled:opacity-40">-0.1s</button>
+      <button onClick={() => nudge(side, -FRAME_STEP)} disabled={playing} className="p-1 rounded-md bg-slate-100 hover:bg-slate-200 text-slate-600 disabled:opacity-40"><ChevronLeft className="w-3.5 h-3.5" /></button>
+      <button onClick={() => nudge(side, FRAME_STEP)} disabled={playing} className="p-1 rounded-md bg-slate-100 hover:bg-slate-200 text-slate-600 disabled:opacity-40"><ChevronRight className="w-3.5 h-3.5" /></button>
+      <button onClick={() => nudge(side, 0.1)} disabled={playing} className="px-2 py-1 rounded-md bg-slate-100 hover:bg-slate-200 text-[11px] font-semibold text-slate-600 disabled:opacity-40">+0.1s</button>
+    </div>
+  );
+
+  const leftVideo = (
+    <video
+      ref={leftRef}
+      src={currentSrc}
+      muted
+      playsInline
+      className="w-full h-full object-contain bg-black"
+      onLoadedMetadata={(e) => restoreVideo(e.currentTarget, 'left')}
+    />
+  );
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-bold text-slate-500 uppercase tracking-wider">Compare</h2>
+        <button onClick={onClose} className="p-1.5 rounded-full text-slate-500 hover:bg-slate-100"><X className="w-4 h-4" /></button>
+      </div>
+
+      {!refSrc ? (
+        <div className="space-y-3">
+          <p className="text-sm text-slate-600">Choose a clip to compare against:</p>
+          <label className="flex items-center gap-3 p-3 rounded-xl border border-dashed border-slate-300 cursor-pointer hover:bg-slate-50">
+            <Upload className="w-5 h-5 text-indigo-600" />
+            <span className="text-sm font-semibold text-slate-700">Upload a reference pro clip</span>
+            <input type="file" accept="video/*" className="hidden" onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadReference(file, file.name);
+            }} />
+          </label>
+          {sessions.map((s) => (
+            <button key={s.id} onClick={() => pickSession(s)} className="w-full flex items-center gap-3 p-2 rounded-xl border border-slate-200 hover:bg-slate-50 text-left">
+              {s.thumbnail ? <img src={s.thumbnail} alt="" className="w-16 h-10 object-cover rounded-md" /> : <div className="w-16 h-10 bg-slate-100 rounded-md" />}
+              <span className="text-sm font-semibold text-slate-700 truncate">{s.title}</span>
+            </button>
+          ))}
+          {pickError && (
+            <p className="text-sm text-red-600 flex items-center gap-2"><AlertCircle className="w-4 h-4" /> {pickError}</p>
+          )}
+        </div>
+      ) : (
+        <>
+          {layout === 'side' ? (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <div className="aspect-video rounded-xl overflow-hidden">{leftVideo}</div>
+                <p className="text-[11px] text-center text-slate-500 mt-1 truncate">Current</p>
+                {sideControls('left')}
+              </div>
+              <div>
+                <div className="aspect-video rounded-xl overflow-hidden">
+                  <video
+                    ref={rightRef}
+                    src={refSrc}
+                    muted
+                    playsInline
+                    className="w-full h-full object-contain bg-black"
+                    onLoadedMetadata={(e) => restoreVideo(e.currentTarget, 'right')}
+                  />
+                </div>
+                <p className="text-[11px] text-center text-slate-500 mt-1 truncate">{refLabel}</p>
+                {sideControls('right')}
+              </div>
+            </div>
+          ) : (
+            <div>
+              <div className="relative aspect-video rounded-xl overflow-hidden bg-black">
+                {leftVideo}
+                <video
+                  ref={rightRef}
+                  src={refSrc}
+                  muted
+                  playsInline
+                  className="absolute inset-0 w-full h-full object-contain"
+                  style={{ opacity, mixBlendMode: blend }}
+                  onLoadedMetadata={(e) => restoreVideo(e.currentTarget, 'right')}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {sideControls('left')}
+                {sideControls('right')}
+              </div>
+              <div className="flex items-center gap-3 mt-3">
+                <span className="text-xs text-slate-500">Onion skin</span>
+                <input type="range" min={0} max={1} step={0.05} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} className="flex-1 accent-indigo-600" />
+                <select value={blend} onChange={(e) => setBlend(e.target.value as Blend)} className="text-xs font-semibold bg-slate-100 rounded-lg px-2 py-1 text-slate-700">
+                  <option value="normal">Blend</option>
+                  <option value="difference">Difference</option>
+                </select>
+              </div>
+            </div>
+          )}
+
+          {/* Shared Transport */}
+          <div className="flex items-center gap-3">
+            <button onClick={togglePlay} className="w-9 h-9 rounded-full bg-indigo-600 text-white flex items-center justify-center shrink-0">
+              {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 ml-0.5" />}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={durations.left || 0}
+              step={0.01}
+              value={time}
+              onChange={(e) => scrub(Number(e.target.value))}
+              className="flex-1 accent-indigo-600"
+            />
+            <span className="text-[11px] font-mono text-slate-500 w-9">{formatTimestamp(time)}</span>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex bg-slate-200 rounded-lg p-1 gap-1">
+              {RATES.map((r) => (
+                <button key={r} onClick={() => setRate(r)} className={`px-2 py-1 rounded-md text-xs font-semibold transition-all ${rate === r ? 'bg-white shadow text-indigo-600' : 'text-slate-500'}`}>
+                  {r}x
+                </button>
+              ))}
+            </div>
+            <div className="flex bg-slate-200 rounded-lg p-1 gap-1">
+              <button onClick={() => changeLayout('side')} className={`p-1 rounded-md transition-all ${layout === 'side' ? 'bg-white shadow text-indigo-600' : 'text-slate-500'}`}><Columns2 className="w-4 h-4" /></button>
+              <button onClick={() => changeLayout('overlay')} className={`p-1 rounded-md transition-all ${layout === 'overlay' ? 'bg-white shadow text-indigo-600' : 'text-slate-500'}`}><Layers className="w-4 h-4" /></button>
+            </div>
+            <span className="text-xs text-slate-500 flex items-center gap-1">
+              <Link2 className="w-3.5 h-3.5" /> Offset {delta >= 0 ? '+' : ''}{delta.toFixed(2)}s
+            </span>
+            <button onClick={() => { setRefSrc(null); setRefFile(null); setDiff(null); }} className="ml-auto text-xs font-semibold text-slate-500 hover:text-slate-700">Change clip</button>
+          </div>
+
+          {/* AI Differences */}
+          <div className="pt-3 border-t border-slate-100">
+            {!diff && (
+              <button onClick={runDiff} disabled={diffLoading} className="w-full py-2.5 bg-slate-900 hover:bg-slate-800 disabled:opacity-50 text-white text-sm font-semibold rounded-xl flex items-center justify-center gap-2">
+                {diffLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                {diffLoading ? "Comparing..." : "Summarize Differences"}
+              </button>
+            )}
+            {diffError && (
+              <p className="mt-2 text-sm text-red-600 flex items-center gap-2"><AlertCircle className="w-4 h-4" /> {diffError}</p>
+            )}
+            {diff && (
+              <div className="space-y-3">
+                <p className="text-sm text-slate-700 leading-relaxed">{diff.summary}</p>
+                {diff.differences.map((d, i) => (
+                  <div key={i} className="p-3 rounded-xl bg-slate-50 border border-slate-200 text-sm">
+                    <p className="font-semibold text-slate-900 mb-1">{d.aspect}</p>
+                    <p className="text-slate-600"><span className="font-semibold text-slate-500">You:</span> {d.current}</p>
+                    <p className="text-slate-600"><span className="font-semibold text-slate-500">Reference:</span> {d.reference}</p>
+                    {d.suggestion && <p className="text-indigo-700 mt-1">{d.suggestion}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
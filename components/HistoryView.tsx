@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { History, Trash2, Pencil, Download, Upload, Check, X, Video, ChevronRight, Loader2 } from 'lucide-react';
+import { deleteSessions, exportArchive, importArchive, listSessions, updateSession } from '../services/sessionStore';
+import { downloadBlob } from '../utils/download';
+import type { SavedSession } from '../types';
+
+interface HistoryViewProps {
+  onOpen: (session: SavedSession) => void;
+  saveVideos: boolean;
+  onSaveVideosChange: (save: boolean) => void;
+}
+
+const formatDate = (ts: number) =>
+  new Date(ts).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ onOpen, saveVideos, onSaveVideosChange }) => {
+  const [sessions, setSessions] = useState<SavedSession[] | null>(null);
+  const [sportFilter, setSportFilter] = useState<string>('All');
+  const [selected, setSelected] = useState<Set<string>>(new Set<string>());
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const refresh = () => listSessions().then(setSessions).catch((err) => {
+    console.error(err);
+    setSessions([]);
+    setNotice("Session history is unavailable in this browser.");
+  });
+
+  useEffect(() => { refresh(); }, []);
+
+  const sports = ['All', ...Array.from(new Set((sessions || []).map((s) => s.sport)))];
+  const visible = (sessions || []).filter((s) => sportFilter === 'All' || s.sport === sportFilter);
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    next.has(id) ? next.delete(id) : next.add(id);
+    setSelected(next);
+  };
+
+  const commitRename = async () => {
+    if (renamingId && renameValue.trim()) {
+      try {
+        await updateSession(renamingId, { title: renameValue.trim() });
+        await refresh();
+      } catch (err: any) {
+        setNotice(`Could not rename the session: ${err.message}`);
+      }
+    }
+    setRenamingId(null);
+  };
+
+  const remove = async (ids: string[]) => {
+    if (!ids.length || !confirm(`Delete ${ids.length === 1 ? 'this session' : `${ids.length} sessions`}? This cannot be undone.`)) return;
+    try {
+      await deleteSessions(ids);
+      setSelected(new Set<string>());
+      await refresh();
+    } catch (err: any) {
+      setNotice(`Could not delete: ${err.message}`);
+    }
+  };
+
+  const handleExport = async () => {
+    const ids = selected.size ? [...selected] : undefined;
+    downloadBlob(await exportArchive(ids), `proform-sessions-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { sessions: imported, skipped } = await importArchive(file);
+      // A shared report is a one-session archive: open it straight away
+      if (imported.length === 1 && !skipped) {
+        onOpen(imported[0]);
+        return;
+      }
+      const skippedNote = skipped ? ` Skipped ${skipped} that could not be read.` : '';
+      setNotice(`Imported ${imported.length} session${imported.length === 1 ? '' : 's'}.${skippedNote}`);
+      await refresh();
+    } catch (err: any) {
+      setNotice(err.message);
+    }
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center justify-between px-1">
+        <h2 className="text-sm font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+          <History className="w-4 h-4" /> Session History
+        </h2>
+        <div className="flex gap-2">
+          <label className="p-2 rounded-lg bg-white border border-slate-200 text-slate-600 hover:bg-slate-100 cursor-pointer" title="Import archive">
+            <Upload className="w-4 h-4" />
+            <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </label>
+          <button onClick={handleExport} disabled={!sessions?.length} className="p-2 rounded-lg bg-white border border-slate-200 text-slate-600 hover:bg-slate-100 disabled:opacity-40" title={selected.size ? 'Export selected' : 'Export all'}>
+            <Download className="w-4 h-4" />
+          </button>
+          {selected.size > 0 && (
+            <button onClick={() => remove([...selected])} className="p-2 rounded-lg bg-red-50 border border-red-100 text-red-600 hover:bg-red-100" title="Delete selected">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 px-1">
+        {sports.map((sport) => (
+          <button
+            key={sport}
+            onClick={() => setSportFilter(sport)}
+            className={`text-xs font-semibold px-3 py-1.5 rounded-full transition-colors ${sportFilter === sport ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+          >
+            {sport}
+          </button>
+        ))}
+        <label className="ml-auto flex items-center gap-2 text-xs text-slate-500">
+          <input type="checkbox" checked={saveVideos} onChange={(e) => onSaveVideosChange(e.target.checked)} className="accent-indigo-600" />
+          Keep videos with sessions
+        </label>
+      </div>
+
+      {notice && (
+        <div className="p-3 bg-indigo-50 border border-indigo-100 text-indigo-700 rounded-xl text-sm flex items-center justify-between">
+          {notice}
+          <button onClick={() => setNotice(null)}><X className="w-4 h-4" /></button>
+        </div>
+      )}
+
+      {sessions === null ? (
+        <div className="flex justify-center p-12"><Loader2 className="w-6 h-6 text-slate-400 animate-spin" /></div>
+      ) : visible.length === 0 ? (
+        <div className="text-center p-12 bg-white rounded-2xl border border-dashed border-slate-300">
+          <History className="w-10 h-10 mx-auto mb-3 text-slate-300" />
+          <p className="text-slate-500">No saved sessions yet.</p>
+        </div>
+      ) : (
+        visible.map((session) => (
+          <div key={session.id} className="flex items-center gap-3 p-3 bg-white rounded-xl border border-slate-200 shadow-sm">
+            <input
+              type="checkbox"
+              checked={selected.has(session.id)}
+              onChange={() => toggle(session.id)}
+              className="accent-indigo-600 shrink-0"
+            />
+            <button onClick={() => onOpen(session)} className="w-24 h-16 bg-slate-100 rounded-lg shrink-0 overflow-hidden flex items-center justify-center">
+              {session.thumbnail ? (
+                <img src={session.thumbnail} alt="" className="w-full h-full object-cover" />
+              ) : (
+                <Video className="w-6 h-6 text-slate-300" />
+              )}
+            </button>
+            <div className="flex-1 min-w-0">
+              {renamingId === session.id ? (
+                <div className="flex items-center gap-1">
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="flex-1 min-w-0 text-sm font-semibold border border-slate-300 rounded-md px-2 py-1"
+                  />
+                  <button onClick={commitRename} className="p-1 text-emerald-600"><Check className="w-4 h-4" /></button>
+                </div>
+              ) : (
+                <h4 className="font-semibold text-sm text-slate-900 truncate">{session.title}</h4>
+              )}
+              <div className="flex flex-wrap items-center gap-x-2 text-xs text-slate-500 mt-0.5">
+                <span className="font-semibold text-indigo-600">{session.sport}</span>
+                {session.stroke && <span>&middot; {session.stroke}</span>}
+                <span>&middot; {formatDate(session.createdAt)}</span>
+                {!session.hasVideo && <span className="text-slate-400">&middot; no video</span>}
+              </div>
+            </div>
+            <button
+              onClick={() => { setRenamingId(session.id); setRenameValue(session.title); }}
+              className="p-2 text-slate-400 hover:text-slate-700"
+              title="Rename"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button onClick={() => remove([session.id])} className="p-2 text-slate-400 hover:text-red-600" title="Delete">
+              <Trash2 className="w-4 h-4" />
+            </button>
+            <button onClick={() => onOpen(session)} className="p-1 text-slate-300 hover:text-indigo-600" title="Open">
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Bookmark, Dumbbell, PenLine, Search, Trash2, Youtube } from 'lucide-react';
+import { Card } from './ui';
+import { DrillItem } from './AnalysisReport';
+import { VideoCard } from './VideoCard';
+import { LibraryFilter, SKILL_TAGS, searchLibrary } from '../services/drillLibrary';
+import { SPORTS, getSport } from '../services/sports';
+import type { LibraryItem } from '../types';
+
+const chip = (active: boolean) =>
+  `text-xs font-semibold px-2.5 py-1 rounded-full transition-colors ${active ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`;
+
+const toggle = (list: string[], value: string) => (list.includes(value) ? list.filter((v) => v !== value) : [...list, value]);
+
+// --- Item Editor ---
+
+const ItemTags: React.FC<{ item: LibraryItem, onChange: (patch: Partial<LibraryItem>) => void }> = ({ item, onChange }) => {
+  const [newSkill, setNewSkill] = useState('');
+  const skills = Array.from(new Set([...SKILL_TAGS, ...item.skills]));
+  const addSkill = () => {
+    const skill = newSkill.trim();
+    if (skill && !item.skills.includes(skill)) onChange({ skills: [...item.skills, skill] });
+    setNewSkill('');
+  };
+
+  return (
+    <div className="space-y-3 pt-3 border-t border-slate-100">
+      <div className="space-y-1">
+        <span className="text-[11px] font-semibold text-slate-500">Strokes</span>
+        <div className="flex flex-wrap gap-1.5">
+          {getSport(item.sport).strokes.map((s) => (
+            <button key={s} onClick={() => onChange({ strokes: toggle(item.strokes, s) })} className={chip(item.strokes.includes(s))}>{s}</button>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-1">
+        <span className="text-[11px] font-semibold text-slate-500">Skills</span>
+        <div className="flex flex-wrap gap-1.5">
+          {skills.map((s) => (
+            <button key={s} onClick={() => onChange({ skills: toggle(item.skills, s) })} className={chip(item.skills.includes(s))}>{s}</button>
+          ))}
+          <input
+            value={newSkill}
+            onChange={(e) => setNewSkill(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addSkill()}
+            onBlur={addSkill}
+            placeholder="+ Add"
+            className="text-xs px-2.5 py-1 rounded-full border border-dashed border-slate-300 w-20 focus:outline-none focus:border-indigo-400"
+          />
+        </div>
+      </div>
+      <textarea
+        defaultValue={item.notes}
+        onBlur={(e) => e.target.value !== item.notes && onChange({ notes: e.target.value })}
+        rows={2}
+        placeholder="Notes, e.g. do this before every match"
+        className="w-full text-sm px-3 py-2 rounded-lg border border-slate-200 focus:outline-none focus:border-indigo-400"
+      />
+    </div>
+  );
+};
+
+const LibraryCard: React.FC<{ item: LibraryItem, onChange: (patch: Partial<LibraryItem>) => void, onRemove: () => void }> = ({ item, onChange, onRemove }) => {
+  const [editing, setEditing] = useState(false);
+  const tags = [...item.strokes, ...item.skills];
+
+  return (
+    <Card className="p-4 space-y-3">
+      {item.kind === 'video' ? (
+        <VideoCard uri={item.uri!} title={item.title} saved onToggleSave={onRemove} />
+      ) : (
+        <DrillItem drill={item.drill!} />
+      )}
+      {!editing && (tags.length > 0 || item.notes) && (
+        <div className="space-y-1.5">
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {tags.map((t) => <span key={t} className="text-[10px] font-semibold bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded">{t}</span>)}
+            </div>
+          )}
+          {item.notes && <p className="text-xs text-slate-600 whitespace-pre-wrap">{item.notes}</p>}
+        </div>
+      )}
+      {editing && <ItemTags item={item} onChange={onChange} />}
+      <div className="flex items-center gap-2 text-[11px] text-slate-400">
+        <span>{getSport(item.sport).name} · saved {new Date(item.savedAt).toLocaleDateString()}</span>
+        <button onClick={() => setEditing(!editing)} className="ml-auto flex items-center gap-1 font-semibold text-slate-500 hover:text-indigo-600">
+          <PenLine className="w-3.5 h-3.5" /> {editing ? 'Done' : 'Tags & notes'}
+        </button>
+        <button onClick={onRemove} title="Remove from library" className="p-1 rounded-full text-slate-400 hover:text-red-600 hover:bg-red-50">
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    </Card>
+  );
+};
+
+// --- Library View ---
+
+interface LibraryViewProps {
+  items: LibraryItem[];
+  initialSport?: string | null;
+  onChange: (items: LibraryItem[]) => void;
+}
+
+export const LibraryView: React.FC<LibraryViewProps> = ({ items, initialSport, onChange }) => {
+  const sports = SPORTS.filter((s) => items.some((i) => i.sport === s.id));
+  const [filter, setFilter] = useState<LibraryFilter>(() => ({
+    query: '',
+    sport: sports.some((s) => s.id === initialSport) ? initialSport! : undefined,
+  }));
+  const set = (patch: Partial<LibraryFilter>) => setFilter((prev) => ({ ...prev, ...patch }));
+  const shown = searchLibrary(items, filter);
+  const strokes = Array.from(new Set<string>(items.filter((i) => !filter.sport || i.sport === filter.sport).flatMap((i) => i.strokes)));
+  const skills = Array.from(new Set<string>(items.flatMap((i) => i.skills)));
+
+  const update = (id: string, patch: Partial<LibraryItem>) => onChange(items.map((i) => (i.id === id ? { ...i, ...patch } : i)));
+  const remove = (id: string) => onChange(items.filter((i) => i.id !== id));
+
+  if (!items.length) {
+    return (
+      <div className="p-4">
+        <div className="text-center p-12 bg-white rounded-2xl border border-dashed border-slate-300">
+          <Bookmark className="w-10 h-10 mx-auto mb-3 text-slate-300" />
+          <p className="text-slate-500 text-sm">Save videos and drills from any analysis with the bookmark button, and they collect here.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="space-y-2">
+        <label className="relative block">
+          <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={filter.query}
+            onChange={(e) => set({ query: e.target.value })}
+            placeholder="Search titles, notes and tags"
+            className="w-full text-sm pl-9 pr-3 py-2 rounded-lg border border-slate-200 bg-white focus:outline-none focus:border-indigo-400"
+          />
+        </label>
+        <div className="flex flex-wrap items-center gap-1.5">
+          <button onClick={() => set({ kind: undefined })} className={chip(!filter.kind)}>All</button>
+          <button onClick={() => set({ kind: 'video' })} className={chip(filter.kind === 'video')}><Youtube className="w-3 h-3 inline -mt-px" /> Videos</button>
+          <button onClick={() => set({ kind: 'drill' })} className={chip(filter.kind === 'drill')}><Dumbbell className="w-3 h-3 inline -mt-px" /> Drills</button>
+          {sports.length > 1 && (
+            <select
+              value={filter.sport || ''}
+              onChange={(e) => set({ sport: e.target.value || undefined, stroke: undefined })}
+              className="text-xs px-2 py-1 rounded-md border border-slate-200 bg-white ml-auto"
+            >
+              <option value="">All sports</option>
+              {sports.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          )}
+        </div>
+        {(strokes.length > 0 || skills.length > 0) && (
+          <div className="flex flex-wrap gap-1.5">
+            {strokes.map((s) => (
+              <button key={`stroke-${s}`} onClick={() => set({ stroke: filter.stroke === s ? undefined : s })} className={chip(filter.stroke === s)}>{s}</button>
+            ))}
+            {skills.map((s) => (
+              <button key={`skill-${s}`} onClick={() => set({ skill: filter.skill === s ? undefined : s })} className={chip(filter.skill === s)}>#{s}</button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {shown.length ? (
+        shown.map((item) => <LibraryCard key={item.id} item={item} onChange={(patch) => update(item.id, patch)} onRemove={() => remove(item.id)} />)
+      ) : (
+        <p className="text-sm text-slate-500 px-1">Nothing in your library matches.</p>
+      )}
+    </div>
+  );
+};
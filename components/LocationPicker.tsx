@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { AlertCircle, Crosshair, Loader2, MapPin, Search, ZoomOut } from 'lucide-react';
+import { TileMap } from './TileMap';
+import { UserLocation, geocode, locateDevice } from '../services/location';
+import type { LatLng } from '../types';
+
+interface LocationPickerProps {
+  location: UserLocation | null;
+  notice: string | null; // why the device location is unavailable
+  onChange: (location: UserLocation) => void;
+}
+
+const WORLD_VIEW = { center: { lat: 20, lng: 0 }, zoom: 2 };
+
+export const LocationPicker: React.FC<LocationPickerProps> = ({ location, notice, onChange }) => {
+  const [open, setOpen] = useState(!location);
+  const [query, setQuery] = useState('');
+  const [busy, setBusy] = useState<'search' | 'device' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [picking, setPicking] = useState(false);
+  const [candidate, setCandidate] = useState<LatLng | null>(null);
+  const [pickView, setPickView] = useState(location ? { center: location, zoom: 12 } : WORLD_VIEW);
+
+  const choose = (next: UserLocation) => {
+    onChange(next);
+    setOpen(false);
+    setPicking(false);
+    setCandidate(null);
+    setError(null);
+  };
+
+  const run = async (kind: 'search' | 'device', task: () => Promise<UserLocation>) => {
+    setBusy(kind);
+    setError(null);
+    try {
+      choose(await task());
+    } catch (err: any) {
+      setError(err?.name === 'LocationError' ? err.message : 'Location search is unavailable right now.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const search = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (query.trim()) run('search', () => geocode(query.trim()));
+  };
+
+  // Each click drops the pin and zooms in on it, so a point can be found
+  // from the world view in a few clicks.
+  const pick = (point: LatLng) => {
+    setCandidate(point);
+    setPickView((prev) => ({ center: point, zoom: Math.min(15, prev.zoom + 3) }));
+  };
+
+  if (!open) {
+    return (
+      <div className="flex items-center justify-between gap-2 px-1 text-xs">
+        <span className="flex items-center gap-1 text-slate-500 min-w-0">
+          <MapPin className="w-3.5 h-3.5 shrink-0" />
+          <span className="truncate">Near {location?.label}</span>
+        </span>
+        <button onClick={() => setOpen(true)} className="font-semibold text-indigo-600 hover:text-indigo-700 shrink-0">Change</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 bg-white rounded-xl border border-slate-200 shadow-sm space-y-3">
+      {notice && !location && (
+        <p className="flex items-start gap-2 text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg p-2.5">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          {notice} Enter a city or ZIP code, or pick a point on the map, to search nearby.
+        </p>
+      )}
+
+      <form onSubmit={search} className="flex gap-2">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="City or ZIP code"
+          className="flex-1 min-w-0 text-sm px-3 py-2 rounded-lg border border-slate-200 focus:outline-none focus:border-indigo-400"
+        />
+        <button type="submit" disabled={busy !== null || !query.trim()} className="px-3 py-2 bg-slate-900 hover:bg-slate-800 disabled:opacity-50 text-white rounded-lg">
+          {busy === 'search' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+        </button>
+      </form>
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => run('device', locateDevice)}
+          disabled={busy !== null}
+          className="flex-1 py-2 text-xs font-semibold text-slate-700 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 rounded-lg flex items-center justify-center gap-1.5"
+        >
+          {busy === 'device' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Crosshair className="w-3.5 h-3.5" />} Use my location
+        </button>
+        <button
+          onClick={() => setPicking(!picking)}
+          className={`flex-1 py-2 text-xs font-semibold rounded-lg flex items-center justify-center gap-1.5 ${picking ? 'bg-indigo-600 text-white' : 'text-slate-700 bg-slate-100 hover:bg-slate-200'}`}
+        >
+          <MapPin className="w-3.5 h-3.5" /> Pick on map
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {picking && (
+        <div className="space-y-2">
+          <div className="relative">
+            <TileMap pins={[]} home={candidate} view={pickView} onMapClick={pick} className="h-56" />
+            <button
+              onClick={() => setPickView((prev) => ({ ...prev, zoom: Math.max(WORLD_VIEW.zoom, prev.zoom - 3) }))}
+              title="Zoom out"
+              className="absolute top-2 right-2 p-1.5 bg-white rounded-lg shadow text-slate-600 hover:text-slate-900"
+            >
+              <ZoomOut className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-[11px] text-slate-400">Click the map to zoom in and drop a pin.</p>
+          <button
+            onClick={() => candidate && choose({ ...candidate, label: 'Dropped pin', source: 'map' })}
+            disabled={!candidate}
+            className="w-full py-2 text-xs font-semibold text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 rounded-lg"
+          >
+            Search around this point
+          </button>
+        </div>
+      )}
+
+      {location && (
+        <button onClick={() => setOpen(false)} className="w-full text-xs font-semibold text-slate-500 hover:text-slate-700">
+          Keep {location.label}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { ArrowUpRight, ChartColumn, ListOrdered, Trophy } from 'lucide-react';
+import { Card } from './ui';
+import { SectionHeader, TimestampChip } from './AnalysisReport';
+import { computeMatchStats, percent, pointWinner } from '../services/matchStats';
+import type { SportDefinition } from '../services/sports';
+import { formatTimestamp } from '../utils/time';
+import type { MatchAnalysis, MatchPoint } from '../types';
+
+const StatTile: React.FC<{ label: string, value: string, detail?: string }> = ({ label, value, detail }) => (
+  <div className="p-3 rounded-xl bg-slate-50 border border-slate-100">
+    <div className="text-[11px] font-semibold text-slate-500">{label}</div>
+    <div className="text-xl font-bold text-slate-900">{value}</div>
+    {detail && <div className="text-[11px] text-slate-400">{detail}</div>}
+  </div>
+);
+
+const Bars: React.FC<{ rows: { label: string, count: number }[], color: string }> = ({ rows, color }) => {
+  const max = Math.max(1, ...rows.map((r) => r.count));
+  return (
+    <div className="space-y-1.5">
+      {rows.map((r) => (
+        <div key={r.label} className="flex items-center gap-2 text-xs">
+          <span className="w-28 shrink-0 truncate text-slate-600">{r.label}</span>
+          <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className={`h-full rounded-full ${color}`} style={{ width: `${(r.count / max) * 100}%` }} />
+          </div>
+          <span className="w-6 text-right font-semibold text-slate-700">{r.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// --- Point Timeline ---
+
+const ENDING_LABELS: Record<MatchPoint['ending'], string> = {
+  winner: 'Winner',
+  'unforced error': 'Unforced error',
+  'forced error': 'Forced error',
+  ace: 'Ace',
+  'double fault': 'Double fault',
+};
+
+const PointRow: React.FC<{ point: MatchPoint, index: number, onSeek?: (time: number) => void }> = ({ point, index, onSeek }) => {
+  const [open, setOpen] = useState(false);
+  const won = pointWinner(point) === 'player';
+
+  return (
+    <div className="py-2.5 border-b border-slate-100 last:border-0">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-6 text-xs font-bold text-slate-400">{index + 1}</span>
+        <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${won ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>{won ? 'Won' : 'Lost'}</span>
+        <span className="text-xs text-slate-600">
+          {ENDING_LABELS[point.ending]} by {point.endedBy === 'player' ? 'you' : 'opponent'} · {point.shots.length} shots
+          {point.netApproach && ' · net'}
+        </span>
+        <span className="ml-auto"><TimestampChip start={point.startTime} end={point.endTime} onSeek={onSeek} /></span>
+      </div>
+      {point.shots.length > 0 && (
+        <button onClick={() => setOpen(!open)} className="ml-8 mt-1 text-[11px] font-semibold text-slate-400 hover:text-indigo-600">
+          {open ? 'Hide shots' : `${point.server === 'player' ? 'You' : 'Opponent'} served${point.firstServeIn ? '' : ' (second serve)'} · show shots`}
+        </button>
+      )}
+      {open && (
+        <div className="ml-8 mt-1.5 flex flex-wrap gap-1">
+          {point.shots.map((s, i) => (
+            <button
+              key={i}
+              onClick={() => onSeek?.(s.time)}
+              disabled={!onSeek}
+              title={formatTimestamp(s.time)}
+              className={`text-[11px] px-2 py-0.5 rounded-full ${s.by === 'player' ? 'bg-indigo-50 text-indigo-700 hover:bg-indigo-100' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+            >
+              {s.stroke}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- Match Dashboard ---
+
+export const MatchDashboard: React.FC<{ match: MatchAnalysis, sport: SportDefinition, onSeek?: (time: number) => void }> = ({ match, sport, onSeek }) => {
+  const stats = computeMatchStats(match.points, sport);
+  const mine = stats.endings.player;
+  const { thirdShot } = stats;
+  const thirdShotTotal = thirdShot ? thirdShot.drops + thirdShot.drives + thirdShot.other : 0;
+
+  if (!match.points.length) {
+    return (
+      <Card className="p-5 text-sm text-slate-500">
+        No complete points were found in this video. Match mode needs the whole court in view from serve to the end of each rally.
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-5 border-l-4 border-l-indigo-500">
+        <SectionHeader icon={Trophy} title="Match Statistics" tint="indigo" />
+        {match.summary && <p className="text-slate-600 leading-relaxed text-sm md:text-base mb-5">{match.summary}</p>}
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          <StatTile label="Points won" value={`${stats.pointsWon}/${stats.points}`} detail={`${percent(stats.pointsWon, stats.points)}%`} />
+          <StatTile label="Winners" value={String(mine.winner + mine.ace)} detail={mine.ace ? `incl. ${mine.ace} aces` : undefined} />
+          <StatTile label="Unforced errors" value={String(mine['unforced error'] + mine['double fault'])} detail={mine['double fault'] ? `incl. ${mine['double fault']} double faults` : undefined} />
+          {stats.firstServe && (
+            <StatTile
+              label="First serve in"
+              value={stats.firstServe.total ? `${percent(stats.firstServe.in, stats.firstServe.total)}%` : '–'}
+              detail={`${stats.firstServe.in} of ${stats.firstServe.total}`}
+            />
+          )}
+          <StatTile
+            label="Net approaches"
+            value={String(stats.netApproaches.total)}
+            detail={stats.netApproaches.total ? `${stats.netApproaches.won} won (${percent(stats.netApproaches.won, stats.netApproaches.total)}%)` : undefined}
+          />
+          <StatTile label="Average rally" value={stats.averageRally.toFixed(1)} detail="shots per point" />
+        </div>
+      </Card>
+
+      <Card className="p-5 border-l-4 border-l-emerald-500">
+        <SectionHeader icon={ChartColumn} title="Shots & Rallies" tint="emerald" />
+        <div className="grid sm:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Your shots by stroke</h3>
+            {stats.shotsByStroke.length ? (
+              <Bars rows={stats.shotsByStroke.map((s) => ({ label: s.stroke, count: s.count }))} color="bg-indigo-500" />
+            ) : (
+              <p className="text-xs text-slate-500">No shots charted.</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Rally length</h3>
+            <Bars rows={stats.rallyLengths.map((b) => ({ label: `${b.label} shots`, count: b.count }))} color="bg-emerald-500" />
+          </div>
+        </div>
+        {thirdShot && sport.match.thirdShot && (
+          <div className="mt-6 space-y-2">
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-1"><ArrowUpRight className="w-3.5 h-3.5" /> Third shot</h3>
+            {thirdShotTotal ? (
+              <>
+                <div className="flex h-3 rounded-full overflow-hidden bg-slate-100">
+                  <div className="bg-indigo-500" style={{ width: `${percent(thirdShot.drops, thirdShotTotal)}%` }} />
+                  <div className="bg-amber-400" style={{ width: `${percent(thirdShot.drives, thirdShotTotal)}%` }} />
+                </div>
+                <p className="text-xs text-slate-600">
+                  {thirdShot.drops} {sport.match.thirdShot.drop.toLowerCase()}s vs {thirdShot.drives} {sport.match.thirdShot.drive.toLowerCase()}s
+                  {thirdShot.other > 0 && `, ${thirdShot.other} other`}
+                </p>
+              </>
+            ) : (
+              <p className="text-xs text-slate-500">None of your serving points reached a third shot.</p>
+            )}
+          </div>
+        )}
+      </Card>
+
+      <Card className="p-5">
+        <SectionHeader icon={ListOrdered} title="Point by Point" tint="indigo" />
+        {match.points.map((p, i) => <PointRow key={i} point={p} index={i} onSeek={onSeek} />)}
+      </Card>
+
+      <div className="text-center">
+        <p className="text-xs text-slate-400">Points are charted by AI from the video and may miss or misread shots.</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useMemo, useState } from 'react';
+import { Lightbulb, MapPin } from 'lucide-react';
+import { TileMap } from './TileMap';
+import { PlaceFilters, PlaceSort, applyPlaceFilters, placeDistance, sortPlaces } from '../services/places';
+import { formatDistance } from '../utils/geo';
+import type { LatLng, Place } from '../types';
+
+const SETTING_LABELS = { indoor: 'Indoor', outdoor: 'Outdoor', mixed: 'Indoor & outdoor' };
+const SORT_LABELS: Record<PlaceSort, string> = { distance: 'Nearest', name: 'Name', courts: 'Most courts' };
+
+type FilterChip = { id: string, label: string, filters: PlaceFilters };
+
+// Chips in the same group replace each other. A chip only shows when at
+// least one place has its attribute, since unknown values never pass.
+const FILTER_CHIPS: FilterChip[] = [
+  { id: 'indoor', label: 'Indoor', filters: { setting: 'indoor' } },
+  { id: 'outdoor', label: 'Outdoor', filters: { setting: 'outdoor' } },
+  { id: 'lights', label: 'Lights', filters: { lights: true } },
+  { id: 'public', label: 'Public', filters: { access: 'public' } },
+  { id: 'club', label: 'Club', filters: { access: 'club' } },
+];
+
+const groupOf = (chip: FilterChip) => Object.keys(chip.filters)[0] as keyof PlaceFilters;
+
+const hasAttribute = (place: Place, chip: FilterChip) => {
+  const key = groupOf(chip);
+  return key === 'lights' ? place.lights === true : place[key] !== undefined;
+};
+
+// --- Place Card ---
+
+const PlaceCard: React.FC<{ place: Place, distance?: number, selected: boolean }> = ({ place, distance, selected }) => {
+  const badges = [
+    place.setting && SETTING_LABELS[place.setting],
+    place.access && (place.access === 'public' ? 'Public' : 'Club'),
+    place.courts && `${place.courts} court${place.courts === 1 ? '' : 's'}`,
+  ].filter(Boolean) as string[];
+
+  return (
+    <a
+      href={place.uri}
+      target="_blank"
+      rel="noreferrer"
+      className={`block p-4 bg-white rounded-xl border shadow-sm active:bg-slate-50 transition-colors ${selected ? 'border-indigo-400 ring-2 ring-indigo-100' : 'border-slate-200'}`}
+    >
+      <div className="flex justify-between items-start mb-1">
+        <h4 className="font-bold text-slate-900 pr-4">{place.name}</h4>
+        {distance !== undefined ? (
+          <span className="text-xs font-semibold text-slate-500 shrink-0">{formatDistance(distance)}</span>
+        ) : (
+          <div className="w-8 h-8 rounded-full bg-blue-50 flex items-center justify-center shrink-0">
+            <MapPin className="w-4 h-4 text-blue-500" />
+          </div>
+        )}
+      </div>
+      {place.address && <p className="text-xs text-slate-500 mb-2">{place.address}</p>}
+      {(badges.length > 0 || place.lights) && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {badges.map((b) => <span key={b} className="text-[10px] font-semibold bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded">{b}</span>)}
+          {place.lights && (
+            <span className="text-[10px] font-semibold bg-amber-50 text-amber-700 px-1.5 py-0.5 rounded flex items-center gap-0.5">
+              <Lightbulb className="w-3 h-3" /> Lights
+            </span>
+          )}
+        </div>
+      )}
+      <p className="text-xs text-slate-500 font-medium">Open in Google Maps &rarr;</p>
+    </a>
+  );
+};
+
+// --- Place List ---
+
+interface PlaceListProps {
+  places: Place[];
+  location: LatLng | null;
+  viewMode: 'list' | 'map';
+}
+
+export const PlaceList: React.FC<PlaceListProps> = ({ places, location, viewMode }) => {
+  const [activeChips, setActiveChips] = useState<string[]>([]);
+  const [sort, setSort] = useState<PlaceSort>(location ? 'distance' : 'name');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const chips = FILTER_CHIPS.filter((c) => places.some((p) => hasAttribute(p, c)));
+  const toggleChip = (chip: FilterChip) =>
+    setActiveChips((prev) => {
+      const others = prev.filter((id) => groupOf(FILTER_CHIPS.find((c) => c.id === id)!) !== groupOf(chip));
+      return prev.includes(chip.id) ? others : [...others, chip.id];
+    });
+
+  const visible = useMemo(() => {
+    const filtered = FILTER_CHIPS
+      .filter((c) => activeChips.includes(c.id))
+      .reduce((list, chip) => applyPlaceFilters(list, chip.filters), places);
+    return sortPlaces(filtered, sort, location);
+  }, [places, activeChips, sort, location]);
+
+  const pins = visible.filter((p) => p.location).map((p) => ({ id: p.id, position: p.location!, label: p.name }));
+  const unplotted = visible.length - pins.length;
+
+  if (places.length === 0) {
+    return (
+      <div className="text-center p-12 bg-white rounded-2xl border border-dashed border-slate-300">
+        <MapPin className="w-10 h-10 mx-auto mb-3 text-slate-300" />
+        <p className="text-slate-500">No locations found nearby.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2 px-1">
+        <div className="flex flex-wrap gap-1.5">
+          {chips.map((c) => (
+            <button
+              key={c.id}
+              onClick={() => toggleChip(c)}
+              className={`text-xs font-semibold px-2.5 py-1 rounded-full transition-colors ${activeChips.includes(c.id) ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-100'}`}
+            >
+              {c.label}
+            </button>
+          ))}
+        </div>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as PlaceSort)}
+          className="text-xs font-semibold text-slate-600 bg-white border border-slate-200 rounded-lg px-2 py-1 shrink-0"
+        >
+          {(Object.keys(SORT_LABELS) as PlaceSort[])
+            .filter((s) => s !== 'distance' || location)
+            .map((s) => <option key={s} value={s}>{SORT_LABELS[s]}</option>)}
+        </select>
+      </div>
+
+      {viewMode === 'map' && (
+        <div>
+          <TileMap pins={pins} home={location} selectedId={selectedId} onPinClick={setSelectedId} />
+          {unplotted > 0 && (
+            <p className="text-[11px] text-slate-400 mt-1 px-1">{unplotted} of {visible.length} places have no coordinates and are only in the list.</p>
+          )}
+        </div>
+      )}
+
+      {visible.length > 0 ? (
+        [...visible]
+          .sort((a, b) => Number(b.id === selectedId) - Number(a.id === selectedId))
+          .map((place) => <PlaceCard key={place.id} place={place} distance={placeDistance(place, location)} selected={place.id === selectedId} />)
+      ) : (
+        <p className="text-sm text-slate-500 px-1">No places match these filters.</p>
+      )}
+    </div>
+  );
+};
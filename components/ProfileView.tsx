@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Check, HeartPulse, Target, UserRound } from 'lucide-react';
+import { Card } from './ui';
+import { AGE_BRACKETS, SKILL_LEVELS } from '../services/playerProfile';
+import { SPORTS } from '../services/sports';
+import type { BackhandStyle, Handedness, PlayerProfile } from '../types';
+
+const field = 'w-full text-sm px-3 py-2 rounded-lg border border-slate-200 bg-white focus:outline-none focus:border-indigo-400';
+const labelClass = 'text-xs font-semibold text-slate-500 space-y-1 block';
+
+// Segmented choice where clicking the active option clears it
+const Choice = <T extends string>({ options, value, onChange }: { options: { id: T, label: string }[], value?: T, onChange: (value?: T) => void }) => (
+  <div className="flex flex-wrap gap-1.5">
+    {options.map((o) => (
+      <button
+        key={o.id}
+        type="button"
+        onClick={() => onChange(value === o.id ? undefined : o.id)}
+        className={`text-xs font-semibold px-3 py-1.5 rounded-full transition-colors ${value === o.id ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+      >
+        {o.label}
+      </button>
+    ))}
+  </div>
+);
+
+const HANDEDNESS: { id: Handedness, label: string }[] = [{ id: 'right', label: 'Right-handed' }, { id: 'left', label: 'Left-handed' }];
+const BACKHANDS: { id: BackhandStyle, label: string }[] = [{ id: 'one-handed', label: 'One-handed' }, { id: 'two-handed', label: 'Two-handed' }];
+
+// --- Profile View ---
+
+interface ProfileViewProps {
+  profile: PlayerProfile;
+  onSave: (profile: PlayerProfile) => void;
+}
+
+export const ProfileView: React.FC<ProfileViewProps> = ({ profile, onSave }) => {
+  const [draft, setDraft] = useState(profile);
+  const [saved, setSaved] = useState(false);
+  const set = (patch: Partial<PlayerProfile>) => {
+    setDraft((prev) => ({ ...prev, ...patch }));
+    setSaved(false);
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave(draft);
+        setSaved(true);
+      }}
+      className="p-4 space-y-4"
+    >
+      <p className="text-sm text-slate-500 px-1">
+        Your profile goes into every analysis, so cues and drills fit your level and body. Everything is optional and stays on this device.
+      </p>
+
+      <Card className="p-5 space-y-4">
+        <h2 className="font-bold text-slate-900 flex items-center gap-2"><UserRound className="w-4 h-4 text-indigo-600" /> Player</h2>
+        <div className="space-y-1">
+          <span className="text-xs font-semibold text-slate-500">Level</span>
+          <Choice options={SKILL_LEVELS} value={draft.level} onChange={(level) => set({ level })} />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          {SPORTS.map((s) => (
+            <label key={s.id} className={labelClass}>
+              <span>{s.name} rating</span>
+              <input
+                value={draft.ratings[s.id] || ''}
+                onChange={(e) => set({ ratings: { ...draft.ratings, [s.id]: e.target.value } })}
+                placeholder={s.labels.rating}
+                className={field}
+              />
+            </label>
+          ))}
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs font-semibold text-slate-500">Hand</span>
+          <Choice options={HANDEDNESS} value={draft.handedness} onChange={(handedness) => set({ handedness })} />
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs font-semibold text-slate-500">Backhand</span>
+          <Choice options={BACKHANDS} value={draft.backhand} onChange={(backhand) => set({ backhand })} />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <label className={labelClass}>
+            <span>Grip</span>
+            <input value={draft.grip || ''} onChange={(e) => set({ grip: e.target.value })} placeholder="e.g. semi-western forehand" className={field} />
+          </label>
+          <label className={labelClass}>
+            <span>Age</span>
+            <select value={draft.ageBracket || ''} onChange={(e) => set({ ageBracket: (e.target.value || undefined) as PlayerProfile['ageBracket'] })} className={field}>
+              <option value="">Prefer not to say</option>
+              {AGE_BRACKETS.map((a) => <option key={a} value={a}>{a}</option>)}
+            </select>
+          </label>
+        </div>
+      </Card>
+
+      <Card className="p-5 space-y-4">
+        <label className={labelClass}>
+          <span className="flex items-center gap-1.5"><Target className="w-3.5 h-3.5 text-indigo-600" /> Goals</span>
+          <textarea value={draft.goals} onChange={(e) => set({ goals: e.target.value })} rows={2} placeholder="e.g. more spin on my second serve, move up to 4.0" className={field} />
+        </label>
+        <label className={labelClass}>
+          <span className="flex items-center gap-1.5"><HeartPulse className="w-3.5 h-3.5 text-red-500" /> Injuries and limits</span>
+          <textarea value={draft.injuries} onChange={(e) => set({ injuries: e.target.value })} rows={2} placeholder="e.g. tennis elbow (right), sore left knee" className={field} />
+          <span className="block font-normal text-slate-400">Drills that could aggravate these are flagged in the report.</span>
+        </label>
+      </Card>
+
+      <button type="submit" className="w-full py-3 text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-xl flex items-center justify-center gap-2">
+        {saved ? <><Check className="w-4 h-4" /> Saved</> : 'Save profile'}
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { TrendingUp, TrendingDown, Minus, Loader2, Repeat, CheckCircle, Sparkles, Eye } from 'lucide-react';
+import { Card } from './ui';
+import { SCORE_LABELS } from '../services/analysisSchema';
+import { listSessions } from '../services/sessionStore';
+import { IssueStatus, IssueTrend, ScorePoint, buildScoreSeries, summarizeIssues } from '../services/progress';
+import type { SavedSession, ScoreCategory } from '../types';
+
+const CHART_W = 320;
+const CHART_H = 96;
+
+const STATUS_META: Record<IssueStatus, { label: string, className: string, icon: any }> = {
+  recurring: { label: 'Recurring', className: 'bg-red-100 text-red-700', icon: Repeat },
+  new: { label: 'New', className: 'bg-amber-100 text-amber-700', icon: Sparkles },
+  intermittent: { label: 'Not seen last session', className: 'bg-sky-100 text-sky-700', icon: Eye },
+  resolved: { label: 'Resolved', className: 'bg-emerald-100 text-emerald-700', icon: CheckCircle },
+};
+
+const ScoreChart: React.FC<{ points: ScorePoint[] }> = ({ points }) => {
+  const x = (i: number) => (points.length === 1 ? CHART_W / 2 : 8 + (i / (points.length - 1)) * (CHART_W - 16));
+  const y = (score: number) => CHART_H - 8 - (score / 10) * (CHART_H - 16);
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p.score).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-24">
+      {[0, 5, 10].map((g) => (
+        <line key={g} x1={0} x2={CHART_W} y1={y(g)} y2={y(g)} className="stroke-slate-100" strokeWidth={1} />
+      ))}
+      <path d={path} fill="none" className="stroke-indigo-500" strokeWidth={2} strokeLinejoin="round" />
+      {points.map((p, i) => (
+        <circle key={p.sessionId} cx={x(i)} cy={y(p.score)} r={3} className="fill-white stroke-indigo-600" strokeWidth={2}>
+          <title>{`${new Date(p.createdAt).toLocaleDateString()}: ${p.score.toFixed(1)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const TrendBadge: React.FC<{ points: ScorePoint[] }> = ({ points }) => {
+  if (points.length < 2) return <span className="text-xs text-slate-400">1 session</span>;
+  const delta = points[points.length - 1].score - points[0].score;
+  const Icon = delta > 0.2 ? TrendingUp : delta < -0.2 ? TrendingDown : Minus;
+  const color = delta > 0.2 ? 'text-emerald-600' : delta < -0.2 ? 'text-red-600' : 'text-slate-500';
+  return (
+    <span className={`flex items-center gap-1 text-xs font-bold ${color}`}>
+      <Icon className="w-3.5 h-3.5" /> {delta > 0 ? '+' : ''}{delta.toFixed(1)}
+    </span>
+  );
+};
+
+const IssueRow: React.FC<{ trend: IssueTrend }> = ({ trend }) => {
+  const meta = STATUS_META[trend.status];
+  const Icon = meta.icon;
+  return (
+    <div className="flex items-start gap-3 py-3 border-b border-slate-100 last:border-0">
+      <span className={`shrink-0 text-[10px] font-bold uppercase px-2 py-0.5 rounded-full flex items-center gap-1 ${meta.className}`}>
+        <Icon className="w-3 h-3" /> {meta.label}
+      </span>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-semibold text-slate-900">{trend.bodyPart} <span className="font-normal text-slate-400">&middot; {trend.strokePhase}</span></p>
+        {trend.latestFix && <p className="text-xs text-slate-500 mt-0.5">{trend.latestFix}</p>}
+      </div>
+      <span className="text-xs text-slate-400 shrink-0">{trend.occurrences}&times;</span>
+    </div>
+  );
+};
+
+export const ProgressView: React.FC<{ initialSport: string | null }> = ({ initialSport }) => {
+  const [sessions, setSessions] = useState<SavedSession[] | null>(null);
+  const [sport, setSport] = useState<string | null>(initialSport);
+
+  useEffect(() => {
+    listSessions().then(setSessions).catch(() => setSessions([]));
+  }, []);
+
+  const sports = useMemo(() => Array.from(new Set((sessions || []).map((s) => s.sport as string))), [sessions]);
+  const activeSport = sport && sports.includes(sport) ? sport : sports[0] || null;
+  const sportSessions = useMemo(() => (sessions || []).filter((s) => s.sport === activeSport), [sessions, activeSport]);
+  const series = useMemo(() => buildScoreSeries(sportSessions), [sportSessions]);
+  const trends = useMemo(() => summarizeIssues(sportSessions), [sportSessions]);
+
+  if (sessions === null) {
+    return <div className="flex justify-center p-12"><Loader2 className="w-6 h-6 text-slate-400 animate-spin" /></div>;
+  }
+
+  if (!activeSport) {
+    return (
+      <div className="p-4">
+        <div className="text-center p-12 bg-white rounded-2xl border border-dashed border-slate-300">
+          <TrendingUp className="w-10 h-10 mx-auto mb-3 text-slate-300" />
+          <p className="text-slate-500">Analyze a few clips to start tracking progress.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-6">
+      <div className="flex flex-wrap items-center gap-2 px-1">
+        {sports.map((s) => (
+          <button
+            key={s}
+            onClick={() => setSport(s)}
+            className={`text-xs font-semibold px-3 py-1.5 rounded-full transition-colors ${activeSport === s ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+          >
+            {s}
+          </button>
+        ))}
+        <span className="ml-auto text-xs text-slate-500">{sportSessions.length} session{sportSessions.length === 1 ? '' : 's'}</span>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        {(Object.keys(series) as ScoreCategory[]).map((category) => (
+          <Card key={category} className="p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-bold text-slate-900">{SCORE_LABELS[category]}</h3>
+              <TrendBadge points={series[category]} />
+            </div>
+            {series[category].length > 0 ? (
+              <ScoreChart points={series[category]} />
+            ) : (
+              <p className="text-xs text-slate-400 h-24 flex items-center justify-center">No scores yet</p>
+            )}
+          </Card>
+        ))}
+      </div>
+
+      <Card className="p-5">
+        <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider mb-2">Issues Over Time</h3>
+        {trends.length > 0 ? (
+          trends.map((trend) => <IssueRow key={trend.key} trend={trend} />)
+        ) : (
+          <p className="text-sm text-slate-500">No issues recorded.</p>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useRef, useState } from 'react';
+import { FileCode, FileText, Loader2, Printer, Share2 } from 'lucide-react';
+import { KeyFrame, ReportInput, buildReportHtml, buildReportMarkdown, captureKeyFrames, printReport } from '../services/reportExport';
+import { createArchive } from '../services/sessionStore';
+import { downloadBlob, slugify } from '../utils/download';
+import type { SavedSession } from '../types';
+
+type Action = 'print' | 'html' | 'markdown' | 'share';
+
+interface ReportActionsProps {
+  report: Omit<ReportInput, 'frames'>;
+  videoUrl: string | null; // key frames need the clip; without it the report has none
+  getSession: () => Promise<SavedSession>;
+}
+
+export const ReportActions: React.FC<ReportActionsProps> = ({ report, videoUrl, getSession }) => {
+  const [busy, setBusy] = useState<Action | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const framesRef = useRef<{ result: unknown, frames: KeyFrame[] } | null>(null);
+
+  // Frames are captured once per result and reused across exports
+  const frames = async () => {
+    if (!videoUrl) return [];
+    if (framesRef.current?.result !== report.result) {
+      framesRef.current = { result: report.result, frames: await captureKeyFrames(videoUrl, report.result.issues) };
+    }
+    return framesRef.current.frames;
+  };
+
+  const run = (action: Action, task: () => Promise<void>) => async () => {
+    setBusy(action);
+    setNotice(null);
+    try {
+      await task();
+    } catch (err: any) {
+      // Closing the share sheet is not an error
+      if (err?.name !== 'AbortError') {
+        console.error(err);
+        setNotice('Export failed. Try again.');
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const filename = slugify(report.title);
+
+  const actions: { id: Action, label: string, icon: any, task: () => Promise<void> }[] = [
+    { id: 'print', label: 'PDF', icon: Printer, task: async () => printReport(buildReportHtml({ ...report, frames: await frames() })) },
+    {
+      id: 'html',
+      label: 'HTML',
+      icon: FileCode,
+      task: async () => downloadBlob(new Blob([buildReportHtml({ ...report, frames: await frames() })], { type: 'text/html' }), `${filename}.html`),
+    },
+    {
+      id: 'markdown',
+      label: 'Markdown',
+      icon: FileText,
+      task: async () => downloadBlob(new Blob([buildReportMarkdown({ ...report, frames: [] })], { type: 'text/markdown' }), `${filename}.md`),
+    },
+    {
+      id: 'share',
+      label: 'Share',
+      icon: Share2,
+      // A one-session archive, which the History view imports and opens
+      task: async () => {
+        const file = new File([createArchive([await getSession()])], `${filename}.proform.json`, { type: 'application/json' });
+        if (navigator.canShare?.({ files: [file] })) {
+          await navigator.share({ files: [file], title: report.title });
+        } else {
+          downloadBlob(file, file.name);
+          setNotice('Session file saved. Others can open it from History → Import.');
+        }
+      },
+    },
+  ];
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap items-center gap-2 px-1">
+        <span className="text-xs font-bold text-slate-500 uppercase tracking-wider mr-auto">Export Report</span>
+        {actions.map(({ id, label, icon: Icon, task }) => (
+          <button
+            key={id}
+            onClick={run(id, task)}
+            disabled={busy !== null}
+            className="text-xs font-semibold text-slate-600 bg-white border border-slate-200 hover:bg-slate-100 disabled:opacity-50 px-2.5 py-1.5 rounded-lg flex items-center gap-1.5 transition-colors"
+          >
+            {busy === id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Icon className="w-3.5 h-3.5" />} {label}
+          </button>
+        ))}
+      </div>
+      {(busy === 'print' || busy === 'html') && videoUrl && framesRef.current?.result !== report.result && (
+        <p className="text-[11px] text-slate-400 mt-1.5 px-1">Capturing key frames from the video...</p>
+      )}
+      {notice && <p className="text-xs text-slate-500 mt-1.5 px-1">{notice}</p>}
+    </div>
+  );
+};
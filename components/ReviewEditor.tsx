@@ -0,0 +1,317 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, BadgeCheck, Dumbbell, GitCompare, Loader2, MessageSquare, Plus, RotateCcw, Send, Trash2, TriangleAlert } from 'lucide-react';
+import { Card } from './ui';
+import { SEVERITIES, STROKE_PHASES } from '../services/analysisSchema';
+import {
+  DRILL_FIELDS, ISSUE_FIELDS, approveReview, changedFields, editReview, newComment, newDrill, newIssue, publishReview, reviewChangeCount,
+} from '../services/coachReview';
+import { getSport } from '../services/sports';
+import { formatRange } from '../utils/time';
+import type { AnalysisIssue, CoachReview, Drill, ReviewStatus, RevisedItem } from '../types';
+
+const SAVE_DELAY_MS = 800;
+
+const field = 'w-full text-sm px-3 py-2 rounded-lg border border-slate-200 bg-white focus:outline-none focus:border-indigo-400';
+
+export const STATUS_STYLES: Record<ReviewStatus, string> = {
+  draft: 'bg-slate-100 text-slate-600',
+  approved: 'bg-amber-100 text-amber-700',
+  published: 'bg-emerald-100 text-emerald-700',
+};
+
+// The AI's wording under a field the coach changed
+const Original: React.FC<{ show: boolean, value: unknown }> = ({ show, value }) =>
+  show ? <p className="text-[11px] text-slate-400 line-through mt-0.5">AI: {String(value ?? '') || '(empty)'}</p> : null;
+
+const ChangeBadge: React.FC<{ added: boolean, edited: boolean }> = ({ added, edited }) =>
+  added || edited ? (
+    <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${added ? 'bg-indigo-100 text-indigo-700' : 'bg-amber-100 text-amber-700'}`}>
+      {added ? 'Coach added' : 'Edited'}
+    </span>
+  ) : null;
+
+// --- Item Editors ---
+
+interface ItemEditorProps<T> {
+  item: RevisedItem<T>;
+  original?: T;
+  showChanges: boolean;
+  onChange: (value: T) => void;
+  onRemove: () => void;
+}
+
+const IssueEditor: React.FC<ItemEditorProps<AnalysisIssue>> = ({ item, original, showChanges, onChange, onRemove }) => {
+  const issue = item.value;
+  const changed = original ? changedFields(original, issue, ISSUE_FIELDS) : [];
+  const set = (patch: Partial<AnalysisIssue>) => onChange({ ...issue, ...patch });
+  const diff = (f: keyof AnalysisIssue) => showChanges && changed.includes(f);
+
+  return (
+    <div className="p-4 rounded-xl border border-slate-200 bg-slate-50/50 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={issue.severity} onChange={(e) => set({ severity: e.target.value as AnalysisIssue['severity'] })} className="text-xs px-2 py-1 rounded-md border border-slate-200 bg-white">
+          {SEVERITIES.map((s) => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select value={issue.strokePhase} onChange={(e) => set({ strokePhase: e.target.value as AnalysisIssue['strokePhase'] })} className="text-xs px-2 py-1 rounded-md border border-slate-200 bg-white">
+          {STROKE_PHASES.map((p) => <option key={p} value={p}>{p}</option>)}
+        </select>
+        {issue.stroke && <span className="text-xs text-slate-500">{issue.stroke}</span>}
+        {issue.endTime > 0 && <span className="text-[11px] font-mono text-slate-400">{formatRange(issue.startTime, issue.endTime)}</span>}
+        <span className="ml-auto flex items-center gap-1">
+          <ChangeBadge added={!original} edited={changed.length > 0} />
+          {original && changed.length > 0 && (
+            <button onClick={() => onChange(original)} title="Revert to the AI version" className="p-1 rounded-full text-slate-400 hover:text-indigo-600 hover:bg-white">
+              <RotateCcw className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <button onClick={onRemove} title="Remove" className="p-1 rounded-full text-slate-400 hover:text-red-600 hover:bg-red-50">
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </span>
+      </div>
+      {(diff('severity') || diff('strokePhase')) && (
+        <Original show value={`${original!.severity} · ${original!.strokePhase}`} />
+      )}
+      <div>
+        <input value={issue.bodyPart} onChange={(e) => set({ bodyPart: e.target.value })} placeholder="Body part" className={field} />
+        <Original show={diff('bodyPart')} value={original?.bodyPart} />
+      </div>
+      <div>
+        <textarea value={issue.description} onChange={(e) => set({ description: e.target.value })} rows={2} placeholder="What is wrong" className={field} />
+        <Original show={diff('description')} value={original?.description} />
+      </div>
+      <div>
+        <textarea value={issue.fix} onChange={(e) => set({ fix: e.target.value })} rows={2} placeholder="How to fix it" className={field} />
+        <Original show={diff('fix')} value={original?.fix} />
+      </div>
+    </div>
+  );
+};
+
+const DrillEditor: React.FC<ItemEditorProps<Drill>> = ({ item, original, showChanges, onChange, onRemove }) => {
+  const drill = item.value;
+  const changed = original ? changedFields(original, drill, DRILL_FIELDS) : [];
+  const set = (patch: Partial<Drill>) => onChange({ ...drill, ...patch });
+  const diff = (f: keyof Drill) => showChanges && changed.includes(f);
+
+  return (
+    <div className="p-4 rounded-xl border border-slate-200 bg-slate-50/50 space-y-2">
+      <div className="flex items-center gap-2">
+        <Dumbbell className="w-4 h-4 text-emerald-600 shrink-0" />
+        <input value={drill.name} onChange={(e) => set({ name: e.target.value })} placeholder="Drill name" className={`${field} font-semibold`} />
+        <ChangeBadge added={!original} edited={changed.length > 0} />
+        {original && changed.length > 0 && (
+          <button onClick={() => onChange(original)} title="Revert to the AI version" className="p-1 rounded-full text-slate-400 hover:text-indigo-600 hover:bg-white shrink-0">
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+        )}
+        <button onClick={onRemove} title="Remove" className="p-1 rounded-full text-slate-400 hover:text-red-600 hover:bg-red-50 shrink-0">
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <Original show={diff('name')} value={original?.name} />
+      {drill.caution && (
+        <p className="text-xs text-amber-700 flex gap-1.5"><TriangleAlert className="w-3.5 h-3.5 shrink-0 mt-px" /> {drill.caution}</p>
+      )}
+      <div>
+        <textarea value={drill.goal} onChange={(e) => set({ goal: e.target.value })} rows={2} placeholder="Goal" className={field} />
+        <Original show={diff('goal')} value={original?.goal} />
+      </div>
+      <div>
+        <input value={drill.repsOrDuration} onChange={(e) => set({ repsOrDuration: e.target.value })} placeholder="Reps or duration" className={field} />
+        <Original show={diff('repsOrDuration')} value={original?.repsOrDuration} />
+      </div>
+    </div>
+  );
+};
+
+// --- Review Editor ---
+
+interface ReviewEditorProps {
+  review: CoachReview;
+  athleteName: string;
+  onSave: (review: CoachReview) => Promise<void>;
+  onBack: () => void;
+}
+
+export const ReviewEditor: React.FC<ReviewEditorProps> = ({ review, athleteName, onSave, onBack }) => {
+  const [current, setCurrent] = useState(review);
+  const [showChanges, setShowChanges] = useState(false);
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const savedRef = useRef(review);
+
+  const save = async (next: CoachReview) => {
+    setSaving(true);
+    try {
+      await onSave(next);
+      savedRef.current = next;
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+      throw err;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Edits are saved once typing pauses, so a REST store isn't hit per keystroke
+  useEffect(() => {
+    if (current === savedRef.current) return;
+    const t = setTimeout(() => save(current).catch(() => {}), SAVE_DELAY_MS);
+    return () => clearTimeout(t);
+  }, [current]);
+
+  const edit = (patch: Parameters<typeof editReview>[1]) => setCurrent((prev) => editReview(prev, patch));
+
+  const setStatus = async (next: CoachReview) => {
+    setCurrent(next);
+    await save(next).catch(() => {});
+  };
+
+  const back = async () => {
+    if (current !== savedRef.current) {
+      try {
+        await save(current);
+      } catch {
+        return;
+      }
+    }
+    onBack();
+  };
+
+  const updateItem = <T,>(list: RevisedItem<T>[], id: string, value: T) => list.map((i) => (i.id === id ? { ...i, value } : i));
+  const removed = {
+    issues: current.original.issues.map((value, origin) => ({ value, origin })).filter(({ origin }) => !current.issues.some((i) => i.origin === origin)),
+    drills: current.original.drills.map((value, origin) => ({ value, origin })).filter(({ origin }) => !current.drills.some((d) => d.origin === origin)),
+  };
+  const changeCount = reviewChangeCount(current);
+  const summaryChanged = current.summary.trim() !== current.original.summary.trim();
+  const unpublished = current.published && current.status !== 'published';
+
+  return (
+    <div className="p-4 space-y-4">
+      <button onClick={back} className="flex items-center gap-1 text-xs font-semibold text-slate-500 hover:text-indigo-600">
+        <ArrowLeft className="w-3.5 h-3.5" /> {athleteName}
+      </button>
+
+      <Card className="p-4 space-y-3">
+        <div className="flex items-start gap-3">
+          {current.thumbnail && <img src={current.thumbnail} alt="" className="w-20 h-14 rounded-lg object-cover shrink-0" />}
+          <div className="min-w-0 flex-1">
+            <h2 className="font-bold text-slate-900 truncate">{current.title}</h2>
+            <p className="text-xs text-slate-500">{getSport(current.sport).name} · analyzed {new Date(current.analyzedAt).toLocaleDateString()}</p>
+          </div>
+          <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full shrink-0 ${STATUS_STYLES[current.status]}`}>{current.status}</span>
+        </div>
+        {unpublished && (
+          <p className="text-xs text-slate-500">The student still sees the version published {new Date(current.published!.publishedAt).toLocaleString()}.</p>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={() => setShowChanges(!showChanges)}
+            className={`text-xs font-semibold px-3 py-1.5 rounded-full flex items-center gap-1.5 transition-colors ${showChanges ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+          >
+            <GitCompare className="w-3.5 h-3.5" /> {changeCount ? `${changeCount} change${changeCount === 1 ? '' : 's'} from AI` : 'No changes from AI'}
+          </button>
+          <span className="ml-auto text-[11px] text-slate-400 flex items-center gap-1">
+            {saving ? <><Loader2 className="w-3 h-3 animate-spin" /> Saving</> : current === savedRef.current ? 'Saved' : ''}
+          </span>
+          {current.status === 'draft' ? (
+            <button onClick={() => setStatus(approveReview(current))} className="text-xs font-semibold px-3 py-1.5 rounded-full bg-amber-500 text-white hover:bg-amber-600 flex items-center gap-1.5">
+              <BadgeCheck className="w-3.5 h-3.5" /> Approve
+            </button>
+          ) : current.status === 'approved' ? (
+            <button onClick={() => setStatus(publishReview(current))} className="text-xs font-semibold px-3 py-1.5 rounded-full bg-emerald-600 text-white hover:bg-emerald-700 flex items-center gap-1.5">
+              <Send className="w-3.5 h-3.5" /> Publish to {athleteName}
+            </button>
+          ) : null}
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </Card>
+
+      <Card className="p-4 space-y-2">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Summary</h3>
+        <textarea value={current.summary} onChange={(e) => edit({ summary: e.target.value })} rows={3} className={field} />
+        <Original show={showChanges && summaryChanged} value={current.original.summary} />
+      </Card>
+
+      <Card className="p-4 space-y-3">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Issues</h3>
+        {current.issues.map((item) => (
+          <IssueEditor
+            key={item.id}
+            item={item}
+            original={item.origin === undefined ? undefined : current.original.issues[item.origin]}
+            showChanges={showChanges}
+            onChange={(value) => edit({ issues: updateItem(current.issues, item.id, value) })}
+            onRemove={() => edit({ issues: current.issues.filter((i) => i.id !== item.id) })}
+          />
+        ))}
+        <button onClick={() => edit({ issues: [...current.issues, newIssue()] })} className="text-xs font-semibold text-indigo-600 flex items-center gap-1">
+          <Plus className="w-3.5 h-3.5" /> Add issue
+        </button>
+      </Card>
+
+      <Card className="p-4 space-y-3">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Drills</h3>
+        {current.drills.map((item) => (
+          <DrillEditor
+            key={item.id}
+            item={item}
+            original={item.origin === undefined ? undefined : current.original.drills[item.origin]}
+            showChanges={showChanges}
+            onChange={(value) => edit({ drills: updateItem(current.drills, item.id, value) })}
+            onRemove={() => edit({ drills: current.drills.filter((d) => d.id !== item.id) })}
+          />
+        ))}
+        <button onClick={() => edit({ drills: [...current.drills, newDrill()] })} className="text-xs font-semibold text-indigo-600 flex items-center gap-1">
+          <Plus className="w-3.5 h-3.5" /> Add drill
+        </button>
+      </Card>
+
+      {/* What the coach took out, with a way back */}
+      {showChanges && (removed.issues.length > 0 || removed.drills.length > 0) && (
+        <Card className="p-4 space-y-2">
+          <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Removed from the AI report</h3>
+          {removed.issues.map(({ value, origin }) => (
+            <div key={`issue-${origin}`} className="flex items-start gap-2 text-xs text-slate-500">
+              <span className="line-through flex-1">{value.bodyPart}: {value.description}</span>
+              <button onClick={() => edit({ issues: [...current.issues, { ...newIssue(), origin, value }] })} className="font-semibold text-indigo-600 shrink-0">Restore</button>
+            </div>
+          ))}
+          {removed.drills.map(({ value, origin }) => (
+            <div key={`drill-${origin}`} className="flex items-start gap-2 text-xs text-slate-500">
+              <span className="line-through flex-1">{value.name}</span>
+              <button onClick={() => edit({ drills: [...current.drills, { ...newDrill(), origin, value }] })} className="font-semibold text-indigo-600 shrink-0">Restore</button>
+            </div>
+          ))}
+        </Card>
+      )}
+
+      <Card className="p-4 space-y-3">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-1.5"><MessageSquare className="w-3.5 h-3.5" /> Coach comments</h3>
+        {current.comments.map((c) => (
+          <div key={c.id} className="flex items-start gap-2 text-sm text-slate-700">
+            <p className="flex-1 whitespace-pre-wrap">{c.text}</p>
+            <button onClick={() => edit({ comments: current.comments.filter((x) => x.id !== c.id) })} title="Delete comment" className="p-1 rounded-full text-slate-400 hover:text-red-600 hover:bg-red-50 shrink-0">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        <textarea value={comment} onChange={(e) => setComment(e.target.value)} rows={2} placeholder="A note for the student, e.g. what to focus on this week" className={field} />
+        <button
+          onClick={() => {
+            edit({ comments: [...current.comments, newComment(comment.trim())] });
+            setComment('');
+          }}
+          disabled={!comment.trim()}
+          className="text-xs font-semibold px-3 py-1.5 rounded-full bg-slate-100 text-slate-600 hover:bg-slate-200 disabled:opacity-40"
+        >
+          Add comment
+        </button>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { formatTimestamp, formatRange } from '../utils/time';
+import type { AnalysisIssue, Severity } from '../types';
+
+export const SEVERITY_MARKER: Record<Severity, string> = {
+  high: 'bg-red-500',
+  medium: 'bg-amber-400',
+  low: 'bg-sky-400',
+};
+
+// --- Scrub Bar ---
+
+interface ScrubBarProps {
+  currentTime: number;
+  duration: number;
+  markers: AnalysisIssue[];
+  onSeek: (time: number) => void;
+}
+
+export const ScrubBar: React.FC<ScrubBarProps> = ({ currentTime, duration, markers, onSeek }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const pct = (t: number) => (duration > 0 ? Math.min(100, (t / duration) * 100) : 0);
+
+  const seekFromPointer = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || duration <= 0) return;
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    onSeek(ratio * duration);
+  };
+
+  return (
+    <div className="flex items-center gap-3 px-1 pt-3">
+      <span className="text-[11px] font-mono text-slate-500 w-9 text-right">{formatTimestamp(currentTime)}</span>
+      <div
+        ref={trackRef}
+        onPointerDown={(e) => {
+          seekFromPointer(e.clientX);
+          e.currentTarget.setPointerCapture(e.pointerId);
+        }}
+        onPointerMove={(e) => e.buttons === 1 && seekFromPointer(e.clientX)}
+        className="relative flex-1 h-6 cursor-pointer touch-none"
+      >
+        <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-1.5 bg-slate-200 rounded-full" />
+        <div
+          className="absolute left-0 top-1/2 -translate-y-1/2 h-1.5 bg-indigo-600 rounded-full"
+          style={{ width: `${pct(currentTime)}%` }}
+        />
+        {markers.map((m, i) => (
+          <button
+            key={i}
+            title={`${m.bodyPart} (${formatRange(m.startTime, m.endTime)})`}
+            onPointerDown={(e) => e.stopPropagation()}
+            onClick={() => onSeek(m.startTime)}
+            className={`absolute top-1/2 -translate-y-1/2 h-3 min-w-[6px] rounded-sm opacity-80 hover:opacity-100 hover:h-4 transition-all ${SEVERITY_MARKER[m.severity]}`}
+            style={{ left: `${pct(m.startTime)}%`, width: `${Math.max(0, pct(m.endTime) - pct(m.startTime))}%` }}
+          />
+        ))}
+        <div
+          className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-3.5 h-3.5 bg-white border-2 border-indigo-600 rounded-full shadow pointer-events-none"
+          style={{ left: `${pct(currentTime)}%` }}
+        />
+      </div>
+      <span className="text-[11px] font-mono text-slate-500 w-9">{formatTimestamp(duration)}</span>
+    </div>
+  );
+};
+
+// --- Playback Clock ---
+
+// Tracks currentTime/duration of a <video> element that lives elsewhere in
+// the tree, so the scrub bar can sit outside the player's aspect-ratio box.
+export const useVideoClock = (videoRef: React.RefObject<HTMLVideoElement | null>, src: string | null) => {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+
+  useEffect(() => {
+    setCurrentTime(0);
+    setDuration(0);
+    const el = videoRef.current;
+    if (!el) return;
+
+    const onTime = () => setCurrentTime(el.currentTime);
+    // Camera recordings (WebM) report an infinite duration until the browser
+    // has seeked to their end once, so seek there and back.
+    let probing = false;
+    const onMeta = () => {
+      if (el.duration === Infinity && el.readyState > 0) {
+        probing = true;
+        el.currentTime = Number.MAX_SAFE_INTEGER;
+        return;
+      }
+      if (probing && Number.isFinite(el.duration)) {
+        probing = false;
+        el.currentTime = 0;
+      }
+      setDuration(Number.isFinite(el.duration) ? el.duration : 0);
+    };
+    onMeta();
+    el.addEventListener('timeupdate', onTime);
+    el.addEventListener('seeked', onTime);
+    el.addEventListener('loadedmetadata', onMeta);
+    el.addEventListener('durationchange', onMeta);
+    return () => {
+      el.removeEventListener('timeupdate', onTime);
+      el.removeEventListener('seeked', onTime);
+      el.removeEventListener('loadedmetadata', onMeta);
+      el.removeEventListener('durationchange', onMeta);
+    };
+  }, [videoRef, src]);
+
+  return { currentTime, duration };
+};
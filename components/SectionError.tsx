@@ -0,0 +1,29 @@
+import React from 'react';
+import { AlertCircle, Loader2, RotateCcw } from 'lucide-react';
+import type { ClassifiedError } from '../services/errors';
+
+interface SectionErrorProps {
+  error: ClassifiedError;
+  retrying?: boolean;
+  onRetry: () => void;
+}
+
+export const SectionError: React.FC<SectionErrorProps> = ({ error, retrying, onRetry }) => (
+  <div className="p-5 bg-white rounded-2xl border border-red-100 shadow-sm">
+    <div className="flex items-start gap-3">
+      <AlertCircle className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0">
+        <p className="font-bold text-sm text-slate-900">{error.title}</p>
+        <p className="text-xs text-slate-500 mt-1">{error.guidance}</p>
+      </div>
+    </div>
+    <button
+      onClick={onRetry}
+      disabled={retrying}
+      className="mt-4 w-full py-2 text-xs font-semibold text-indigo-600 bg-indigo-50 hover:bg-indigo-100 disabled:opacity-60 rounded-lg flex items-center justify-center gap-1.5 transition-colors"
+    >
+      {retrying ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+      {retrying ? 'Retrying...' : 'Retry'}
+    </button>
+  </div>
+);
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, FlaskConical, ListChecks } from 'lucide-react';
+import { SourceOutcome, outcomeOf } from '../services/sourceClassifier';
+import type { SourceDecision, SourceKind } from '../types';
+
+type SampleModule = typeof import('../data/sourceSamples');
+
+const KIND_STYLES: Record<SourceKind | 'duplicate', { label: string, className: string }> = {
+  video: { label: 'Videos', className: 'bg-red-50 text-red-700' },
+  coach: { label: 'Coaches', className: 'bg-indigo-50 text-indigo-700' },
+  place: { label: 'Places', className: 'bg-emerald-50 text-emerald-700' },
+  excluded: { label: 'Dropped', className: 'bg-slate-100 text-slate-600' },
+  duplicate: { label: 'Duplicate', className: 'bg-amber-50 text-amber-700' },
+};
+
+// --- Decision Row ---
+
+const DecisionRow: React.FC<{ decision: SourceDecision, index: number, expected?: SourceOutcome }> = ({ decision, index, expected }) => {
+  const outcome = outcomeOf(decision);
+  const style = KIND_STYLES[outcome];
+  const wrong = expected !== undefined && expected !== outcome;
+  return (
+    <li className={`p-3 space-y-1 ${wrong ? 'bg-red-50/60' : ''}`}>
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-mono text-slate-400 w-5 shrink-0">#{index + 1}</span>
+        <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${style.className}`}>{style.label}</span>
+        <span className="text-[10px] font-mono text-slate-500">{Math.round(decision.confidence * 100)}%</span>
+        <span className="text-[10px] text-slate-400 ml-auto">{decision.origin}</span>
+      </div>
+      <a href={decision.uri} target="_blank" rel="noreferrer" className="block text-xs font-semibold text-slate-800 truncate hover:text-indigo-600">
+        {decision.title}
+      </a>
+      <p className="text-[11px] text-slate-500">
+        {decision.domain && <span className="font-mono">{decision.domain} · </span>}
+        {outcome === 'duplicate' ? `Same source as #${decision.duplicateOf! + 1}` : decision.reason}
+      </p>
+      {wrong && <p className="text-[11px] font-semibold text-red-600">Expected {KIND_STYLES[expected].label.toLowerCase()}</p>}
+    </li>
+  );
+};
+
+// --- Source Panel ---
+//
+// Debug view of how grounding chunks were sorted into tabs. In development
+// it can also replay a recorded payload, marking chunks that no longer land
+// where the sample expects; production builds never load the samples.
+
+interface SourcePanelProps {
+  resources?: SourceDecision[];
+  places?: SourceDecision[];
+}
+
+export const SourcePanel: React.FC<SourcePanelProps> = ({ resources = [], places = [] }) => {
+  const [open, setOpen] = useState(false);
+  const [samples, setSamples] = useState<SampleModule | null>(null);
+  const [sampleId, setSampleId] = useState('');
+
+  useEffect(() => {
+    if (import.meta.env.DEV && open && !samples) import('../data/sourceSamples').then(setSamples);
+  }, [open]);
+
+  const sample = samples?.SOURCE_SAMPLES.find((s) => s.id === sampleId);
+  // Duplicate indices are per list, so places' ones move past the resources
+  const current = [...resources, ...places.map((d) => d.duplicateOf === undefined ? d : { ...d, duplicateOf: d.duplicateOf + resources.length })];
+  const shown = samples && sample ? samples.replaySample(sample) : current;
+  const mismatches = sample ? shown.filter((d, i) => outcomeOf(d) !== sample.expected[i]).length : 0;
+  const counts = shown.reduce<Record<string, number>>((acc, d) => {
+    const outcome = outcomeOf(d);
+    acc[outcome] = (acc[outcome] || 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div className="pt-2">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full text-xs font-semibold text-slate-400 hover:text-slate-600 flex items-center justify-center gap-1.5 py-2"
+      >
+        <ListChecks className="w-3.5 h-3.5" />
+        Why these results?
+        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+          <div className="p-3 border-b border-slate-100 space-y-2">
+            {samples && (
+              <label className="flex items-center gap-2 text-xs text-slate-500">
+                <FlaskConical className="w-3.5 h-3.5 shrink-0" />
+                <select
+                  value={sampleId}
+                  onChange={(e) => setSampleId(e.target.value)}
+                  className="flex-1 text-xs px-2 py-1 rounded-md border border-slate-200 bg-white"
+                >
+                  <option value="">This analysis</option>
+                  {samples.SOURCE_SAMPLES.map((s) => <option key={s.id} value={s.id}>Recorded: {s.label}</option>)}
+                </select>
+              </label>
+            )}
+            <div className="flex flex-wrap gap-1.5">
+              {(Object.keys(KIND_STYLES) as (keyof typeof KIND_STYLES)[]).filter((k) => counts[k]).map((k) => (
+                <span key={k} className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${KIND_STYLES[k].className}`}>
+                  {KIND_STYLES[k].label} {counts[k]}
+                </span>
+              ))}
+              {sample && (
+                <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ml-auto ${mismatches ? 'bg-red-100 text-red-700' : 'bg-emerald-100 text-emerald-700'}`}>
+                  {mismatches ? `${mismatches} not as expected` : 'All as expected'}
+                </span>
+              )}
+            </div>
+          </div>
+          {shown.length ? (
+            <ul className="divide-y divide-slate-100 max-h-96 overflow-y-auto">
+              {shown.map((d, i) => <DecisionRow key={i} decision={d} index={i} expected={sample?.expected[i]} />)}
+            </ul>
+          ) : (
+            <p className="p-4 text-xs text-slate-500 text-center">
+              No sources were recorded for this analysis. Retrying the search records them.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
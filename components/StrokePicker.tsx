@@ -0,0 +1,41 @@
+import React from 'react';
+import { Wand2 } from 'lucide-react';
+
+interface StrokePickerProps {
+  strokes: string[];
+  selected: string[]; // empty means auto-detect
+  onChange: (selected: string[]) => void;
+}
+
+export const StrokePicker: React.FC<StrokePickerProps> = ({ strokes, selected, onChange }) => {
+  const toggle = (stroke: string) =>
+    onChange(selected.includes(stroke) ? selected.filter((s) => s !== stroke) : [...selected, stroke]);
+
+  if (!strokes.length) return null;
+
+  return (
+    <div className="mt-4 p-4 bg-white rounded-xl border border-slate-200 shadow-sm">
+      <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">What are you working on?</h3>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => onChange([])}
+          className={`text-xs font-semibold px-3 py-1.5 rounded-full flex items-center gap-1 transition-colors ${selected.length === 0 ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+        >
+          <Wand2 className="w-3.5 h-3.5" /> Auto-detect
+        </button>
+        {strokes.map((stroke) => (
+          <button
+            key={stroke}
+            onClick={() => toggle(stroke)}
+            className={`text-xs font-semibold px-3 py-1.5 rounded-full transition-colors ${selected.includes(stroke) ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+          >
+            {stroke}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-400 mt-2">
+        {selected.length === 0 ? "Every stroke in the clip will be found and analyzed separately." : `Only ${selected.join(', ')} will be analyzed.`}
+      </p>
+    </div>
+  );
+};
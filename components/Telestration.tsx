@@ -0,0 +1,302 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowUpRight, Check, ChevronLeft, ChevronRight, Circle, DraftingCompass, Pencil, Route, Slash, Trash2, Undo2 } from 'lucide-react';
+import { FRAME_STEP } from '../services/clipPrep';
+import {
+  ANGLE_JOINTS, ANNOTATION_COLORS, angleArc, angleAt, arrowHead, circleRadius, createAnnotationId, isOnFrame, strokeWidth, toPixels, visibleAnnotations,
+} from '../services/telestration';
+import type { Annotation, AnnotationPoint, AnnotationTool } from '../types';
+
+export interface DrawSettings {
+  tool: AnnotationTool;
+  color: string;
+  label: string; // joint for angles
+}
+
+export const DEFAULT_DRAW_SETTINGS: DrawSettings = { tool: 'line', color: ANNOTATION_COLORS[0], label: ANGLE_JOINTS[0] };
+
+const TOOLS: { id: AnnotationTool, label: string, icon: any }[] = [
+  { id: 'line', label: 'Line', icon: Slash },
+  { id: 'arrow', label: 'Arrow', icon: ArrowUpRight },
+  { id: 'circle', label: 'Circle', icon: Circle },
+  { id: 'freehand', label: 'Freehand', icon: Pencil },
+  { id: 'angle', label: 'Angle', icon: DraftingCompass },
+  { id: 'path', label: 'Racket path', icon: Route },
+];
+
+// Drafts shorter than this (as a fraction of the frame) are stray clicks
+const MIN_DRAG = 0.01;
+
+// --- Mark Shape ---
+
+const MarkShape: React.FC<{ mark: Annotation, width: number, height: number }> = ({ mark, width, height }) => {
+  const px = mark.points.map((p) => toPixels(p, width, height));
+  const line = strokeWidth(width);
+  const common = { stroke: mark.color, strokeWidth: line, strokeLinecap: 'round' as const, strokeLinejoin: 'round' as const, fill: 'none' };
+  const polyline = px.map((p) => `${p.x},${p.y}`).join(' ');
+  if (px.length === 0) return null;
+
+  switch (mark.tool) {
+    case 'circle':
+      return px.length === 2 ? <circle cx={px[0].x} cy={px[0].y} r={circleRadius(mark.points, width, height)} {...common} /> : null;
+    case 'arrow': {
+      if (px.length < 2) return null;
+      const [left, right] = arrowHead(mark.points[0], mark.points[1], width, height);
+      return (
+        <g>
+          <line x1={px[0].x} y1={px[0].y} x2={px[1].x} y2={px[1].y} {...common} />
+          <polyline points={`${left.x},${left.y} ${px[1].x},${px[1].y} ${right.x},${right.y}`} {...common} />
+        </g>
+      );
+    }
+    case 'angle': {
+      if (px.length < 3) return <polyline points={polyline} {...common} />;
+      const arc = angleArc(mark.points, width, height);
+      const at = (angle: number) => `${arc.center.x + Math.cos(angle) * arc.radius},${arc.center.y + Math.sin(angle) * arc.radius}`;
+      return (
+        <g>
+          <polyline points={polyline} {...common} />
+          <path d={`M ${at(arc.start)} A ${arc.radius} ${arc.radius} 0 0 1 ${at(arc.end)}`} {...common} />
+          <text
+            x={arc.center.x + line * 4}
+            y={arc.center.y - line * 5}
+            fill={mark.color}
+            stroke="rgba(15, 23, 42, 0.85)"
+            strokeWidth={line * 2}
+            paintOrder="stroke"
+            fontSize={Math.max(12, width / 36)}
+            fontWeight={700}
+          >
+            {mark.label ? `${mark.label} ` : ''}{angleAt(mark.points, width, height)}°
+          </text>
+        </g>
+      );
+    }
+    case 'path':
+      return (
+        <g>
+          <polyline points={polyline} {...common} strokeDasharray={`${line * 3} ${line * 2}`} />
+          {px.map((p, i) => <circle key={i} cx={p.x} cy={p.y} r={line * 1.6} fill={mark.color} />)}
+        </g>
+      );
+    default:
+      return <polyline points={polyline} {...common} />;
+  }
+};
+
+// --- Overlay ---
+//
+// Sits over the whole player. The viewBox is the video's own size and
+// preserveAspectRatio matches object-contain, so marks land on the picture
+// and not on the letterbox.
+
+interface TelestrationOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  src: string;
+  annotations: Annotation[];
+  currentTime: number;
+  settings: DrawSettings | null; // null while not drawing: marks replay and clicks reach the video
+  onAdd: (annotation: Annotation) => void;
+}
+
+export const TelestrationOverlay: React.FC<TelestrationOverlayProps> = ({ videoRef, src, annotations, currentTime, settings, onAdd }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState<{ width: number, height: number } | null>(null);
+  const [draft, setDraft] = useState<Annotation | null>(null);
+
+  useEffect(() => {
+    const el = videoRef.current;
+    if (!el) return;
+    const onMeta = () => el.videoWidth && setSize({ width: el.videoWidth, height: el.videoHeight });
+    onMeta();
+    el.addEventListener('loadedmetadata', onMeta);
+    return () => el.removeEventListener('loadedmetadata', onMeta);
+  }, [videoRef, src]);
+
+  // Switching tools or leaving draw mode drops a half-finished mark
+  useEffect(() => {
+    setDraft(null);
+  }, [settings?.tool, settings === null]);
+
+  if (!size) return null;
+  const { width, height } = size;
+
+  const toPoint = (e: React.PointerEvent): AnnotationPoint | null => {
+    const matrix = svgRef.current?.getScreenCTM()?.inverse();
+    if (!matrix) return null;
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix);
+    return { x: Math.min(1, Math.max(0, p.x / width)), y: Math.min(1, Math.max(0, p.y / height)) };
+  };
+
+  const newMark = (point: AnnotationPoint): Annotation => ({
+    id: createAnnotationId(),
+    tool: settings!.tool,
+    time: currentTime,
+    points: [point],
+    color: settings!.color,
+    label: settings!.tool === 'angle' ? settings!.label : undefined,
+  });
+
+  const dragged = (mark: Annotation) => {
+    const [a, b] = [mark.points[0], mark.points[mark.points.length - 1]];
+    return Math.hypot(b.x - a.x, b.y - a.y) >= MIN_DRAG;
+  };
+
+  const onPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const point = toPoint(e);
+    if (!settings || !point) return;
+    e.preventDefault();
+
+    if (settings.tool === 'angle') {
+      // Three clicks: one arm, the joint, the other arm
+      const points = [...(draft?.points || []), point];
+      if (points.length === 3) {
+        onAdd({ ...draft!, points });
+        setDraft(null);
+      } else {
+        setDraft({ ...(draft || newMark(point)), points });
+      }
+      return;
+    }
+    if (settings.tool === 'path') {
+      // One point per frame, placed while stepping through the swing
+      const next = { ...point, t: currentTime };
+      setDraft((prev) => prev
+        ? { ...prev, points: [...prev.points.filter((p) => Math.abs((p.t ?? 0) - currentTime) >= FRAME_STEP / 2), next].sort((a, b) => (a.t ?? 0) - (b.t ?? 0)) }
+        : { ...newMark(next), label: 'Racket' });
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft({ ...newMark(point), points: [point, point] });
+  };
+
+  const onPointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!draft || !settings || settings.tool === 'angle' || settings.tool === 'path' || e.buttons !== 1) return;
+    const point = toPoint(e);
+    if (!point) return;
+    setDraft((prev) => prev && {
+      ...prev,
+      points: prev.tool === 'freehand' ? [...prev.points, point] : [prev.points[0], point],
+    });
+  };
+
+  const onPointerUp = () => {
+    if (!draft || draft.tool === 'angle' || draft.tool === 'path') return;
+    if (dragged(draft)) onAdd(draft);
+    setDraft(null);
+  };
+
+  const marks = visibleAnnotations(annotations, currentTime, settings ? 0 : undefined);
+  const pathDraft = draft?.tool === 'path';
+
+  return (
+    <>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="xMidYMid meet"
+        className={`absolute inset-0 w-full h-full ${settings ? 'cursor-crosshair touch-none' : 'pointer-events-none'}`}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+      >
+        {marks.map((m) => <MarkShape key={m.id} mark={m} width={width} height={height} />)}
+        {draft && <MarkShape mark={draft} width={width} height={height} />}
+      </svg>
+      {settings && (
+        <div className="absolute top-3 left-3 right-3 flex justify-between items-start gap-2 pointer-events-none">
+          <span className="text-[11px] font-semibold text-white bg-slate-900/70 px-2 py-1 rounded-md">
+            {settings.tool === 'angle'
+              ? ['Click the first arm', 'Click the joint', 'Click the other arm'][draft?.points.length || 0]
+              : pathDraft
+                ? `${draft!.points.length} point${draft!.points.length === 1 ? '' : 's'} · step frames and click the racket`
+                : settings.tool === 'path'
+                  ? 'Click the racket, then step to the next frame'
+                  : 'Drag to draw'}
+          </span>
+          {pathDraft && (
+            <button
+              onClick={() => {
+                if (draft!.points.length > 1) onAdd({ ...draft!, time: draft!.points[0].t ?? draft!.time });
+                setDraft(null);
+              }}
+              className="pointer-events-auto text-xs font-semibold text-white bg-indigo-600 hover:bg-indigo-700 px-2.5 py-1 rounded-md flex items-center gap-1 shadow"
+            >
+              <Check className="w-3.5 h-3.5" /> {draft!.points.length > 1 ? 'Finish path' : 'Cancel'}
+            </button>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+// --- Toolbar ---
+
+interface TelestrationToolbarProps {
+  settings: DrawSettings;
+  annotations: Annotation[];
+  currentTime: number;
+  duration: number;
+  onSettingsChange: (settings: DrawSettings) => void;
+  onChange: (annotations: Annotation[]) => void;
+  onSeek: (time: number) => void;
+  onDone: () => void;
+}
+
+export const TelestrationToolbar: React.FC<TelestrationToolbarProps> = ({ settings, annotations, currentTime, duration, onSettingsChange, onChange, onSeek, onDone }) => {
+  const onFrame = annotations.filter((a) => isOnFrame(a, currentTime));
+  const step = (frames: number) => onSeek(Math.min(duration, Math.max(0, currentTime + frames * FRAME_STEP)));
+  const iconButton = 'p-1.5 rounded-lg text-slate-600 hover:bg-slate-100 disabled:opacity-40 disabled:hover:bg-transparent transition-colors';
+
+  return (
+    <div className="mt-3 p-2.5 bg-white border border-slate-200 rounded-xl shadow-sm space-y-2">
+      <div className="flex flex-wrap items-center gap-1">
+        {TOOLS.map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            onClick={() => onSettingsChange({ ...settings, tool: id })}
+            title={label}
+            className={`p-1.5 rounded-lg transition-colors ${settings.tool === id ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-slate-100'}`}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+        <span className="w-px h-5 bg-slate-200 mx-1" />
+        {ANNOTATION_COLORS.map((color) => (
+          <button
+            key={color}
+            onClick={() => onSettingsChange({ ...settings, color })}
+            title="Color"
+            className={`w-5 h-5 rounded-full border border-slate-300 ${settings.color === color ? 'ring-2 ring-offset-1 ring-indigo-500' : ''}`}
+            style={{ backgroundColor: color }}
+          />
+        ))}
+        {settings.tool === 'angle' && (
+          <select
+            value={settings.label}
+            onChange={(e) => onSettingsChange({ ...settings, label: e.target.value })}
+            className="ml-1 text-xs font-semibold text-slate-600 bg-white border border-slate-200 rounded-lg px-2 py-1"
+          >
+            {ANGLE_JOINTS.map((j) => <option key={j} value={j}>{j}</option>)}
+          </select>
+        )}
+      </div>
+      <div className="flex items-center gap-1">
+        <button onClick={() => step(-1)} title="Previous frame" className={iconButton}><ChevronLeft className="w-4 h-4" /></button>
+        <button onClick={() => step(1)} title="Next frame" className={iconButton}><ChevronRight className="w-4 h-4" /></button>
+        <span className="text-[11px] font-mono text-slate-500 mx-1">{currentTime.toFixed(2)}s</span>
+        <span className="text-[11px] text-slate-400">{onFrame.length} on this frame · {annotations.length} total</span>
+        <span className="flex-1" />
+        <button onClick={() => onChange(annotations.slice(0, -1))} disabled={annotations.length === 0} title="Undo last mark" className={iconButton}>
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button onClick={() => onChange(annotations.filter((a) => !onFrame.includes(a)))} disabled={onFrame.length === 0} title="Clear this frame" className={iconButton}>
+          <Trash2 className="w-4 h-4" />
+        </button>
+        <button onClick={onDone} className="ml-1 text-xs font-semibold text-white bg-indigo-600 hover:bg-indigo-700 px-3 py-1.5 rounded-lg flex items-center gap-1">
+          <Check className="w-3.5 h-3.5" /> Done
+        </button>
+      </div>
+    </div>
+  );
+};
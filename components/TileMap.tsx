@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MapPin } from 'lucide-react';
+import type { LatLng } from '../types';
+
+// --- Tile Map ---
+//
+// A static OpenStreetMap view that plots the given pins. Small enough not to
+// need a map library: it fits the pins, draws the tiles under them and maps
+// clicks back to coordinates.
+
+const TILE_SIZE = 256;
+const MIN_ZOOM = 2;
+const MAX_ZOOM = 16;
+const FIT_PADDING = 48;
+
+export interface MapPoint {
+  id: string;
+  position: LatLng;
+  label: string;
+}
+
+interface TileMapProps {
+  pins: MapPoint[];
+  home?: LatLng | null;
+  view?: { center: LatLng, zoom: number }; // fixed view; otherwise fits the pins and home
+  selectedId?: string | null;
+  onPinClick?: (id: string) => void;
+  onMapClick?: (point: LatLng) => void;
+  className?: string;
+}
+
+const project = ({ lat, lng }: LatLng, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((Math.max(-85, Math.min(85, lat)) * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+const unproject = (x: number, y: number, zoom: number): LatLng => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  return { lat: (180 / Math.PI) * Math.atan(Math.sinh(n)), lng: (x / scale) * 360 - 180 };
+};
+
+// Highest zoom at which every point fits, and the middle of their extent.
+const fitView = (points: LatLng[], width: number, height: number) => {
+  if (points.length === 0) return { center: { lat: 20, lng: 0 }, zoom: MIN_ZOOM };
+  if (points.length === 1) return { center: points[0], zoom: 14 };
+  for (let zoom = MAX_ZOOM; zoom > MIN_ZOOM; zoom--) {
+    const px = points.map((p) => project(p, zoom));
+    const xs = px.map((p) => p.x);
+    const ys = px.map((p) => p.y);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    if (maxX - minX <= width - FIT_PADDING * 2 && maxY - minY <= height - FIT_PADDING * 2) {
+      return { center: unproject((minX + maxX) / 2, (minY + maxY) / 2, zoom), zoom };
+    }
+  }
+  return { center: points[0], zoom: MIN_ZOOM };
+};
+
+export const TileMap: React.FC<TileMapProps> = ({ pins, home, view, selectedId, onPinClick, onMapClick, className = 'h-64' }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 360, height: 256 });
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      if (width > 0 && height > 0) setSize({ width, height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const { center, zoom } = view || fitView([...pins.map((p) => p.position), ...(home ? [home] : [])], size.width, size.height);
+  const middle = project(center, zoom);
+  const originX = middle.x - size.width / 2;
+  const originY = middle.y - size.height / 2;
+  const tileCount = 2 ** zoom;
+
+  const tiles: { key: string, src: string, left: number, top: number }[] = [];
+  for (let ty = Math.floor(originY / TILE_SIZE); ty <= Math.floor((originY + size.height) / TILE_SIZE); ty++) {
+    if (ty < 0 || ty >= tileCount) continue;
+    for (let tx = Math.floor(originX / TILE_SIZE); tx <= Math.floor((originX + size.width) / TILE_SIZE); tx++) {
+      const wrapped = ((tx % tileCount) + tileCount) % tileCount;
+      tiles.push({
+        key: `${tx}-${ty}`,
+        src: `https://tile.openstreetmap.org/${zoom}/${wrapped}/${ty}.png`,
+        left: tx * TILE_SIZE - originX,
+        top: ty * TILE_SIZE - originY,
+      });
+    }
+  }
+
+  const toScreen = (p: LatLng) => {
+    const { x, y } = project(p, zoom);
+    return { left: x - originX, top: y - originY };
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onMapClick) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onMapClick(unproject(originX + e.clientX - rect.left, originY + e.clientY - rect.top, zoom));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onClick={handleClick}
+      className={`relative overflow-hidden rounded-xl border border-slate-200 bg-slate-100 ${onMapClick ? 'cursor-crosshair' : ''} ${className}`}
+    >
+      {tiles.map((t) => (
+        <img key={t.key} src={t.src} alt="" draggable={false} className="absolute max-w-none select-none" style={{ left: t.left, top: t.top, width: TILE_SIZE, height: TILE_SIZE }} />
+      ))}
+
+      {home && (
+        <div className="absolute w-3.5 h-3.5 -translate-x-1/2 -translate-y-1/2 bg-blue-500 border-2 border-white rounded-full shadow ring-4 ring-blue-500/20" style={toScreen(home)} title="Search location" />
+      )}
+
+      {pins.map((pin) => (
+        <button
+          key={pin.id}
+          title={pin.label}
+          onClick={(e) => {
+            e.stopPropagation();
+            onPinClick?.(pin.id);
+          }}
+          className="absolute -translate-x-1/2 -translate-y-full"
+          style={toScreen(pin.position)}
+        >
+          <MapPin className={`drop-shadow ${pin.id === selectedId ? 'w-8 h-8 text-indigo-600 fill-indigo-100' : 'w-6 h-6 text-red-500 fill-white'}`} />
+        </button>
+      ))}
+
+      <a
+        href="https://www.openstreetmap.org/copyright"
+        target="_blank"
+        rel="noreferrer"
+        onClick={(e) => e.stopPropagation()}
+        className="absolute bottom-0 right-0 bg-white/80 px-1.5 py-0.5 text-[10px] text-slate-600"
+      >
+        © OpenStreetMap contributors
+      </a>
+    </div>
+  );
+};
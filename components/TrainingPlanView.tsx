@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { CalendarDays, CalendarPlus, Clock, RefreshCw, ShieldAlert, Youtube } from 'lucide-react';
+import { Card } from './ui';
+import { TimestampChip } from './AnalysisReport';
+import { PLAN_SESSIONS_PER_WEEK, PLAN_WEEKS, PlanOptions, buildTrainingPlan, planProgress, planToIcs, progressKey, toDateString, toggleProgress } from '../services/trainingPlan';
+import { downloadBlob, slugify } from '../utils/download';
+import type { AnalysisResult, PlanSession, TrainingPlan } from '../types';
+
+const SESSION_LENGTHS = [30, 45, 60, 90];
+
+const formatDay = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+};
+
+const tomorrow = () => {
+  const d = new Date();
+  d.setDate(d.getDate() + 1);
+  return toDateString(d);
+};
+
+// --- Plan Builder ---
+
+const PlanBuilder: React.FC<{ onBuild: (options: PlanOptions) => void, onCancel?: () => void }> = ({ onBuild, onCancel }) => {
+  const [options, setOptions] = useState<PlanOptions>({ weeks: 4, sessionsPerWeek: 3, startDate: tomorrow(), startTime: '18:00', minutes: 60 });
+  const set = (patch: Partial<PlanOptions>) => setOptions((prev) => ({ ...prev, ...patch }));
+  const field = 'w-full text-sm px-3 py-2 rounded-lg border border-slate-200 bg-white focus:outline-none focus:border-indigo-400';
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onBuild(options);
+      }}
+      className="space-y-3"
+    >
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-xs font-semibold text-slate-500 space-y-1">
+          <span>Length</span>
+          <select value={options.weeks} onChange={(e) => set({ weeks: Number(e.target.value) })} className={field}>
+            {PLAN_WEEKS.map((w) => <option key={w} value={w}>{w} weeks</option>)}
+          </select>
+        </label>
+        <label className="text-xs font-semibold text-slate-500 space-y-1">
+          <span>Sessions per week</span>
+          <select value={options.sessionsPerWeek} onChange={(e) => set({ sessionsPerWeek: Number(e.target.value) })} className={field}>
+            {PLAN_SESSIONS_PER_WEEK.map((n) => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="text-xs font-semibold text-slate-500 space-y-1">
+          <span>Starting</span>
+          <input type="date" required value={options.startDate} onChange={(e) => set({ startDate: e.target.value })} className={field} />
+        </label>
+        <label className="text-xs font-semibold text-slate-500 space-y-1">
+          <span>Time</span>
+          <div className="flex gap-2">
+            <input type="time" required value={options.startTime} onChange={(e) => set({ startTime: e.target.value })} className={field} />
+            <select value={options.minutes} onChange={(e) => set({ minutes: Number(e.target.value) })} className={field}>
+              {SESSION_LENGTHS.map((m) => <option key={m} value={m}>{m} min</option>)}
+            </select>
+          </div>
+        </label>
+      </div>
+      <div className="flex gap-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg">Cancel</button>
+        )}
+        <button type="submit" className="flex-1 py-2 text-sm font-semibold text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg">Build my plan</button>
+      </div>
+    </form>
+  );
+};
+
+// --- Plan Session ---
+
+const SessionItem: React.FC<{ session: PlanSession, plan: TrainingPlan, onToggle: (key: string) => void, onSeek?: (time: number) => void }> = ({ session, plan, onToggle, onSeek }) => {
+  const done = session.drills.filter((d) => plan.completed.includes(progressKey(session, d))).length;
+
+  return (
+    <div className="p-3 rounded-xl border border-slate-200 bg-slate-50/50">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-xs font-bold text-slate-700">{formatDay(session.date)}</span>
+        <span className={`text-[11px] font-semibold ${done === session.drills.length ? 'text-emerald-600' : 'text-slate-400'}`}>{done}/{session.drills.length}</span>
+      </div>
+      <ul className="space-y-2.5">
+        {session.drills.map((drill) => {
+          const key = progressKey(session, drill);
+          const checked = plan.completed.includes(key);
+          return (
+            <li key={drill.id} className="flex gap-2.5">
+              <input type="checkbox" checked={checked} onChange={() => onToggle(key)} className="mt-0.5 w-4 h-4 accent-emerald-600 shrink-0" />
+              <div className="min-w-0 flex-1">
+                <p className={`text-sm font-semibold ${checked ? 'text-slate-400 line-through' : 'text-slate-900'}`}>{drill.name}</p>
+                <p className="text-xs text-slate-500 flex items-center gap-1"><Clock className="w-3 h-3" /> {drill.repsOrDuration}</p>
+                {drill.caution && (
+                  <p className="mt-1 text-[11px] text-amber-700 flex items-center gap-1" title={drill.caution}>
+                    <ShieldAlert className="w-3 h-3 shrink-0" /> <span className="truncate">{drill.caution}</span>
+                  </p>
+                )}
+                {drill.target && (
+                  <div className="flex flex-wrap items-center gap-1.5 mt-1 text-[11px] text-slate-500">
+                    <span>Targets {drill.target.bodyPart.toLowerCase()} ({drill.target.strokePhase})</span>
+                    <TimestampChip start={drill.target.startTime} end={drill.target.endTime} onSeek={onSeek} />
+                  </div>
+                )}
+                {drill.video && (
+                  <a href={drill.video.uri} target="_blank" rel="noreferrer" className="mt-1 text-[11px] font-semibold text-red-600 hover:text-red-700 flex items-center gap-1 min-w-0">
+                    <Youtube className="w-3 h-3 shrink-0" /> <span className="truncate">{drill.video.title}</span>
+                  </a>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+// --- Training Plan ---
+
+interface TrainingPlanViewProps {
+  result: AnalysisResult;
+  plan: TrainingPlan | null;
+  title: string; // calendar event prefix, e.g. "Tennis practice"
+  onChange: (plan: TrainingPlan) => void;
+  onSeek?: (time: number) => void;
+}
+
+export const TrainingPlanView: React.FC<TrainingPlanViewProps> = ({ result, plan, title, onChange, onSeek }) => {
+  const [rebuilding, setRebuilding] = useState(false);
+
+  const build = (options: PlanOptions) => {
+    onChange(buildTrainingPlan(result, options));
+    setRebuilding(false);
+  };
+
+  const exportCalendar = () => {
+    if (!plan) return;
+    downloadBlob(new Blob([planToIcs(plan, title)], { type: 'text/calendar' }), `${slugify(title)}-plan.ics`);
+  };
+
+  const progress = plan && planProgress(plan);
+  const weeks = plan ? [...new Set(plan.sessions.map((s) => s.week))] : [];
+
+  return (
+    <Card className="p-5 border-l-4 border-l-emerald-500">
+      <div className="flex items-center gap-3 mb-4 border-b border-slate-100 pb-3">
+        <div className="p-2 rounded-lg bg-emerald-50">
+          <CalendarDays className="w-5 h-5 text-emerald-600" />
+        </div>
+        <h2 className="text-lg font-bold text-slate-900 flex-1">Training Plan</h2>
+        {plan && !rebuilding && (
+          <div className="flex gap-1">
+            <button onClick={exportCalendar} title="Add to calendar (.ics)" className="p-2 text-slate-500 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg">
+              <CalendarPlus className="w-4 h-4" />
+            </button>
+            <button onClick={() => setRebuilding(true)} title="Build a new plan" className="p-2 text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded-lg">
+              <RefreshCw className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {result.drills.length === 0 ? (
+        <p className="text-sm text-slate-500">A plan needs drills from the analysis, and this one has none.</p>
+      ) : !plan || rebuilding ? (
+        <>
+          <p className="text-sm text-slate-600 mb-4">
+            {rebuilding
+              ? 'Building a new plan replaces the current one and its progress.'
+              : 'Turn these drills into a practice schedule. Drills for the most serious issues come up most often.'}
+          </p>
+          <PlanBuilder onBuild={build} onCancel={rebuilding ? () => setRebuilding(false) : undefined} />
+        </>
+      ) : (
+        <div className="space-y-5">
+          <div>
+            <div className="flex justify-between text-xs font-semibold text-slate-500 mb-1">
+              <span>{plan.weeks} weeks · {plan.sessionsPerWeek}× per week</span>
+              <span>{progress!.done}/{progress!.total} drills done</span>
+            </div>
+            <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div className="h-full bg-emerald-500 rounded-full transition-all" style={{ width: `${(progress!.done / Math.max(1, progress!.total)) * 100}%` }} />
+            </div>
+          </div>
+
+          {weeks.map((week) => (
+            <div key={week}>
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Week {week}</h3>
+              <div className="space-y-2">
+                {plan.sessions.filter((s) => s.week === week).map((session) => (
+                  <SessionItem key={session.id} session={session} plan={plan} onToggle={(key) => onChange(toggleProgress(plan, key))} onSeek={onSeek} />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useRef } from 'react';
+import { ChevronLeft, ChevronRight, Repeat, Scissors, Images, Film } from 'lucide-react';
+import { FRAME_STEP, TrimRange, effectiveFps, formatFps, sampledFrameCount } from '../services/clipPrep';
+import { formatTimestamp } from '../utils/time';
+
+export type InputMode = 'video' | 'frames';
+
+const FPS_OPTIONS = [1, 2, 4, 8];
+
+interface TrimControlsProps {
+  duration: number;
+  currentTime: number;
+  range: TrimRange;
+  onRangeChange: (range: TrimRange) => void;
+  onSeek: (time: number) => void;
+  loopRegion: boolean;
+  onLoopChange: (loop: boolean) => void;
+  inputMode: InputMode;
+  onInputModeChange: (mode: InputMode) => void;
+  sampleFps: number;
+  onSampleFpsChange: (fps: number) => void;
+}
+
+export const TrimControls: React.FC<TrimControlsProps> = ({
+  duration, currentTime, range, onRangeChange, onSeek,
+  loopRegion, onLoopChange, inputMode, onInputModeChange, sampleFps, onSampleFpsChange,
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const pct = (t: number) => (duration > 0 ? (t / duration) * 100 : 0);
+  const minSpan = Math.min(0.5, duration);
+
+  const timeFromPointer = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect) return 0;
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const setIn = (t: number) => onRangeChange({ start: Math.max(0, Math.min(t, range.end - minSpan)), end: range.end });
+  const setOut = (t: number) => onRangeChange({ start: range.start, end: Math.min(duration, Math.max(t, range.start + minSpan)) });
+
+  const startDrag = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    e.stopPropagation();
+  };
+
+  const moveHandle = (which: 'in' | 'out') => (e: React.PointerEvent) => {
+    if (e.buttons !== 1) return;
+    const t = timeFromPointer(e.clientX);
+    which === 'in' ? setIn(t) : setOut(t);
+    onSeek(t);
+  };
+
+  const step = (dir: 1 | -1) => onSeek(Math.min(duration, Math.max(0, currentTime + dir * FRAME_STEP)));
+  const frameCount = sampledFrameCount(range, sampleFps);
+  const actualFps = effectiveFps(range, sampleFps);
+
+  if (duration <= 0) return null;
+
+  return (
+    <div className="mt-4 p-4 bg-white rounded-xl border border-slate-200 shadow-sm space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-1.5">
+          <Scissors className="w-3.5 h-3.5" /> Select Stroke
+        </h3>
+        <span className="text-xs font-mono text-slate-500">
+          {formatTimestamp(range.start)} – {formatTimestamp(range.end)} ({(range.end - range.start).toFixed(1)}s)
+        </span>
+      </div>
+
+      {/* Trim Track */}
+      <div ref={trackRef} className="relative h-8 touch-none">
+        <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-2 bg-slate-200 rounded-full" />
+        <div
+          className="absolute top-1/2 -translate-y-1/2 h-2 bg-indigo-300 rounded-full"
+          style={{ left: `${pct(range.start)}%`, width: `${pct(range.end - range.start)}%` }}
+        />
+        <div className="absolute top-0 bottom-0 w-0.5 bg-slate-900 pointer-events-none" style={{ left: `${pct(currentTime)}%` }} />
+        {(['in', 'out'] as const).map((which) => (
+          <div
+            key={which}
+            onPointerDown={startDrag}
+            onPointerMove={moveHandle(which)}
+            className="absolute top-0 bottom-0 w-3 -translate-x-1/2 bg-indigo-600 rounded cursor-ew-resize shadow"
+            style={{ left: `${pct(which === 'in' ? range.start : range.end)}%` }}
+            title={which === 'in' ? 'In point' : 'Out point'}
+          />
+        ))}
+      </div>
+
+      {/* Transport */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => step(-1)} className="p-2 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-700" title="Previous frame">
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <button onClick={() => step(1)} className="p-2 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-700" title="Next frame">
+          <ChevronRight className="w-4 h-4" />
+        </button>
+        <button onClick={() => setIn(currentTime)} className="px-3 py-2 rounded-lg bg-slate-100 hover:bg-slate-200 text-xs font-semibold text-slate-700">Set In</button>
+        <button onClick={() => setOut(currentTime)} className="px-3 py-2 rounded-lg bg-slate-100 hover:bg-slate-200 text-xs font-semibold text-slate-700">Set Out</button>
+        <button
+          onClick={() => onLoopChange(!loopRegion)}
+          className={`ml-auto px-3 py-2 rounded-lg text-xs font-semibold flex items-center gap-1 transition-colors ${loopRegion ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+        >
+          <Repeat className="w-3.5 h-3.5" /> Loop
+        </button>
+      </div>
+
+      {/* Send Mode */}
+      <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-slate-100">
+        <div className="flex bg-slate-200 rounded-lg p-1 gap-1">
+          <button
+            onClick={() => onInputModeChange('video')}
+            className={`px-2 py-1 rounded-md text-xs font-semibold flex items-center gap-1 transition-all ${inputMode === 'video' ? 'bg-white shadow text-indigo-600' : 'text-slate-500'}`}
+          >
+            <Film className="w-3.5 h-3.5" /> Video
+          </button>
+          <button
+            onClick={() => onInputModeChange('frames')}
+            className={`px-2 py-1 rounded-md text-xs font-semibold flex items-center gap-1 transition-all ${inputMode === 'frames' ? 'bg-white shadow text-indigo-600' : 'text-slate-500'}`}
+          >
+            <Images className="w-3.5 h-3.5" /> Keyframes
+          </button>
+        </div>
+        {inputMode === 'frames' && (
+          <>
+            <select
+              value={sampleFps}
+              onChange={(e) => onSampleFpsChange(Number(e.target.value))}
+              className="text-xs font-semibold bg-slate-100 rounded-lg px-2 py-1.5 text-slate-700"
+            >
+              {FPS_OPTIONS.map((fps) => <option key={fps} value={fps}>{fps} fps</option>)}
+            </select>
+            <span className="text-xs text-slate-500">
+              {frameCount} frames{actualFps < sampleFps && ` (max reached, ${formatFps(actualFps)} fps)`}
+            </span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
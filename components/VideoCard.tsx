@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Bookmark, BookmarkCheck, ExternalLink, Play, TriangleAlert, X, Youtube } from 'lucide-react';
+import { cachedVideoMeta, remoteThumbnail, resolveVideoMeta, youTubeVideoId } from '../services/videoMeta';
+
+// Search titles YouTube results with just the domain
+const isGenericTitle = (title?: string) => !title?.trim() || title.trim().toLowerCase() === 'youtube.com';
+
+interface VideoCardProps {
+  uri: string;
+  title?: string;
+  saved?: boolean;
+  onToggleSave?: (video: { uri: string, title: string }) => void;
+}
+
+export const VideoCard: React.FC<VideoCardProps> = ({ uri, title, saved, onToggleSave }) => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [meta, setMeta] = useState(() => cachedVideoMeta(uri, title));
+  const videoId = youTubeVideoId(uri) || meta?.videoId;
+
+  useEffect(() => {
+    let cancelled = false;
+    setMeta(cachedVideoMeta(uri, title));
+    resolveVideoMeta(uri, title).then((resolved) => !cancelled && resolved && setMeta(resolved));
+    return () => {
+      cancelled = true;
+    };
+  }, [uri, title]);
+
+  const status = meta?.status;
+  const displayTitle = meta?.title || (isGenericTitle(title) ? 'Instructional Drill Video' : title!);
+  const playable = Boolean(videoId) && status !== 'broken';
+
+  if (isPlaying && playable) {
+    return (
+      <div className="bg-black rounded-xl overflow-hidden shadow-md aspect-video relative group">
+        <iframe
+          width="100%"
+          height="100%"
+          src={`https://www.youtube.com/embed/${videoId}?autoplay=1`}
+          title={displayTitle}
+          frameBorder="0"
+          allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+          allowFullScreen
+          className="w-full h-full"
+        ></iframe>
+        <button
+          onClick={() => setIsPlaying(false)}
+          className="absolute top-2 right-2 p-1.5 bg-black/50 hover:bg-black/80 text-white rounded-full backdrop-blur-sm opacity-0 group-hover:opacity-100 transition-opacity"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      onClick={() => playable ? setIsPlaying(true) : window.open(uri, '_blank')}
+      className={`flex items-start gap-4 p-3 bg-white rounded-xl border shadow-sm active:bg-slate-50 transition-colors cursor-pointer group ${status === 'broken' ? 'border-red-100' : 'border-slate-200'}`}
+    >
+      <div className="w-28 h-20 bg-slate-100 rounded-lg shrink-0 flex items-center justify-center relative overflow-hidden">
+         {/* Cached thumbnail first, so the card renders offline */}
+         {playable ? (
+            <img
+              src={meta?.thumbnail || remoteThumbnail(videoId!)}
+              className="w-full h-full object-cover"
+              alt="Video thumbnail"
+            />
+         ) : status === 'broken' ? (
+            <TriangleAlert className="w-7 h-7 text-red-300" />
+         ) : status === 'external' ? (
+            <ExternalLink className="w-7 h-7 text-slate-300" />
+         ) : (
+            <Youtube className="w-7 h-7 text-slate-300" />
+         )}
+         {playable && (
+           <div className="absolute inset-0 flex items-center justify-center bg-black/10 group-hover:bg-black/30 transition-colors">
+             <div className="w-8 h-8 bg-red-600 rounded-full flex items-center justify-center shadow-sm group-hover:scale-110 transition-transform">
+                <Play className="w-4 h-4 fill-white text-white ml-0.5" />
+             </div>
+           </div>
+         )}
+      </div>
+      <div className="flex-1 min-w-0 py-1">
+        <h4 className="font-semibold text-sm text-slate-900 line-clamp-2 leading-snug mb-1">{displayTitle}</h4>
+        {status === 'broken' ? (
+          <div className="flex items-center gap-1 text-xs text-red-600">
+            <TriangleAlert className="w-3 h-3" />
+            <span className="truncate">Video unavailable</span>
+          </div>
+        ) : status === 'external' ? (
+          <div className="flex items-center gap-1 text-xs text-slate-500">
+            <ExternalLink className="w-3 h-3" />
+            <span className="truncate">Not a YouTube link, opens in a new tab</span>
+          </div>
+        ) : (
+          <div className="flex items-center gap-1 text-xs text-slate-500">
+            <Youtube className="w-3 h-3" />
+            <span className="truncate">{meta?.author || 'Tap to Watch'}</span>
+          </div>
+        )}
+      </div>
+      {onToggleSave && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleSave({ uri, title: displayTitle });
+          }}
+          title={saved ? 'Remove from library' : 'Save to library'}
+          className={`p-1.5 rounded-full shrink-0 transition-colors ${saved ? 'text-indigo-600 bg-indigo-50' : 'text-slate-400 hover:text-indigo-600 hover:bg-slate-100'}`}
+        >
+          {saved ? <BookmarkCheck className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+
+export const TabButton = ({ active, onClick, icon: Icon, label }: any) => (
+  <button
+    onClick={onClick}
+    className={`flex-1 py-3 px-2 flex flex-col items-center justify-center gap-1 text-xs font-semibold transition-all border-b-2 ${
+      active
+        ? 'border-indigo-600 text-indigo-600 bg-indigo-50/50'
+        : 'border-transparent text-slate-500 hover:text-slate-700 hover:bg-slate-100'
+    }`}
+  >
+    <Icon className={`w-5 h-5 ${active ? 'stroke-2' : 'stroke-1.5'}`} />
+    {label}
+  </button>
+);
+
+export const Card: React.FC<{ children?: React.ReactNode, className?: string }> = ({ children, className = "" }) => (
+  <div className={`bg-white border border-slate-200 shadow-sm rounded-2xl overflow-hidden ${className}`}>
+    {children}
+  </div>
+);
@@ -0,0 +1,178 @@
+import type { Coach } from '../types';
+
+// --- Coach Directory Data ---
+//
+// Local stand-in for the coach directory service. Shaped exactly like the
+// records the API will return, so services/coachDirectory.ts can switch
+// to fetching them without touching the UI.
+
+const avatar = (seed: string, bg: string) => `https://api.dicebear.com/7.x/avataaars/svg?seed=${seed}&backgroundColor=${bg}`;
+
+export const COACHES: Coach[] = [
+  {
+    id: 'coach-sarah-jenkins',
+    name: 'Sarah Jenkins',
+    title: 'Elite Performance Coach',
+    sport: 'Tennis',
+    certifications: ['PTR Professional', 'USPTA Elite'],
+    specialties: ['Technique', 'Forehand', 'Backhand', 'Strategy'],
+    priceRange: { min: 90, max: 140, currency: 'USD' },
+    location: { name: 'Metro Sports Center', lat: 37.7858, lng: -122.4064 },
+    availability: [
+      { day: 'Tue', from: '16:00', to: '20:00' },
+      { day: 'Thu', from: '16:00', to: '20:00' },
+      { day: 'Sat', from: '08:00', to: '12:00' },
+    ],
+    rating: 4.9,
+    reviews: 124,
+    verified: true,
+    image: avatar('Sarah', 'b6e3f4'),
+  },
+  {
+    id: 'coach-mike-ross',
+    name: 'Mike Ross',
+    title: 'USPTA Certified Pro',
+    sport: 'Tennis',
+    certifications: ['USPTA Professional'],
+    specialties: ['Footwork', 'Beginners', 'Fitness'],
+    priceRange: { min: 60, max: 85, currency: 'USD' },
+    location: { name: 'City Courts Academy', lat: 37.7694, lng: -122.4862 },
+    availability: [
+      { day: 'Mon', from: '07:00', to: '11:00' },
+      { day: 'Wed', from: '17:00', to: '21:00' },
+      { day: 'Sun', from: '09:00', to: '13:00' },
+    ],
+    rating: 4.8,
+    reviews: 89,
+    verified: true,
+    image: avatar('Mike', 'c0aede'),
+  },
+  {
+    id: 'coach-david-chen',
+    name: 'David Chen',
+    title: 'High Performance Director',
+    sport: 'Tennis',
+    certifications: ['ITF Level 3', 'USTA High Performance'],
+    specialties: ['Serve', 'Competition', 'Strategy'],
+    priceRange: { min: 150, max: 220, currency: 'USD' },
+    location: { name: 'Westside Club', lat: 37.7405, lng: -122.4662 },
+    availability: [
+      { day: 'Fri', from: '14:00', to: '19:00' },
+      { day: 'Sat', from: '13:00', to: '18:00' },
+    ],
+    rating: 5.0,
+    reviews: 215,
+    verified: true,
+    image: avatar('David', 'ffdfbf'),
+  },
+  {
+    id: 'coach-ana-ruiz',
+    name: 'Ana Ruiz',
+    title: 'Junior & Adult Development Coach',
+    sport: 'Tennis',
+    certifications: ['PTR Performance'],
+    specialties: ['Volley', 'Net Play', 'Beginners'],
+    priceRange: { min: 55, max: 75, currency: 'USD' },
+    location: { name: 'Golden Gate Park Courts', lat: 37.7702, lng: -122.4589 },
+    availability: [
+      { day: 'Sat', from: '09:00', to: '15:00' },
+      { day: 'Sun', from: '09:00', to: '15:00' },
+    ],
+    rating: 4.6,
+    reviews: 41,
+    verified: false,
+    image: avatar('Ana', 'd1f4d9'),
+  },
+  {
+    id: 'coach-tom-becker',
+    name: 'Tom Becker',
+    title: 'Pickleball Head Pro',
+    sport: 'Pickleball',
+    certifications: ['PPR Certified', 'IPTPA Level 2'],
+    specialties: ['Dinks', 'Third-shot Drop', 'Strategy'],
+    priceRange: { min: 50, max: 70, currency: 'USD' },
+    location: { name: 'Mission Rec Center', lat: 37.7599, lng: -122.4148 },
+    availability: [
+      { day: 'Mon', from: '17:00', to: '20:00' },
+      { day: 'Wed', from: '17:00', to: '20:00' },
+      { day: 'Sat', from: '08:00', to: '11:00' },
+    ],
+    rating: 4.9,
+    reviews: 73,
+    verified: true,
+    image: avatar('Tom', 'ffd5dc'),
+  },
+  {
+    id: 'coach-lisa-park',
+    name: 'Lisa Park',
+    title: 'Pickleball Skills Coach',
+    sport: 'Pickleball',
+    certifications: ['IPTPA Level 1'],
+    specialties: ['Footwork', 'Beginners', 'Serve'],
+    priceRange: { min: 40, max: 55, currency: 'USD' },
+    location: { name: 'Presidio Wall Courts', lat: 37.7887, lng: -122.4467 },
+    availability: [
+      { day: 'Tue', from: '08:00', to: '12:00' },
+      { day: 'Thu', from: '08:00', to: '12:00' },
+    ],
+    rating: 4.7,
+    reviews: 38,
+    verified: true,
+    image: avatar('Lisa', 'b6e3f4'),
+  },
+  {
+    id: 'coach-javier-morales',
+    name: 'Javier Morales',
+    title: 'Padel Coach',
+    sport: 'Padel',
+    certifications: ['FEP Monitor Nacional'],
+    specialties: ['Wall Play', 'Bandeja', 'Volley', 'Strategy'],
+    priceRange: { min: 70, max: 95, currency: 'USD' },
+    location: { name: 'Bay Padel Club', lat: 37.7765, lng: -122.3942 },
+    availability: [
+      { day: 'Wed', from: '18:00', to: '22:00' },
+      { day: 'Sun', from: '10:00', to: '16:00' },
+    ],
+    rating: 4.8,
+    reviews: 52,
+    verified: true,
+    image: avatar('Javier', 'c0aede'),
+  },
+  {
+    id: 'coach-mei-tan',
+    name: 'Mei Tan',
+    title: 'Badminton Performance Coach',
+    sport: 'Badminton',
+    certifications: ['BWF Level 2'],
+    specialties: ['Footwork', 'Smash', 'Net Play', 'Competition'],
+    priceRange: { min: 55, max: 80, currency: 'USD' },
+    location: { name: 'Sunset Badminton Hall', lat: 37.7528, lng: -122.4945 },
+    availability: [
+      { day: 'Tue', from: '18:00', to: '21:00' },
+      { day: 'Fri', from: '18:00', to: '21:00' },
+      { day: 'Sat', from: '10:00', to: '14:00' },
+    ],
+    rating: 4.9,
+    reviews: 67,
+    verified: true,
+    image: avatar('Mei', 'ffdfbf'),
+  },
+  {
+    id: 'coach-omar-haddad',
+    name: 'Omar Haddad',
+    title: 'Squash Professional',
+    sport: 'Squash',
+    certifications: ['US Squash Level 2'],
+    specialties: ['Footwork', 'Technique', 'Fitness'],
+    priceRange: { min: 65, max: 90, currency: 'USD' },
+    location: { name: 'Embarcadero Squash Club', lat: 37.7946, lng: -122.3999 },
+    availability: [
+      { day: 'Mon', from: '06:00', to: '09:00' },
+      { day: 'Thu', from: '17:00', to: '21:00' },
+    ],
+    rating: 4.7,
+    reviews: 29,
+    verified: false,
+    image: avatar('Omar', 'd1f4d9'),
+  },
+];
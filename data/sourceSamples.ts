@@ -0,0 +1,109 @@
+import { SourceOutcome, classifyPlaces, classifyResources } from '../services/sourceClassifier';
+import { getSport } from '../services/sports';
+import type { SourceDecision } from '../types';
+
+// --- Recorded Grounding Payloads ---
+//
+// Grounding chunks as Search and Maps returned them, trimmed to the fields
+// the classifier reads. Each sample lists where every chunk should end up,
+// in order, so the Sources panel can replay it and flag any chunk whose
+// decision changed after a rule edit, and the classifier tests fail on it.
+// Add a sample whenever a real payload is sorted wrongly.
+
+export interface SourceSample {
+  id: string;
+  label: string;
+  sport: string;
+  batches: { origin: SourceDecision['origin'], chunks: any[] }[];
+  expected: SourceOutcome[];
+}
+
+const redirect = (token: string) => `https://vertexaisearch.cloud.google.com/grounding-api-redirect/${token}`;
+
+export const SOURCE_SAMPLES: SourceSample[] = [
+  {
+    id: 'tennis-redirects',
+    label: 'Tennis search, redirect links',
+    sport: 'Tennis',
+    batches: [
+      {
+        origin: 'analysis',
+        chunks: [
+          { web: { uri: redirect('AUZIYQE1pX0rT9mWq3'), title: 'youtube.com' } },
+          { web: { uri: redirect('AUZIYQF7kLm2Vb8nYs'), title: 'youtube.com - Tennis forehand: contact point in front' } },
+          { web: { uri: redirect('AUZIYQG2cDq5Zr1hJe'), title: 'tennis-warehouse.com' } },
+        ],
+      },
+      {
+        origin: 'search',
+        chunks: [
+          { web: { uri: redirect('AUZIYQH9sWe4Tn6uPa'), title: 'youtube.com - Tennis forehand: contact point in front' } },
+          { web: { uri: redirect('AUZIYQJ4fGh7Kd2xLo'), title: 'youtube.com' } },
+          { web: { uri: redirect('AUZIYQK1bNv8Mc3zQi'), title: 'uspta.com' } },
+          { web: { uri: redirect('AUZIYQL5rTy9Pw4aSd'), title: 'bayareatennisacademy.com' } },
+          { web: { uri: redirect('AUZIYQM3hJk1Lx5cVb'), title: 'en.wikipedia.org' } },
+          { web: { uri: redirect('AUZIYQN8gFd6Sa7eRt'), title: 'cityparkstennis.com' } },
+          { web: { uri: redirect('AUZIYQP2qWe3Rt8yUi'), title: 'dickssportinggoods.com' } },
+          { web: { uri: redirect('AUZIYQR6zXc9Vb1nMl'), title: 'Private Tennis Lessons | Riverside Racquet Club' } },
+        ],
+      },
+    ],
+    expected: ['video', 'video', 'excluded', 'duplicate', 'video', 'coach', 'coach', 'excluded', 'excluded', 'excluded', 'coach'],
+  },
+  {
+    id: 'pickleball-direct',
+    label: 'Pickleball search, direct links',
+    sport: 'Pickleball',
+    batches: [
+      {
+        origin: 'analysis',
+        chunks: [
+          { web: { uri: 'https://www.youtube.com/watch?v=Xq3fJr9bL2k&utm_source=gemini&t=42s', title: 'Third Shot Drop Drill for Beginners' } },
+          { web: { uri: 'https://m.youtube.com/shorts/Pd7sKe1wN4c', title: 'Stop popping up your dinks #shorts' } },
+        ],
+      },
+      {
+        origin: 'search',
+        chunks: [
+          { web: { uri: 'https://youtu.be/Xq3fJr9bL2k?si=Vn3k2LmQ', title: 'Third Shot Drop Drill for Beginners' } },
+          { web: { uri: 'https://vimeo.com/781234567', title: 'Kitchen line footwork' } },
+          { web: { uri: 'https://www.pickleballcentral.com/paddles/', title: 'Pickleball Paddles' } },
+          { web: { uri: 'https://northshorepickleball.org/lessons/', title: 'North Shore Pickleball' } },
+          { web: { uri: 'https://northshorepickleball.org/lessons?utm_campaign=spring#book', title: 'North Shore Pickleball' } },
+          { web: { uri: 'https://www.reddit.com/r/Pickleball/comments/1abcde/third_shot_drop_tips/', title: 'Third shot drop tips' } },
+          { web: { uri: 'https://maps.google.com/?cid=7431185520932811', title: 'Lakeview Pickleball Courts' } },
+          { web: { uri: 'https://www.dinkmasterspickleball.com/blog/how-to-hit-a-drop-shot', title: 'How to hit a drop shot' } },
+        ],
+      },
+    ],
+    expected: ['video', 'video', 'duplicate', 'video', 'excluded', 'coach', 'duplicate', 'excluded', 'excluded', 'video'],
+  },
+  {
+    id: 'tennis-places',
+    label: 'Tennis courts, Maps grounding',
+    sport: 'Tennis',
+    batches: [
+      {
+        origin: 'places',
+        chunks: [
+          { maps: { uri: 'https://maps.google.com/?cid=1208841907266617', title: 'Golden Gate Park Tennis Center', placeId: 'ChIJ0Ri4lUWHhYARsq5hQdP0c2Q' } },
+          { maps: { uri: 'https://maps.google.com/?cid=9921540913347788', title: 'Mission Dolores Park Courts', placeId: 'ChIJ8b4U7hh-j4ARbP6ZMgdA8Oo' } },
+          { maps: { uri: 'https://maps.google.com/?cid=4468120391827741', title: 'Tennis Warehouse Outlet Store', placeId: 'ChIJq6qqqiB-j4AR3W0bMX9nz1A' } },
+          { maps: { uri: 'https://maps.google.com/?cid=1208841907266617&hl=en', title: 'Golden Gate Park Tennis Center', placeId: 'ChIJ0Ri4lUWHhYARsq5hQdP0c2Q' } },
+          { web: { uri: 'https://www.google.com/maps/place/?q=place_id:ChIJ2eUgeAK6j4ARbn5u_wAGqWA', title: 'Alice Marble Tennis Courts' } },
+          { web: { uri: 'https://sfrecpark.org/facilities/tennis', title: 'Tennis | SF Rec & Park' } },
+        ],
+      },
+    ],
+    expected: ['place', 'place', 'excluded', 'duplicate', 'place', 'excluded'],
+  },
+];
+
+// The decisions the current rules make for a sample
+export const replaySample = (sample: SourceSample): SourceDecision[] => {
+  const rules = getSport(sample.sport).filters;
+  const list = sample.batches.every((b) => b.origin === 'places')
+    ? classifyPlaces(rules, sample.batches.flatMap((b) => b.chunks))
+    : classifyResources(rules, sample.batches);
+  return list.map((c) => c.decision);
+};
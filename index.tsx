@@ -1,193 +1,88 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI } from "@google/genai";
 import { 
   Loader2, Upload, MapPin, Youtube, User, Play, 
   CheckCircle, AlertCircle, ChevronRight, Video, 
-  Dumbbell, LayoutDashboard, Globe, Activity, Star, Verified,
-  List, Map as MapIcon, X
+  LayoutDashboard, Globe, Activity,
+  List, Map as MapIcon, X, History, ArrowLeft, TrendingUp, Columns2, PenLine, MessageCircle, Camera, UserCog, LibraryBig, ScanEye, Swords, ClipboardCheck
 } from 'lucide-react';
-
-// --- Types ---
-
-type Sport = 'Tennis' | 'Pickleball' | null;
-
-interface AnalysisResult {
-  analysisSection: string;
-  drillsSection: string;
-  videos: any[];
-  coaches: any[];
-  places: any[];
-}
-
-// --- Mock Data ---
-
-const MOCK_COACHES = [
-  {
-    name: "Sarah Jenkins",
-    title: "Elite Performance Coach",
-    rating: 4.9,
-    reviews: 124,
-    location: "Metro Sports Center",
-    tags: ["Technical", "Strategy"],
-    image: "https://api.dicebear.com/7.x/avataaars/svg?seed=Sarah&backgroundColor=b6e3f4"
-  },
-  {
-    name: "Mike Ross",
-    title: "USPTA Certified Pro",
-    rating: 4.8,
-    reviews: 89,
-    location: "City Courts Academy",
-    tags: ["Beginners", "Footwork"],
-    image: "https://api.dicebear.com/7.x/avataaars/svg?seed=Mike&backgroundColor=c0aede"
-  },
-  {
-    name: "David Chen",
-    title: "High Performance Director",
-    rating: 5.0,
-    reviews: 215,
-    location: "Westside Club",
-    tags: ["Advanced", "Competition"],
-    image: "https://api.dicebear.com/7.x/avataaars/svg?seed=David&backgroundColor=ffdfbf"
-  }
-];
+import { TabButton } from './components/ui';
+import { AnalysisReport } from './components/AnalysisReport';
+import { ScrubBar, useVideoClock } from './components/ScrubBar';
+import { InputMode, TrimControls } from './components/TrimControls';
+import { HistoryView } from './components/HistoryView';
+import { StrokePicker } from './components/StrokePicker';
+import { ProgressView } from './components/ProgressView';
+import { ComparePlayer } from './components/ComparePlayer';
+import { AnalysisProgress, INITIAL_STAGES, StageId, StageMap, StageStatus } from './components/AnalysisProgress';
+import { SectionError } from './components/SectionError';
+import { CoachDirectory } from './components/CoachDirectory';
+import { TrainingPlanView } from './components/TrainingPlanView';
+import { ReportActions } from './components/ReportActions';
+import { CoachChat } from './components/CoachChat';
+import { CameraRecorder } from './components/CameraRecorder';
+import { ProfileView } from './components/ProfileView';
+import { LibraryView } from './components/LibraryView';
+import { MatchDashboard } from './components/MatchDashboard';
+import { AthleteSelect, CoachWorkspace } from './components/CoachWorkspace';
+import { VideoCard } from './components/VideoCard';
+import { LocationPicker } from './components/LocationPicker';
+import { PlaceList } from './components/PlaceList';
+import { SourcePanel } from './components/SourcePanel';
+import { DEFAULT_DRAW_SETTINGS, DrawSettings, TelestrationOverlay, TelestrationToolbar } from './components/Telestration';
+import { SEVERITIES, StructuredAnalysis, parsePartialAnalysis, parseStructuredAnalysis, shiftAnalysisTimes } from './services/analysisSchema';
+import { aiProvider } from './services/aiProvider';
+import { ClassifiedError, classifyError, withRetry } from './services/errors';
+import { ChatMedia } from './services/coachChat';
+import { UploadProgress, hasPendingUpload } from './services/fileUpload';
+import { TrimRange, captureFrame, effectiveFps, formatFps, isTrimmed, recordSegment, sampleFrames } from './services/clipPrep';
+import { PLACE_DETAILS_INSTRUCTIONS, buildPlaces, normalizePlaces } from './services/places';
+import { UserLocation, loadSavedLocation, locateDevice, saveLocation } from './services/location';
+import { MARKS_PROMPT_NOTE, inRange, markedFrameParts } from './services/telestration';
+import { canRecord } from './services/recording';
+import { chunksOfKind, classifyPlaces, classifyResources } from './services/sourceClassifier';
+import { parseMatchAnalysis, shiftMatchTimes } from './services/matchSchema';
+import { coachStore } from './services/coachStore';
+import { createReview } from './services/coachReview';
+import { drillItem, libraryKey, loadLibrary, saveLibrary, toggleLibraryItem, videoItem } from './services/drillLibrary';
+import { flagInjuryConflicts, loadProfile, profilePrompt, profileSearchNote, saveProfile } from './services/playerProfile';
+import { createSessionId, getSession, getSessionVideo, saveSession, updateSession } from './services/sessionStore';
+import { SPORTS, SportDefinition, fillTemplate, getSport } from './services/sports';
+import type { AnalysisIssue, AnalysisResult, Annotation, Athlete, ChatMessage, Drill, LibraryItem, MatchAnalysis, PlayerProfile, SavedSession, Sport, TrainingPlan } from './types';
 
 // --- Helper: Video Processing ---
 
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const result = reader.result as string;
-      // Remove data:video/mp4;base64, prefix to get raw base64
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+// Grounding links usually go through a redirect host, which says nothing
+// about the source, so only show real hostnames.
+const hostnameOf = (url: string): string => {
+  try {
+    const host = new URL(url).hostname.replace(/^www\./, '');
+    return host.endsWith('vertexaisearch.cloud.google.com') ? 'Web result' : host;
+  } catch {
+    return 'Web result';
+  }
 };
 
-const getYouTubeVideoId = (url: string): string | null => {
-  if (!url) return null;
-  const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
-  const match = url.match(regExp);
-  return (match && match[2].length === 11) ? match[2] : null;
-};
+// --- Helper: Request Results ---
 
-// --- Components ---
-
-const TabButton = ({ active, onClick, icon: Icon, label }: any) => (
-  <button
-    onClick={onClick}
-    className={`flex-1 py-3 px-2 flex flex-col items-center justify-center gap-1 text-xs font-semibold transition-all border-b-2 ${
-      active 
-        ? 'border-indigo-600 text-indigo-600 bg-indigo-50/50' 
-        : 'border-transparent text-slate-500 hover:text-slate-700 hover:bg-slate-100'
-    }`}
-  >
-    <Icon className={`w-5 h-5 ${active ? 'stroke-2' : 'stroke-1.5'}`} />
-    {label}
-  </button>
-);
-
-const Card = ({ children, className = "" }: { children?: React.ReactNode, className?: string }) => (
-  <div className={`bg-white border border-slate-200 shadow-sm rounded-2xl overflow-hidden ${className}`}>
-    {children}
-  </div>
-);
-
-const VideoPlayerCard: React.FC<{ video: any }> = ({ video }) => {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [displayTitle, setDisplayTitle] = useState(video.web.title || "");
-  const videoId = getYouTubeVideoId(video.web.uri);
+type ResultSection = 'analysis' | 'resources' | 'places';
 
-  useEffect(() => {
-    const fetchTitle = async () => {
-      // If the title is generic (e.g. 'youtube.com') or empty, try to fetch the real title
-      const isGeneric = !displayTitle || displayTitle.toLowerCase().trim() === 'youtube.com' || displayTitle.trim() === '';
-      
-      if (videoId && isGeneric) {
-        try {
-          // Use noembed as a public oEmbed proxy to get metadata without CORS issues
-          const response = await fetch(`https://noembed.com/embed?url=https://www.youtube.com/watch?v=${videoId}`);
-          const data = await response.json();
-          if (data.title) {
-            setDisplayTitle(data.title);
-          } else {
-             setDisplayTitle("Instructional Drill Video"); 
-          }
-        } catch (error) {
-          // If fetch fails, fallback to a better generic title than 'youtube.com'
-          setDisplayTitle("Instructional Drill Video");
-        }
-      } else if (isGeneric) {
-         setDisplayTitle("Instructional Drill Video");
-      }
-    };
-    
-    fetchTitle();
-  }, [videoId, video.web.title]); 
+// Everything needed to re-run the analysis without preparing the clip again.
+interface RequestContext {
+  media: any[];
+  prompt: string;
+  strokes: string[];
+  timeOffset: number;
+  thumbTime: number;
+  profile: PlayerProfile; // as it was when the analysis ran
+}
 
-  if (isPlaying && videoId) {
-    return (
-      <div className="bg-black rounded-xl overflow-hidden shadow-md aspect-video relative group">
-        <iframe
-          width="100%"
-          height="100%"
-          src={`https://www.youtube.com/embed/${videoId}?autoplay=1`}
-          title={displayTitle}
-          frameBorder="0"
-          allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
-          allowFullScreen
-          className="w-full h-full"
-        ></iframe>
-        <button 
-          onClick={() => setIsPlaying(false)}
-          className="absolute top-2 right-2 p-1.5 bg-black/50 hover:bg-black/80 text-white rounded-full backdrop-blur-sm opacity-0 group-hover:opacity-100 transition-opacity"
-        >
-          <X className="w-4 h-4" />
-        </button>
-      </div>
-    );
-  }
+const RETRIES = 2;
+const ANALYSIS_TIMEOUT_MS = 5 * 60 * 1000;
+const MATCH_TIMEOUT_MS = 10 * 60 * 1000; // charting every shot of a match takes longer
+const SEARCH_TIMEOUT_MS = 60 * 1000;
 
-  return (
-    <div 
-      onClick={() => videoId ? setIsPlaying(true) : window.open(video.web.uri, '_blank')}
-      className="flex items-start gap-4 p-3 bg-white rounded-xl border border-slate-200 shadow-sm active:bg-slate-50 transition-colors cursor-pointer group"
-    >
-      <div className="w-28 h-20 bg-slate-100 rounded-lg shrink-0 flex items-center justify-center relative overflow-hidden">
-         {/* Use YouTube thumbnail if available */}
-         {videoId ? (
-            <img 
-              src={`https://img.youtube.com/vi/${videoId}/mqdefault.jpg`}
-              className="w-full h-full object-cover"
-              alt="Video thumbnail"
-            />
-         ) : (
-            <img 
-              src={`https://www.google.com/s2/favicons?domain=youtube.com&sz=128`} 
-              className="w-8 h-8 opacity-50" 
-              alt="" 
-            />
-         )}
-         <div className="absolute inset-0 flex items-center justify-center bg-black/10 group-hover:bg-black/30 transition-colors">
-           <div className="w-8 h-8 bg-red-600 rounded-full flex items-center justify-center shadow-sm group-hover:scale-110 transition-transform">
-              <Play className="w-4 h-4 fill-white text-white ml-0.5" />
-           </div>
-         </div>
-      </div>
-      <div className="flex-1 min-w-0 py-1">
-        <h4 className="font-semibold text-sm text-slate-900 line-clamp-2 leading-snug mb-1">{displayTitle}</h4>
-        <div className="flex items-center gap-1 text-xs text-slate-500">
-           <Youtube className="w-3 h-3" />
-           <span className="truncate">{videoId ? 'Tap to Watch' : 'Watch on YouTube'}</span>
-        </div>
-      </div>
-    </div>
-  );
-};
+const EMPTY_ANALYSIS: StructuredAnalysis = { summary: "", scores: [], strokes: [], issues: [], drills: [], assumptions: [] };
 
 // --- Main App ---
 
@@ -197,175 +92,695 @@ const App = () => {
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
-  const [location, setLocation] = useState<{lat: number, lng: number} | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'analysis' | 'videos' | 'places' | 'coaches'>('analysis');
+  const [location, setLocation] = useState<UserLocation | null>(loadSavedLocation);
+  const [locationNotice, setLocationNotice] = useState<string | null>(null);
+  const [error, setError] = useState<ClassifiedError | null>(null);
+  const [sectionErrors, setSectionErrors] = useState<Partial<Record<ResultSection, ClassifiedError>>>({});
+  const [retryingSections, setRetryingSections] = useState<Partial<Record<ResultSection, boolean>>>({});
+  const [activeTab, setActiveTab] = useState<'analysis' | 'chat' | 'videos' | 'places' | 'coaches'>('analysis');
   const [placeViewMode, setPlaceViewMode] = useState<'list' | 'map'>('list');
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [uploadPaused, setUploadPaused] = useState(false);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const [stages, setStages] = useState<StageMap>(INITIAL_STAGES);
+  const [stageNotes, setStageNotes] = useState<Partial<Record<StageId, string>>>({});
+  const requestRef = useRef<RequestContext | null>(null);
+  const chatMediaRef = useRef<{ file: File, media: ChatMedia } | null>(null);
+  const [liveAnalysis, setLiveAnalysis] = useState<StructuredAnalysis | null>(null);
+  const [receivedChars, setReceivedChars] = useState(0);
+  const [trim, setTrim] = useState<TrimRange | null>(null);
+  const [loopRegion, setLoopRegion] = useState(false);
+  const [inputMode, setInputMode] = useState<InputMode>('video');
+  const [sampleFps, setSampleFps] = useState(4);
+  const [prepStatus, setPrepStatus] = useState<string | null>(null);
+  const [view, setView] = useState<'main' | 'history' | 'progress' | 'profile' | 'library' | 'coach'>('main');
+  const [profile, setProfile] = useState<PlayerProfile>(loadProfile);
+  const [library, setLibrary] = useState<LibraryItem[]>(loadLibrary);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const sessionWritesRef = useRef<Promise<unknown>>(Promise.resolve());
+  const [analyzedAt, setAnalyzedAt] = useState<number | null>(null); // the session's createdAt
+  const [plan, setPlan] = useState<TrainingPlan | null>(null);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [drawSettings, setDrawSettings] = useState<DrawSettings | null>(null);
+  const [lastDrawSettings, setLastDrawSettings] = useState(DEFAULT_DRAW_SETTINGS);
+  const [attachMarks, setAttachMarks] = useState(true);
+  const [chat, setChat] = useState<ChatMessage[]>([]);
+  const [recording, setRecording] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [selectedStrokes, setSelectedStrokes] = useState<string[]>([]);
+  const [analysisMode, setAnalysisMode] = useState<'form' | 'match'>('form');
+  const [playerHint, setPlayerHint] = useState('');
+  const [matchResult, setMatchResult] = useState<MatchAnalysis | null>(null);
+  const [athletes, setAthletes] = useState<Athlete[]>([]);
+  const [assignee, setAssignee] = useState<string | null>(null);
+  const [saveVideos, setSaveVideos] = useState(() => localStorage.getItem('proform.saveVideos') !== 'false');
+
+  const sport = currentSport ? getSport(currentSport) : null;
 
   // Helper to scroll to results on mobile after analysis
   const resultsRef = useRef<HTMLDivElement>(null);
+  const playerRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { currentTime, duration } = useVideoClock(videoRef, videoUrl);
 
+  const seekTo = (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = time;
+    video.pause();
+    playerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  // Reset the trim window whenever a new clip finishes loading
   useEffect(() => {
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (p) => setLocation({ lat: p.coords.latitude, lng: p.coords.longitude }),
-        (e) => {
-          console.warn("Loc denied", e);
-          setLocation({ lat: 37.7749, lng: -122.4194 }); 
-        }
-      );
-    }
+    setTrim(duration > 0 ? { start: 0, end: duration } : null);
+  }, [duration]);
+
+  // Loop-region playback: jump back to the in point once we pass the out point
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!loopRegion || !trim || !video || video.paused) return;
+    if (currentTime >= trim.end || currentTime < trim.start - 0.25) video.currentTime = trim.start;
+  }, [currentTime, loopRegion, trim]);
+
+  useEffect(() => {
+    localStorage.setItem('proform.saveVideos', String(saveVideos));
+  }, [saveVideos]);
+
+  // Stroke names differ per sport
+  useEffect(() => {
+    setSelectedStrokes([]);
+  }, [currentSport]);
+
+  // A location the user entered wins over asking the device again. Without
+  // either, places are skipped and the Places tab asks for one.
+  useEffect(() => {
+    if (location) return;
+    locateDevice().then(setLocation).catch((err) => {
+      console.warn("Location unavailable", err);
+      setLocationNotice(err.message);
+    });
   }, []);
 
+  // Uploads and camera recordings both land here
+  const loadVideo = (file: File) => {
+    setRecording(false);
+    setVideoFile(file);
+    setVideoUrl(URL.createObjectURL(file));
+    setResult(null);
+    setMatchResult(null);
+    setSessionId(null);
+    setAnalyzedAt(null);
+    setPlan(null);
+    setAnnotations([]);
+    setDrawSettings(null);
+    setChat([]);
+    requestRef.current = null;
+    setSectionErrors({});
+    setError(null);
+    setUploadPaused(hasPendingUpload(file));
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      
-      // Simple warning for very large files
-      if (file.size > 20 * 1024 * 1024) {
-         alert("For best performance, please use a video under 20MB.");
-      }
-      
-      setVideoFile(file);
-      setVideoUrl(URL.createObjectURL(file));
-      setResult(null);
-      setError(null);
-    }
+    if (e.target.files && e.target.files[0]) loadVideo(e.target.files[0]);
+  };
+
+  // --- Analysis Requests ---
+  //
+  // The analysis, resource search and places lookups are independent: each one
+  // retries transient failures on its own, and a section that still fails gets
+  // its own error and retry button while the others render.
+
+  const setStage = (id: StageId, status: StageStatus) => setStages((prev) => ({ ...prev, [id]: status }));
+
+  const noteRetry = (id: StageId) => (attempt: number, failure: ClassifiedError) =>
+    setStageNotes((prev) => ({ ...prev, [id]: `${failure.title}, retrying (${attempt}/${RETRIES})...` }));
+
+  const track = <T,>(id: StageId, task: Promise<T>) =>
+    task.then(
+      (value) => { setStage(id, 'done'); return value; },
+      (err) => { setStage(id, 'failed'); throw err; }
+    );
+
+  const requestAnalysis = (def: SportDefinition, ctx: RequestContext, signal?: AbortSignal, live = false) =>
+    withRetry(async (attemptSignal) => {
+      const response = await aiProvider.analyzeVideo({
+        sport: def.name,
+        strokes: ctx.strokes,
+        media: ctx.media,
+        prompt: ctx.prompt,
+      }, {
+        signal: attemptSignal,
+        onText: live ? (text) => {
+          setReceivedChars(text.length);
+          const partial = parsePartialAnalysis(text);
+          if (partial) setLiveAnalysis(shiftAnalysisTimes(partial, ctx.timeOffset));
+        } : undefined,
+      });
+      const analysis = shiftAnalysisTimes(parseStructuredAnalysis(response.text), ctx.timeOffset);
+      return {
+        analysis: { ...analysis, drills: flagInjuryConflicts(analysis.drills, ctx.profile) },
+        grounding: response.grounding,
+      };
+    }, { signal, retries: RETRIES, timeoutMs: ANALYSIS_TIMEOUT_MS, onRetry: noteRetry('model') });
+
+  // Targets the most severe flaw found; without an analysis it still finds
+  // general resources for the selected strokes.
+  const requestResources = async (def: SportDefinition, issues: AnalysisIssue[], extraGrounding: any[] = [], signal?: AbortSignal) => {
+    const topIssue = [...issues].sort((a, b) => SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity))[0];
+    const vars = { sport: def.name, flaw: topIssue?.description || selectedStrokes.join(', ') || 'technique' };
+    const grounding = await withRetry((attemptSignal) => aiProvider.searchResources({
+      sport: def.name,
+      prompt: `Search for "${fillTemplate(def.prompts.drillSearch, vars)}" and "${fillTemplate(def.prompts.coachSearch, vars)}" using Google Search, then briefly list the most useful results. ${profileSearchNote(profile)}`,
+    }, { signal: attemptSignal }), { signal, retries: RETRIES, timeoutMs: SEARCH_TIMEOUT_MS, onRetry: noteRetry('search') });
+    const sources = classifyResources(def.filters, [{ origin: 'analysis', chunks: extraGrounding }, { origin: 'search', chunks: grounding }]);
+    return {
+      videos: chunksOfKind(sources, 'video'),
+      coaches: chunksOfKind(sources, 'coach'),
+      resourceSources: sources.map((c) => c.decision),
+    };
+  };
+
+  const requestPlaces = async (def: SportDefinition, near: { lat: number, lng: number }, signal?: AbortSignal) => {
+    const response = await withRetry((attemptSignal) => aiProvider.findPlaces({
+      sport: def.name,
+      prompt: `Search for "${def.maps.search}. Do NOT include retail stores, shops, or equipment stores." using Google Maps. ${PLACE_DETAILS_INSTRUCTIONS}`,
+      location: near,
+    }, { signal: attemptSignal }), { signal, retries: RETRIES, timeoutMs: SEARCH_TIMEOUT_MS, onRetry: noteRetry('places') });
+    const sources = classifyPlaces(def.filters, response.grounding);
+    return {
+      places: buildPlaces(chunksOfKind(sources, 'place'), response.text),
+      placeSources: sources.map((c) => c.decision),
+    };
+  };
+
+  // Match mode charts every point instead of judging technique; the stats
+  // are counted locally from the points (services/matchStats.ts).
+  const requestMatch = (def: SportDefinition, media: any[], clipNote: string, timeOffset: number, signal?: AbortSignal) => {
+    const prompt = `
+        ${fillTemplate(def.prompts.persona, { sport: def.name })}
+
+        Chart this ${def.name.toLowerCase()} match point by point from the provided video.
+        ${clipNote}
+        The player is ${playerHint.trim() || 'the one nearest the camera'}; everyone on the other side of the net is the opponent. In doubles, "player" means the player's team.
+        For every complete point, give the start and end time in seconds, who served${def.match.secondServe ? ', whether the first serve went in' : ''}, and every shot in order with its contact time, who hit it and the stroke type${def.strokes.length ? ` (one of: ${def.strokes.join(', ')})` : ''}.
+        Say how the point ended (winner, unforced error, forced error, ace or double fault), who hit the last shot, and whether the player came to the net.
+        Skip warm-ups, points cut off by the start or end of the video, and time between points.
+        Summarize how the player won and lost points.
+      `;
+    return withRetry(async (attemptSignal) => {
+      const text = await aiProvider.analyzeMatch({ sport: def.name, strokes: def.strokes, media, prompt }, { signal: attemptSignal });
+      return shiftMatchTimes(parseMatchAnalysis(text), timeOffset);
+    }, { signal, retries: RETRIES, timeoutMs: MATCH_TIMEOUT_MS, onRetry: noteRetry('model') });
   };
 
   const startAnalysis = async () => {
-    if (!videoFile || !currentSport) return;
+    if (!videoFile || !videoUrl || !currentSport || !sport) return;
     setIsAnalyzing(true);
     setError(null);
     setResult(null);
+    setMatchResult(null);
+    setSessionId(null);
+    setAnalyzedAt(null);
+    setPlan(null);
+    setDrawSettings(null);
+    setChat([]);
+    setSectionErrors({});
+    setUploadPaused(false);
+    setStages(INITIAL_STAGES);
+    setStageNotes({});
+    setLiveAnalysis(null);
+    setReceivedChars(0);
+
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    const signal = controller.signal;
+    let uploading = false;
 
     try {
-      const base64Video = await fileToBase64(videoFile);
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      // --- Request 1: Main Video Analysis & General Search (Gemini 3 Pro) ---
-      // Gemini 3 Pro is superior for video understanding and general reasoning.
-      const analysisPrompt = `
-        You are an expert ${currentSport} coach.
-        
-        PART 1: GATHER RESOURCES (Important: You MUST use the available tools first)
-        1. Search for "youtube ${currentSport} drills for [major flaw seen in video]" using Google Search.
-        2. Search for "top rated ${currentSport} coaches near me" using Google Search.
-        
-        PART 2: ANALYZE
-        Analyze the user's form from the provided video.
-        
-        OUTPUT FORMAT (Strictly follow this structure):
-        
-        ## ANALYSIS
-        [Write a detailed biomechanical analysis here. Focus on the swing, stance, and contact point.]
-        
-        ## DRILLS
-        [List 3 specific drills to fix the issues. Be instructive.]
-      `;
+      const range = trim || { start: 0, end: duration };
+      const trimmed = isTrimmed(trim, duration);
 
-      const analysisPromise = ai.models.generateContent({
-        model: 'gemini-3-pro-preview', 
-        contents: {
-            parts: [
-                { inlineData: { mimeType: videoFile.type, data: base64Video } },
-                { text: analysisPrompt }
-            ]
-        },
-        config: {
-          tools: [{ googleSearch: {} }],
-          systemInstruction: "You are a helpful sports coach. Always perform the requested searches before generating the text analysis.",
+      // --- Prepare Media ---
+      // Keyframes are sent as labelled stills; video is trimmed client-side
+      // when possible so only the selected segment is uploaded.
+      let mediaParts: any[];
+      let clipNote = "";
+      let timeOffset = 0;
+
+      if (inputMode === 'frames') {
+        const frames = await sampleFrames(videoUrl, range, sampleFps, (done, total) => setPrepStatus(`Extracting frames ${done}/${total}`));
+        mediaParts = frames.flatMap((f) => [
+          { text: `Frame at ${f.time.toFixed(2)}s` },
+          { inlineData: { mimeType: 'image/jpeg', data: f.data } },
+        ]);
+        signal.throwIfAborted();
+        clipNote = `You are given ${frames.length} still frames sampled evenly at ${formatFps(effectiveFps(range, sampleFps))} fps instead of a video. Each frame is preceded by its timestamp; use those timestamps.`;
+      } else {
+        let sourceFile: File = videoFile;
+        let videoMetadata;
+        if (trimmed) {
+          setPrepStatus("Trimming clip...");
+          const clip = await recordSegment(videoUrl, range);
+          signal.throwIfAborted();
+          if (clip) {
+            sourceFile = clip;
+            timeOffset = range.start;
+          } else {
+            videoMetadata = { startOffset: `${range.start.toFixed(2)}s`, endOffset: `${range.end.toFixed(2)}s` };
+            clipNote = `Only analyze the segment from ${range.start.toFixed(2)}s to ${range.end.toFixed(2)}s, and report timestamps relative to the start of the full video.`;
+          }
         }
-      });
+        setPrepStatus(null);
 
-      // --- Request 2: Local Maps Search (Gemini 2.5 Flash) ---
-      // Gemini 2.5 Flash is currently required for the Google Maps tool.
-      let mapsPromise = Promise.resolve<any>(null);
-      
-      if (location) {
-        const mapsPrompt = `Search for "${currentSport} courts, parks, and athletic clubs near me. Do NOT include retail stores, shops, or equipment stores." using Google Maps.`;
-        mapsPromise = ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [{ text: mapsPrompt }] },
-            config: {
-                tools: [{ googleMaps: {} }],
-                toolConfig: { retrievalConfig: { latLng: { latitude: location.lat, longitude: location.lng } } }
-            }
-        });
+        // Resumable, so a retry continues from the last acknowledged chunk.
+        uploading = true;
+        const videoPart = await withRetry(
+          (attemptSignal) => aiProvider.prepareVideo(sourceFile, { signal: attemptSignal, onProgress: setUploadProgress }),
+          { signal, retries: RETRIES, onRetry: noteRetry('upload') }
+        );
+        uploading = false;
+        setUploadProgress(null);
+        mediaParts = [{ ...videoPart, videoMetadata }];
       }
 
-      // Execute in parallel
-      const [analysisResponse, mapsResponse] = await Promise.all([analysisPromise, mapsPromise]);
+      const marks = attachMarks ? annotations.filter((a) => inRange(a, range)) : [];
+      if (marks.length) {
+        setPrepStatus("Adding your marks...");
+        mediaParts = [...mediaParts, ...await markedFrameParts(videoUrl, marks, timeOffset)];
+        signal.throwIfAborted();
+      }
+      setPrepStatus(null);
 
-      // --- Process Analysis Response (Text + Videos + Coaches) ---
-      const fullText = analysisResponse.text || "";
-      
-      const analysisSplit = fullText.split('## DRILLS');
-      const analysisSection = analysisSplit[0]?.replace('## ANALYSIS', '').trim() || "Analysis unavailable.";
-      const drillsSection = analysisSplit[1]?.trim() || "Drills unavailable.";
+      if (analysisMode === 'match') {
+        setStages((prev) => ({ ...prev, upload: 'done', model: 'active', search: 'skipped', places: 'skipped' }));
+        const match = await track('model', requestMatch(sport, mediaParts, clipNote, timeOffset, signal));
+        setMatchResult(match);
+        setTimeout(() => resultsRef.current?.scrollIntoView({ behavior: 'smooth' }), 100);
+        return;
+      }
 
-      const analysisGrounding = analysisResponse.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-      
-      // Filters
-      const isVideoContent = (c: any) => {
-        const title = (c.web?.title || "").toLowerCase();
-        const uri = (c.web?.uri || "").toLowerCase();
-        return title.includes('youtube') || uri.includes('youtube') || uri.includes('youtu.be') || title.includes('video');
-      };
+      setStages((prev) => ({ ...prev, upload: 'done', model: 'active', places: location ? 'active' : 'skipped' }));
 
-      const isShopOrStore = (c: any) => {
-        const title = (c.web?.title || c.maps?.title || "").toLowerCase();
-        return title.includes('shop') || title.includes('store') || title.includes('outlet') || title.includes('dick\'s') || title.includes('sporting goods');
+      const strokeInstruction = selectedStrokes.length
+        ? `The player is working on: ${selectedStrokes.join(', ')}. Only analyze those stroke types, with one entry per type, and ignore other shots.`
+        : `Detect every stroke in the clip and classify each one as ${sport.strokes.length ? `one of: ${sport.strokes.join(', ')}` : 'a stroke type'}. Group them by type, with one entry per type and the time range of every occurrence.`;
+      const analysisPrompt = `
+        ${fillTemplate(sport.prompts.persona, { sport: sport.name })}
+        
+        Analyze the user's form from the provided video.
+        ${clipNote}
+        ${marks.length ? MARKS_PROMPT_NOTE : ''}
+        Check specifically:
+        ${sport.checklist.map((item) => `- ${item}`).join('\n        ')}
+        ${strokeInstruction}
+        ${profilePrompt(profile, sport.id)}
+        Score stance, swing path, contact point and follow-through from 0 to 10 across the whole clip.
+        For each stroke type, list each distinct flaw separately with the body part, stroke phase, severity and a fix.
+        For every flaw, give the start and end time in seconds where it happens in the video.
+        For each stroke type, recommend 1 to 3 specific drills that address its flaws, with reps or duration and any equipment needed.
+      `;
+
+      const ctx: RequestContext = {
+        media: mediaParts,
+        prompt: analysisPrompt,
+        strokes: selectedStrokes.length ? selectedStrokes : sport.strokes,
+        timeOffset,
+        thumbTime: range.start,
+        profile,
       };
+      requestRef.current = ctx;
 
-      // Extract videos and coaches from the analysis response
-      const videos = analysisGrounding.filter((c: any) => isVideoContent(c));
-      const apiCoaches = analysisGrounding.filter((c: any) => 
-        c.web && 
-        !isVideoContent(c) && 
-        !c.web.uri.includes('maps.google') &&
-        !isShopOrStore(c)
-      );
-
-      // --- Process Maps Response (Places) ---
-      let places = [];
-      if (mapsResponse) {
-        const mapsGrounding = mapsResponse.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-        places = mapsGrounding.filter((c: any) => 
-            (c.maps || (c.web?.uri?.includes('maps.google'))) && !isShopOrStore(c)
-        );
+      // --- Run Requests ---
+      // The analysis streams so the report fills in while the model writes.
+      // Resource search waits for it (success or not) to target the main flaw.
+      const analysisTask = track('model', requestAnalysis(sport, ctx, signal, true));
+      const resourcesTask = analysisTask.catch(() => null).then((outcome) => {
+        signal.throwIfAborted();
+        setStage('search', 'active');
+        return track('search', requestResources(sport, outcome?.analysis.issues || [], outcome?.grounding, signal));
+      });
+      const placesTask = location ? track('places', requestPlaces(sport, location, signal)) : Promise.resolve({ places: [] });
+
+      const [analysisOutcome, resourcesOutcome, placesOutcome] = await Promise.allSettled([analysisTask, resourcesTask, placesTask]);
+      signal.throwIfAborted();
+
+      const failures: Partial<Record<ResultSection, ClassifiedError>> = {};
+      if (analysisOutcome.status === 'rejected') failures.analysis = classifyError(analysisOutcome.reason);
+      if (resourcesOutcome.status === 'rejected') failures.resources = classifyError(resourcesOutcome.reason);
+      if (placesOutcome.status === 'rejected') failures.places = classifyError(placesOutcome.reason);
+
+      // Nothing usable came back, so stay on the preview with one message.
+      if (failures.analysis && failures.resources && (failures.places || !location)) {
+        console.error(analysisOutcome.status === 'rejected' ? analysisOutcome.reason : undefined);
+        setError(failures.analysis);
+        return;
       }
 
-      setResult({
-        analysisSection,
-        drillsSection,
-        videos,
-        coaches: apiCoaches,
-        places
-      });
+      const newResult: AnalysisResult = {
+        ...(analysisOutcome.status === 'fulfilled' ? analysisOutcome.value.analysis : EMPTY_ANALYSIS),
+        ...(resourcesOutcome.status === 'fulfilled' ? resourcesOutcome.value : { videos: [], coaches: [] }),
+        ...(placesOutcome.status === 'fulfilled' ? placesOutcome.value : { places: [] }),
+      };
+      setResult(newResult);
+      setSectionErrors(failures);
       
       setActiveTab('analysis');
       setTimeout(() => resultsRef.current?.scrollIntoView({ behavior: 'smooth' }), 100);
 
+      // A report without the analysis is not worth keeping in history yet;
+      // it is saved once the analysis section is retried successfully.
+      if (!failures.analysis) persistAndAssign(newResult, ctx.thumbTime);
+
     } catch (err: any) {
-      console.error(err);
-      setError("Analysis failed. Try a smaller video (under 20MB) or a different format.");
+      // Cancelling returns to the preview with the file still selected; a
+      // cancelled upload can be resumed from where it stopped.
+      if (signal.aborted) {
+        setUploadPaused(uploading);
+      } else {
+        console.error(err);
+        setError(classifyError(err));
+        setUploadPaused(uploading && Boolean(videoFile && hasPendingUpload(videoFile)));
+      }
     } finally {
+      analysisAbortRef.current = null;
+      setUploadProgress(null);
+      setPrepStatus(null);
+      setLiveAnalysis(null);
       setIsAnalyzing(false);
     }
   };
 
-  const renderMarkdown = (text: string) => {
-    return text.split('\n').map((line, i) => {
-      if (line.startsWith('###')) return <h3 key={i} className="text-base font-bold text-slate-800 mt-3 mb-1">{line.replace(/###/g, '')}</h3>;
-      if (line.startsWith('##')) return <h3 key={i} className="text-lg font-bold text-indigo-700 mt-4 mb-2">{line.replace(/##/g, '')}</h3>;
-      if (line.startsWith('**')) return <h4 key={i} className="font-semibold text-slate-900 mt-2">{line.replace(/\*\*/g, '')}</h4>;
-      if (line.startsWith('* ')) return <li key={i} className="ml-4 text-slate-600 list-disc text-sm md:text-base">{line.replace('* ', '')}</li>;
-      if (line.trim().length === 0) return <br key={i} />;
-      return <p key={i} className="text-slate-600 leading-relaxed text-sm md:text-base mb-1">{line.replace(/\*\*/g, '')}</p>;
-    });
+  const cancelAnalysis = () => analysisAbortRef.current?.abort();
+
+  // The session as it stands now, for sharing; falls back to an unsaved one
+  // when history is unavailable.
+  const currentSession = async (): Promise<SavedSession> => {
+    const saved = sessionId ? await getSession(sessionId).catch(() => undefined) : undefined;
+    const base = saved || { id: sessionId || createSessionId(), title: `${sport?.name} session`, sport: currentSport || '', createdAt: analyzedAt || Date.now(), hasVideo: false };
+    return { ...base, result: result!, plan: plan || undefined, annotations, chat };
+  };
+
+  // The id is set before the first save lands, so writes to the session run
+  // one at a time behind it; otherwise they find no record and are dropped.
+  const queueSessionWrite = (write: () => Promise<unknown>, what: string) => {
+    const next = sessionWritesRef.current.then(write).catch((err) => console.warn(`Could not save ${what}`, err));
+    sessionWritesRef.current = next;
+    return next;
+  };
+
+  const saveToSession = (patch: Partial<Omit<SavedSession, 'id'>>, what: string) => {
+    const id = sessionId;
+    if (id) queueSessionWrite(() => updateSession(id, patch), what);
+  };
+
+  // Plan progress is saved with the session on every change
+  const changePlan = (next: TrainingPlan) => {
+    setPlan(next);
+    saveToSession({ plan: next }, 'plan');
+  };
+
+  // Marks are saved too once the session exists; before that they go in
+  // with the first save.
+  const changeAnnotations = (next: Annotation[]) => {
+    setAnnotations(next);
+    saveToSession({ annotations: next }, 'marks');
+  };
+
+  const changeChat = (next: ChatMessage[]) => {
+    setChat(next);
+    saveToSession({ chat: next }, 'chat');
+  };
+
+  // Chat reuses the media the analysis was run on. A session reopened from
+  // history has none, so its saved video is uploaded once; without a video
+  // the chat works from the report alone.
+  const chatMedia = async (): Promise<ChatMedia> => {
+    const ctx = requestRef.current;
+    if (ctx) return { parts: ctx.media, timeOffset: ctx.timeOffset };
+    if (!videoFile) return { parts: [], timeOffset: 0 };
+    if (chatMediaRef.current?.file !== videoFile) {
+      const part = await withRetry((signal) => aiProvider.prepareVideo(videoFile, { signal }), { retries: RETRIES });
+      chatMediaRef.current = { file: videoFile, media: { parts: [part], timeOffset: 0 } };
+    }
+    return chatMediaRef.current.media;
+  };
+
+  const startDrawing = () => {
+    videoRef.current?.pause();
+    setDrawSettings(lastDrawSettings);
+  };
+
+  const changeDrawSettings = (next: DrawSettings) => {
+    setDrawSettings(next);
+    setLastDrawSettings(next);
+  };
+
+  const changeLocation = (next: UserLocation) => {
+    setLocation(next);
+    setLocationNotice(null);
+    saveLocation(next);
+    if (result) retrySection('places', next);
+  };
+
+  const retrySection = async (section: ResultSection, near = location) => {
+    if (!sport || !result) return;
+    const ctx = requestRef.current;
+    setRetryingSections((prev) => ({ ...prev, [section]: true }));
+    try {
+      let patch: Partial<AnalysisResult>;
+      if (section === 'analysis') {
+        if (!ctx) return;
+        patch = (await requestAnalysis(sport, ctx)).analysis;
+      } else if (section === 'resources') {
+        patch = await requestResources(sport, result.issues);
+      } else {
+        if (!near) return;
+        patch = await requestPlaces(sport, near);
+      }
+
+      const next = { ...result, ...patch };
+      setResult((prev) => prev && { ...prev, ...patch });
+      setSectionErrors((prev) => ({ ...prev, [section]: undefined }));
+      if (sessionId) {
+        saveToSession({ result: next }, 'session');
+      } else if (section === 'analysis' && ctx) {
+        persistAndAssign(next, ctx.thumbTime);
+      }
+    } catch (err) {
+      console.error(err);
+      setSectionErrors((prev) => ({ ...prev, [section]: classifyError(err) }));
+    } finally {
+      setRetryingSections((prev) => ({ ...prev, [section]: false }));
+    }
+  };
+
+  // --- Session History ---
+
+  // Saving is best-effort: a full quota or private-mode browser should never
+  // cost the user the analysis they are looking at.
+  const persistSession = async (analysisResult: AnalysisResult, thumbTime: number): Promise<SavedSession | undefined> => {
+    if (!currentSport || !videoFile || !videoUrl) return;
+    const id = createSessionId();
+    const createdAt = Date.now();
+    setSessionId(id);
+    setAnalyzedAt(createdAt);
+    let saved: SavedSession | undefined;
+    await queueSessionWrite(async () => {
+      const thumbnail = await captureFrame(videoUrl, thumbTime).catch(() => undefined);
+      const session: SavedSession = {
+        id,
+        title: `${currentSport} session – ${new Date(createdAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`,
+        sport: currentSport,
+        stroke: (analysisResult.strokes || []).map((s) => s.stroke).join(', ') || undefined,
+        createdAt,
+        thumbnail,
+        result: analysisResult,
+        annotations,
+        hasVideo: false,
+        videoName: videoFile.name,
+        videoType: videoFile.type,
+      };
+      await saveSession(session, saveVideos ? videoFile : null);
+      saved = session;
+    }, 'session');
+    return saved;
+  };
+
+  // An athlete picked before the analysis gets it as soon as it is saved
+  const persistAndAssign = (analysisResult: AnalysisResult, thumbTime: number) => {
+    const athleteId = assignee;
+    persistSession(analysisResult, thumbTime)
+      .then((saved) => saved && athleteId && assignSession(saved, athleteId))
+      .catch((err) => console.warn("Could not assign session", err));
+  };
+
+  const openSession = async (session: SavedSession) => {
+    const blob = session.hasVideo ? await getSessionVideo(session.id).catch(() => undefined) : undefined;
+    const file = blob ? new File([blob], session.videoName || 'session-video', { type: session.videoType || blob.type }) : null;
+    setCurrentSport(session.sport);
+    setResult({ ...session.result, places: normalizePlaces(session.result.places) });
+    setMatchResult(null);
+    setAssignee(null);
+    coachStore.getReview(session.id).then((review) => setAssignee(review?.athleteId || null)).catch(() => {});
+    setSessionId(session.id);
+    setAnalyzedAt(session.createdAt);
+    setPlan(session.plan || null);
+    setAnnotations(session.annotations || []);
+    setDrawSettings(null);
+    setChat(session.chat || []);
+    requestRef.current = null;
+    setSectionErrors({});
+    setVideoFile(file);
+    setVideoUrl(file ? URL.createObjectURL(file) : null);
+    setError(null);
+    setActiveTab('analysis');
+    setView('main');
+  };
+
+  const resetScan = () => {
+    setCompareMode(false);
+    setRecording(false);
+    setDrawSettings(null);
+    setAnnotations([]);
+    setChat([]);
+    requestRef.current = null;
+    setVideoFile(null);
+    setVideoUrl(null);
+    setResult(null);
+    setMatchResult(null);
+    setSessionId(null);
+    setAnalyzedAt(null);
+    setPlan(null);
+    setSectionErrors({});
+  };
+
+  const changeProfile = (next: PlayerProfile) => {
+    setProfile(next);
+    saveProfile(next);
+  };
+
+  // --- Drill Library ---
+
+  const changeLibrary = (next: LibraryItem[]) => {
+    setLibrary(next);
+    saveLibrary(next);
+  };
+
+  const savedKeys = new Set(library.map(libraryKey));
+
+  const toggleSavedVideo = (video: { uri: string, title: string }) => {
+    if (!sport) return;
+    const strokes = (result?.strokes || []).map((s) => s.stroke);
+    changeLibrary(toggleLibraryItem(library, videoItem(sport.id, video, strokes, sessionId || undefined)));
   };
 
+  // --- Coach Workspace ---
+
+  useEffect(() => {
+    coachStore.listAthletes().then(setAthletes).catch((err) => console.warn("Could not load athletes", err));
+  }, []);
+
+  // The review starts from the analysis as saved; reassigning keeps the
+  // coach's edits, unassigning deletes them.
+  const assignSession = async (session: SavedSession, athleteId: string) => {
+    const existing = await coachStore.getReview(session.id);
+    await coachStore.saveReview(existing ? { ...existing, athleteId } : createReview(session, athleteId));
+  };
+
+  // Reviews share the session's id, so an analysis that never made it into
+  // history is saved before it is assigned; otherwise the review is orphaned.
+  const savedSession = async (): Promise<SavedSession> => {
+    await sessionWritesRef.current;
+    const saved = sessionId ? await getSession(sessionId) : undefined;
+    if (saved) return saved;
+    const session = await currentSession();
+    await saveSession(session);
+    setSessionId(session.id);
+    setAnalyzedAt(session.createdAt);
+    return session;
+  };
+
+  const changeAssignee = async (athleteId: string | null) => {
+    if (!result) return;
+    const previous = assignee;
+    if (!athleteId && !confirm("Unassign this analysis? The coach's edits and comments on it are deleted.")) return;
+    setAssignee(athleteId);
+    try {
+      if (athleteId) await assignSession(await savedSession(), athleteId);
+      else if (sessionId) await coachStore.deleteReview(sessionId);
+    } catch (err) {
+      console.warn("Could not change assignment", err);
+      setAssignee(previous);
+    }
+  };
+
+  const drillBookmarks = sport ? {
+    isSaved: (drill: Drill) => savedKeys.has(libraryKey({ kind: 'drill', sport: sport.id, title: drill.name })),
+    onToggle: (drill: Drill) => changeLibrary(toggleLibraryItem(library, drillItem(sport.id, drill, sessionId || undefined))),
+  } : undefined;
+
+  const viewButtons = (
+    <>
+      <button
+        onClick={() => setView('coach')}
+        className="p-2 rounded-full text-slate-500 hover:text-indigo-600 hover:bg-slate-100 transition-colors"
+        title="Coach workspace"
+      >
+        <ClipboardCheck className="w-5 h-5" />
+      </button>
+      <button
+        onClick={() => setView('library')}
+        className="p-2 rounded-full text-slate-500 hover:text-indigo-600 hover:bg-slate-100 transition-colors"
+        title="Drill library"
+      >
+        <LibraryBig className="w-5 h-5" />
+      </button>
+      <button
+        onClick={() => setView('profile')}
+        className="p-2 rounded-full text-slate-500 hover:text-indigo-600 hover:bg-slate-100 transition-colors"
+        title="Player profile"
+      >
+        <UserCog className="w-5 h-5" />
+      </button>
+      <button
+        onClick={() => setView('progress')}
+        className="p-2 rounded-full text-slate-500 hover:text-indigo-600 hover:bg-slate-100 transition-colors"
+        title="Progress"
+      >
+        <TrendingUp className="w-5 h-5" />
+      </button>
+      <button
+        onClick={() => setView('history')}
+        className="p-2 rounded-full text-slate-500 hover:text-indigo-600 hover:bg-slate-100 transition-colors"
+        title="Session history"
+      >
+        <History className="w-5 h-5" />
+      </button>
+    </>
+  );
+
+  // --- View: History / Progress / Profile / Library / Coach ---
+  if (view !== 'main') {
+    return (
+      <div className="min-h-screen bg-slate-50 text-slate-900 font-sans flex flex-col">
+        <header className="sticky top-0 z-30 bg-white/80 backdrop-blur-md border-b border-slate-200 px-4 py-3 flex items-center gap-3 shadow-sm">
+          <button onClick={() => setView('main')} className="p-1.5 rounded-full text-slate-600 hover:bg-slate-100">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <span className="font-bold text-sm tracking-tight text-slate-900">{{ history: 'History', progress: 'Progress', profile: 'Player Profile', library: 'Drill Library', coach: 'Coach Workspace' }[view]}</span>
+        </header>
+        <main className="flex-1 w-full max-w-3xl mx-auto pb-24">
+          {view === 'history' && <HistoryView onOpen={openSession} saveVideos={saveVideos} onSaveVideosChange={setSaveVideos} />}
+          {view === 'progress' && <ProgressView initialSport={currentSport} />}
+          {view === 'profile' && <ProfileView profile={profile} onSave={changeProfile} />}
+          {view === 'library' && <LibraryView items={library} initialSport={currentSport} onChange={changeLibrary} />}
+          {view === 'coach' && <CoachWorkspace athletes={athletes} defaultSport={currentSport} onRosterChange={setAthletes} />}
+        </main>
+      </div>
+    );
+  }
+
   // --- View: Landing / Selection ---
   if (!currentSport) {
     return (
@@ -373,6 +788,10 @@ const App = () => {
         <header className="p-6 flex items-center gap-3 bg-white border-b border-slate-200">
           <div className="w-10 h-10 bg-indigo-600 rounded-xl flex items-center justify-center font-black text-white text-xl italic skew-x-[-10deg] shadow-lg shadow-indigo-200">P</div>
           <h1 className="text-2xl font-bold tracking-tight text-slate-900">ProForm</h1>
+          {aiProvider.id === 'mock' && (
+            <span className="text-[10px] font-bold uppercase tracking-wider text-amber-700 bg-amber-100 px-2 py-0.5 rounded-full">Demo data</span>
+          )}
+          <div className="ml-auto flex items-center gap-1">{viewButtons}</div>
         </header>
         
         <main className="flex-1 px-6 flex flex-col justify-center max-w-md mx-auto w-full pb-10">
@@ -387,16 +806,21 @@ const App = () => {
           </div>
           
           <div className="grid gap-4">
-            {['Tennis', 'Pickleball'].map((sport) => (
+            {SPORTS.map((s) => (
               <button 
-                key={sport}
-                onClick={() => setCurrentSport(sport as Sport)}
+                key={s.id}
+                onClick={() => setCurrentSport(s.id)}
                 className="group relative overflow-hidden rounded-2xl bg-white border border-slate-200 p-6 text-left hover:border-indigo-500 hover:shadow-lg hover:shadow-indigo-100 transition-all active:scale-[0.99]"
               >
                 <div className="flex justify-between items-center relative z-10">
-                  <div>
-                    <h3 className="text-xl font-bold text-slate-900 mb-1">{sport}</h3>
-                    <p className="text-xs text-indigo-600 font-semibold uppercase tracking-wider bg-indigo-50 inline-block px-2 py-1 rounded-md">Analysis Ready</p>
+                  <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 rounded-xl bg-indigo-50 text-indigo-600 flex items-center justify-center shrink-0">
+                      <s.icon className="w-6 h-6" />
+                    </div>
+                    <div>
+                      <h3 className="text-xl font-bold text-slate-900 mb-1">{s.name}</h3>
+                      <p className="text-xs text-slate-500">{s.tagline}</p>
+                    </div>
                   </div>
                   <div className="w-10 h-10 rounded-full bg-slate-100 flex items-center justify-center text-slate-400 group-hover:bg-indigo-600 group-hover:text-white transition-colors">
                     <ChevronRight className="w-5 h-5" />
@@ -416,26 +840,50 @@ const App = () => {
        {/* Mobile Header */}
        <header className="sticky top-0 z-30 bg-white/80 backdrop-blur-md border-b border-slate-200 px-4 py-3 flex items-center justify-between shadow-sm">
           <button 
-            onClick={() => { setCurrentSport(null); setResult(null); setVideoFile(null); }} 
+            onClick={() => { setCurrentSport(null); resetScan(); }} 
             className="flex items-center gap-2"
           >
             <div className="w-8 h-8 bg-indigo-600 rounded-lg flex items-center justify-center font-black text-white text-lg italic skew-x-[-10deg]">P</div>
-            <span className="font-bold text-sm tracking-tight text-slate-900">{currentSport} AI</span>
+            <span className="font-bold text-sm tracking-tight text-slate-900">{sport?.name} AI</span>
           </button>
-          {result && (
-             <button onClick={() => { setVideoFile(null); setResult(null); }} className="text-xs font-semibold text-slate-600 bg-slate-100 px-3 py-1.5 rounded-full hover:bg-slate-200 transition-colors">New Scan</button>
-          )}
+          <div className="flex items-center gap-2">
+            {(result || matchResult) && (
+               <button onClick={resetScan} className="text-xs font-semibold text-slate-600 bg-slate-100 px-3 py-1.5 rounded-full hover:bg-slate-200 transition-colors">New Scan</button>
+            )}
+            {viewButtons}
+          </div>
         </header>
 
         <main className="flex-1 w-full max-w-3xl mx-auto pb-24">
           
+          {/* Section: Compare (the preview stays mounted underneath so its clock keeps working) */}
+          {compareMode && videoFile && videoUrl && (
+            <div className="p-4">
+              <ComparePlayer
+                currentFile={videoFile}
+                currentSrc={videoUrl}
+                sport={currentSport}
+                excludeSessionId={sessionId}
+                onClose={() => setCompareMode(false)}
+              />
+            </div>
+          )}
+
           {/* Section: Upload & Video Preview */}
-          <div className={`p-4 transition-all duration-500 ${result ? 'border-b border-slate-200 bg-white' : 'flex-1 flex flex-col justify-center'}`}>
-            <div className="relative rounded-2xl overflow-hidden bg-slate-100 border border-slate-200 shadow-inner aspect-[4/3] md:aspect-video">
+          <div className={`p-4 transition-all duration-500 ${compareMode ? 'hidden' : ''} ${result || matchResult ? 'border-b border-slate-200 bg-white' : 'flex-1 flex flex-col justify-center'}`}>
+            <div ref={playerRef} className="relative rounded-2xl overflow-hidden bg-slate-100 border border-slate-200 shadow-inner aspect-[4/3] md:aspect-video">
               {videoUrl ? (
                 <>
-                  <video src={videoUrl} className="w-full h-full object-contain bg-black" controls playsInline loop />
-                  {!isAnalyzing && !result && (
+                  <video ref={videoRef} src={videoUrl} className="w-full h-full object-contain bg-black" controls playsInline loop />
+                  <TelestrationOverlay
+                    videoRef={videoRef}
+                    src={videoUrl}
+                    annotations={annotations}
+                    currentTime={currentTime}
+                    settings={drawSettings}
+                    onAdd={(mark) => changeAnnotations([...annotations, mark])}
+                  />
+                  {!isAnalyzing && !result && !matchResult && !drawSettings && (
                      <button 
                      onClick={() => { setVideoFile(null); setVideoUrl(null); }}
                      className="absolute top-3 right-3 bg-white/80 hover:bg-white p-2 rounded-full backdrop-blur-md transition text-slate-700 shadow-md"
@@ -444,47 +892,196 @@ const App = () => {
                    </button>
                   )}
                 </>
+              ) : recording && sport ? (
+                <CameraRecorder
+                  sport={sport}
+                  stroke={selectedStrokes[0]}
+                  onStrokeChange={(stroke) => setSelectedStrokes(stroke ? [stroke] : [])}
+                  onRecorded={loadVideo}
+                  onCancel={() => setRecording(false)}
+                />
               ) : (
-                <label className="absolute inset-0 flex flex-col items-center justify-center cursor-pointer hover:bg-slate-200/50 transition-colors active:bg-slate-200">
-                  <div className="w-16 h-16 rounded-full bg-white flex items-center justify-center mb-4 shadow-md text-indigo-600">
-                    <Upload className="w-6 h-6" />
-                  </div>
-                  <span className="text-base font-bold text-slate-700">Upload Gameplay</span>
-                  <span className="text-xs text-slate-500 mt-2">Max 60s recommended</span>
-                  <input type="file" accept="video/*" className="hidden" onChange={handleFileChange} />
-                </label>
+                <>
+                  <label className="absolute inset-0 flex flex-col items-center justify-center cursor-pointer hover:bg-slate-200/50 transition-colors active:bg-slate-200">
+                    <div className="w-16 h-16 rounded-full bg-white flex items-center justify-center mb-4 shadow-md text-indigo-600">
+                      <Upload className="w-6 h-6" />
+                    </div>
+                    <span className="text-base font-bold text-slate-700">Upload Gameplay</span>
+                    <span className="text-xs text-slate-500 mt-2">Max 60s recommended</span>
+                    <input type="file" accept="video/*" className="hidden" onChange={handleFileChange} />
+                  </label>
+                  {canRecord() && (
+                    <button
+                      onClick={() => setRecording(true)}
+                      className="absolute bottom-4 left-1/2 -translate-x-1/2 text-xs font-semibold text-slate-600 bg-white hover:bg-slate-50 px-3 py-1.5 rounded-full shadow-sm border border-slate-200 flex items-center gap-1.5 transition-colors"
+                    >
+                      <Camera className="w-3.5 h-3.5" /> Record with camera
+                    </button>
+                  )}
+                </>
               )}
 
               {/* Analysis Overlay State */}
-              {isAnalyzing && (
+              {isAnalyzing && sport && (
                 <div className="absolute inset-0 bg-white/90 backdrop-blur-sm flex flex-col items-center justify-center z-10">
-                  <div className="relative">
-                     <div className="w-12 h-12 border-4 border-indigo-100 border-t-indigo-600 rounded-full animate-spin"></div>
-                  </div>
-                  <p className="text-indigo-600 font-bold mt-4 animate-pulse">Analyzing Video...</p>
-                  <p className="text-xs text-slate-400 mt-1">This may take a moment</p>
+                  <AnalysisProgress
+                    stages={stages}
+                    placesLabel={sport.labels.places}
+                    uploadProgress={uploadProgress}
+                    prepStatus={prepStatus}
+                    notes={stageNotes}
+                    receivedChars={receivedChars}
+                    hidden={analysisMode === 'match' ? ['search', 'places'] : undefined}
+                    onCancel={cancelAnalysis}
+                  />
                 </div>
               )}
             </div>
 
+            {videoUrl && (
+              <ScrubBar
+                currentTime={currentTime}
+                duration={duration}
+                markers={result?.issues || []}
+                onSeek={seekTo}
+              />
+            )}
+
+            {videoUrl && drawSettings && (
+              <TelestrationToolbar
+                settings={drawSettings}
+                annotations={annotations}
+                currentTime={currentTime}
+                duration={duration}
+                onSettingsChange={changeDrawSettings}
+                onChange={changeAnnotations}
+                onSeek={(t) => { if (videoRef.current) videoRef.current.currentTime = t; }}
+                onDone={() => setDrawSettings(null)}
+              />
+            )}
+
+            {videoUrl && !result && !matchResult && !isAnalyzing && trim && (
+              <TrimControls
+                duration={duration}
+                currentTime={currentTime}
+                range={trim}
+                onRangeChange={setTrim}
+                onSeek={(t) => { if (videoRef.current) videoRef.current.currentTime = t; }}
+                loopRegion={loopRegion}
+                onLoopChange={setLoopRegion}
+                inputMode={inputMode}
+                onInputModeChange={setInputMode}
+                sampleFps={sampleFps}
+                onSampleFpsChange={setSampleFps}
+              />
+            )}
+
+            {videoUrl && !result && !matchResult && !isAnalyzing && analysisMode === 'form' && athletes.length > 0 && (
+              <div className="mt-4">
+                <AthleteSelect athletes={athletes} value={assignee} onChange={setAssignee} />
+              </div>
+            )}
+
+            {videoUrl && !result && !matchResult && !isAnalyzing && sport && (
+              <div className="mt-4 grid grid-cols-2 gap-1 p-1 bg-slate-100 rounded-xl">
+                <button
+                  onClick={() => setAnalysisMode('form')}
+                  className={`py-2 rounded-lg text-xs font-semibold flex items-center justify-center gap-1.5 transition-colors ${analysisMode === 'form' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  <ScanEye className="w-3.5 h-3.5" /> Form analysis
+                </button>
+                <button
+                  onClick={() => setAnalysisMode('match')}
+                  className={`py-2 rounded-lg text-xs font-semibold flex items-center justify-center gap-1.5 transition-colors ${analysisMode === 'match' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  <Swords className="w-3.5 h-3.5" /> Match stats
+                </button>
+              </div>
+            )}
+
+            {videoUrl && !result && !matchResult && !isAnalyzing && sport && (
+              analysisMode === 'match' ? (
+                <div className="mt-4 p-4 bg-white rounded-xl border border-slate-200 shadow-sm">
+                  <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Which player are you?</h3>
+                  <input
+                    value={playerHint}
+                    onChange={(e) => setPlayerHint(e.target.value)}
+                    placeholder="e.g. white shirt, far side"
+                    className="w-full text-sm px-3 py-2 rounded-lg border border-slate-200 focus:outline-none focus:border-indigo-400"
+                  />
+                  <p className="text-xs text-slate-400 mt-2">Leave empty to chart the player nearest the camera. Works best on full points filmed from behind the baseline.</p>
+                </div>
+              ) : (
+                <StrokePicker strokes={sport.strokes} selected={selectedStrokes} onChange={setSelectedStrokes} />
+              )
+            )}
+
+            {videoUrl && !isAnalyzing && !drawSettings && (
+              <div className="mt-3 flex justify-center gap-2">
+                <button
+                  onClick={startDrawing}
+                  className="text-xs font-semibold text-slate-600 bg-slate-100 px-3 py-1.5 rounded-full hover:bg-slate-200 transition-colors flex items-center gap-1.5"
+                >
+                  <PenLine className="w-3.5 h-3.5" /> Annotate{annotations.length > 0 && ` (${annotations.length})`}
+                </button>
+                {videoFile && (
+                  <button
+                    onClick={() => { videoRef.current?.pause(); setCompareMode(true); }}
+                    className="text-xs font-semibold text-slate-600 bg-slate-100 px-3 py-1.5 rounded-full hover:bg-slate-200 transition-colors flex items-center gap-1.5"
+                  >
+                    <Columns2 className="w-3.5 h-3.5" /> Compare
+                  </button>
+                )}
+              </div>
+            )}
+
+            {videoFile && !result && !matchResult && !isAnalyzing && annotations.length > 0 && (
+              <label className="mt-3 flex items-center justify-center gap-2 text-xs font-medium text-slate-600">
+                <input type="checkbox" checked={attachMarks} onChange={(e) => setAttachMarks(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                Include my {annotations.length} mark{annotations.length === 1 ? '' : 's'} in the analysis
+              </label>
+            )}
+
             {/* Action Button (Only show if not analyzed yet) */}
-            {!result && videoFile && (
+            {!result && !matchResult && videoFile && (
               <button 
                 onClick={startAnalysis}
                 disabled={isAnalyzing}
                 className="w-full mt-6 py-4 bg-indigo-600 hover:bg-indigo-700 active:bg-indigo-800 disabled:opacity-50 text-white font-bold rounded-xl text-lg flex items-center justify-center gap-2 shadow-lg shadow-indigo-200 transition-all"
               >
-                {isAnalyzing ? "Processing..." : "Analyze Now"}
+                {isAnalyzing ? "Processing..." : uploadPaused ? "Resume Upload" : analysisMode === 'match' ? "Chart Match" : "Analyze Now"}
               </button>
             )}
 
+            {uploadPaused && !isAnalyzing && (
+              <p className="mt-3 text-xs text-center text-slate-500">Upload paused. Resuming continues from where it stopped.</p>
+            )}
+
             {error && (
-              <div className="mt-4 p-4 bg-red-50 border border-red-100 text-red-600 rounded-xl flex items-center gap-3 text-sm">
-                <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+              <div className="mt-4 p-4 bg-red-50 border border-red-100 text-red-600 rounded-xl flex items-start gap-3 text-sm">
+                <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-semibold">{error.title}</p>
+                  <p className="text-xs text-red-500 mt-0.5">{error.guidance}</p>
+                </div>
               </div>
             )}
           </div>
 
+          {/* Section: Live Report (while the analysis streams in) */}
+          {isAnalyzing && liveAnalysis && !compareMode && (
+            <div className="p-4 bg-slate-50 border-t border-slate-200">
+              <AnalysisReport result={{ ...liveAnalysis, videos: [], coaches: [], places: [] }} />
+            </div>
+          )}
+
+          {/* Section: Match Statistics */}
+          {matchResult && sport && (
+            <div ref={resultsRef} className="p-4 min-h-[50vh] bg-slate-50 animate-in slide-in-from-bottom-10 fade-in duration-500">
+              <MatchDashboard match={matchResult} sport={sport} onSeek={seekTo} />
+            </div>
+          )}
+
           {/* Section: Results */}
           {result && (
             <div ref={resultsRef} className="animate-in slide-in-from-bottom-10 fade-in duration-500">
@@ -497,74 +1094,89 @@ const App = () => {
                   icon={Activity} 
                   label="Report" 
                 />
+                <TabButton 
+                  active={activeTab === 'chat'} 
+                  onClick={() => setActiveTab('chat')} 
+                  icon={MessageCircle} 
+                  label={chat.length ? `Ask (${chat.filter((m) => m.role === 'user').length})` : 'Ask'} 
+                />
                 <TabButton 
                   active={activeTab === 'videos'} 
                   onClick={() => setActiveTab('videos')} 
                   icon={Youtube} 
-                  label={`Drills (${result.videos.length})`} 
+                  label={`${sport?.labels.drills} (${result.videos.length})`} 
                 />
                 <TabButton 
                   active={activeTab === 'places'} 
                   onClick={() => setActiveTab('places')} 
                   icon={MapPin} 
-                  label="Courts" 
+                  label={sport?.labels.places} 
                 />
                 <TabButton 
                   active={activeTab === 'coaches'} 
                   onClick={() => setActiveTab('coaches')} 
                   icon={User} 
-                  label="Coaches" 
+                  label={sport?.labels.coaches} 
                 />
               </div>
 
               {/* Tab Content */}
               <div className="p-4 min-h-[50vh] bg-slate-50">
                 
-                {/* 1. Analysis Tab - Split into 2 Cards */}
+                {/* 1. Analysis Tab */}
                 {activeTab === 'analysis' && (
-                  <div className="space-y-6">
-                    {/* Card 1: Technical Analysis */}
-                    <Card className="p-5 border-l-4 border-l-indigo-500">
-                      <div className="flex items-center gap-3 mb-4 border-b border-slate-100 pb-3">
-                        <div className="p-2 bg-indigo-50 rounded-lg">
-                          <Activity className="w-5 h-5 text-indigo-600" />
-                        </div>
-                        <h2 className="text-lg font-bold text-slate-900">Technical Analysis</h2>
-                      </div>
-                      <div className="prose prose-sm prose-slate max-w-none">
-                        {renderMarkdown(result.analysisSection)}
-                      </div>
-                    </Card>
-
-                    {/* Card 2: Drills */}
-                    <Card className="p-5 border-l-4 border-l-emerald-500">
-                      <div className="flex items-center gap-3 mb-4 border-b border-slate-100 pb-3">
-                        <div className="p-2 bg-emerald-50 rounded-lg">
-                          <Dumbbell className="w-5 h-5 text-emerald-600" />
-                        </div>
-                        <h2 className="text-lg font-bold text-slate-900">Recommended Drills</h2>
-                      </div>
-                      <div className="prose prose-sm prose-slate max-w-none">
-                        {renderMarkdown(result.drillsSection)}
-                      </div>
-                    </Card>
+                  sectionErrors.analysis
+                    ? <SectionError error={sectionErrors.analysis} retrying={retryingSections.analysis} onRetry={() => retrySection('analysis')} />
+                    : (
+                      <>
+                        {athletes.length > 0 && (
+                          <div className="mb-4">
+                            <AthleteSelect athletes={athletes} value={assignee} onChange={changeAssignee} />
+                          </div>
+                        )}
+                        <ReportActions
+                          report={{ title: `${sport?.name} Coaching Report`, sport: sport?.name || '', placesLabel: sport?.labels.places || 'Courts', createdAt: analyzedAt || Date.now(), result, plan, near: location }}
+                          videoUrl={videoUrl}
+                          getSession={currentSession}
+                        />
+                        <AnalysisReport result={result} onSeek={seekTo} bookmarks={drillBookmarks}>
+                          <TrainingPlanView result={result} plan={plan} title={`${sport?.name} practice`} onChange={changePlan} onSeek={seekTo} />
+                        </AnalysisReport>
+                      </>
+                    )
+                )}
 
-                    <div className="text-center">
-                      <p className="text-xs text-slate-400">AI analysis based on visual data. Consult a professional for safety.</p>
-                    </div>
-                  </div>
+                {/* 2. Chat Tab */}
+                {activeTab === 'chat' && sport && (
+                  <CoachChat
+                    sport={sport.name}
+                    persona={fillTemplate(sport.prompts.persona, { sport: sport.name })}
+                    result={result}
+                    messages={chat}
+                    getMedia={chatMedia}
+                    onChange={changeChat}
+                    onSeek={seekTo}
+                  />
                 )}
 
-                {/* 2. Videos Tab */}
+                {/* 3. Videos Tab */}
                 {activeTab === 'videos' && (
                   <div className="space-y-4">
                     <div className="flex justify-between items-center px-1">
                       <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">Instructional Videos</h3>
                       <span className="text-xs bg-red-100 text-red-600 px-2 py-0.5 rounded-full font-medium">YouTube</span>
                     </div>
-                    {result.videos.length > 0 ? (
+                    {sectionErrors.resources ? (
+                      <SectionError error={sectionErrors.resources} retrying={retryingSections.resources} onRetry={() => retrySection('resources')} />
+                    ) : result.videos.length > 0 ? (
                       result.videos.map((vid, i) => (
-                        <VideoPlayerCard key={i} video={vid} />
+                        <VideoCard
+                          key={i}
+                          uri={vid.web.uri}
+                          title={vid.web.title}
+                          saved={savedKeys.has(libraryKey({ kind: 'video', sport: sport!.id, uri: vid.web.uri, title: '' }))}
+                          onToggleSave={toggleSavedVideo}
+                        />
                       ))
                     ) : (
                       <div className="text-center p-12 bg-white rounded-2xl border border-dashed border-slate-300">
@@ -572,14 +1184,15 @@ const App = () => {
                         <p className="text-slate-500">No specific videos found.</p>
                       </div>
                     )}
+                    <SourcePanel resources={result.resourceSources} places={result.placeSources} />
                   </div>
                 )}
 
-                {/* 3. Places Tab */}
+                {/* 4. Places Tab */}
                 {activeTab === 'places' && (
                   <div className="space-y-4">
                      <div className="flex justify-between items-center px-1 mb-2">
-                        <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">Nearby Courts</h3>
+                        <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">Nearby {sport?.labels.places}</h3>
                         <div className="flex bg-slate-200 rounded-lg p-1 gap-1">
                           <button 
                             onClick={() => setPlaceViewMode('list')}
@@ -596,85 +1209,31 @@ const App = () => {
                         </div>
                      </div>
 
-                     {placeViewMode === 'map' && location && (
-                       <div className="rounded-xl overflow-hidden shadow-sm border border-slate-200 bg-slate-100 h-64 mb-4">
-                         {/* Embed Google Maps Search - Compatible iframe method */}
-                         <iframe 
-                           width="100%" 
-                           height="100%" 
-                           frameBorder="0" 
-                           scrolling="no" 
-                           marginHeight={0} 
-                           marginWidth={0} 
-                           src={`https://maps.google.com/maps?q=${currentSport}+courts+near+${location.lat},${location.lng}&t=&z=13&ie=UTF8&iwloc=&output=embed`}
-                           title="Map View"
-                         ></iframe>
-                       </div>
-                     )}
+                     <LocationPicker location={location} notice={locationNotice} onChange={changeLocation} />
 
-                     {result.places.length > 0 ? (
-                      result.places.map((place, i) => {
-                        const data = place.maps || place.web;
-                        return (
-                          <a 
-                            key={i}
-                            href={data.uri}
-                            target="_blank"
-                            rel="noreferrer"
-                            className="block p-4 bg-white rounded-xl border border-slate-200 shadow-sm active:bg-slate-50 transition-colors"
-                          >
-                            <div className="flex justify-between items-start mb-2">
-                              <h4 className="font-bold text-slate-900 pr-4">{data.title}</h4>
-                              <div className="w-8 h-8 rounded-full bg-blue-50 flex items-center justify-center shrink-0">
-                                <MapPin className="w-4 h-4 text-blue-500" />
-                              </div>
-                            </div>
-                            <p className="text-xs text-slate-500 font-medium">Open in Google Maps &rarr;</p>
-                          </a>
-                        );
-                      })
-                     ) : (
-                      <div className="text-center p-12 bg-white rounded-2xl border border-dashed border-slate-300">
-                        <MapPin className="w-10 h-10 mx-auto mb-3 text-slate-300" />
-                        <p className="text-slate-500">No locations found nearby.</p>
-                      </div>
+                     {sectionErrors.places ? (
+                      <SectionError error={sectionErrors.places} retrying={retryingSections.places} onRetry={() => retrySection('places')} />
+                     ) : retryingSections.places ? (
+                      <div className="flex justify-center p-8"><Loader2 className="w-5 h-5 text-indigo-600 animate-spin" /></div>
+                     ) : (location || result.places.length > 0) && (
+                      <PlaceList key={location ? `${location.lat},${location.lng}` : 'unknown'} places={result.places} location={location} viewMode={placeViewMode} />
                      )}
+                     <SourcePanel resources={result.resourceSources} places={result.placeSources} />
                   </div>
                 )}
 
-                {/* 4. Coaches Tab */}
+                {/* 5. Coaches Tab */}
                 {activeTab === 'coaches' && (
                   <div className="space-y-4">
-                     <div className="flex justify-between items-center px-1">
-                        <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider">Available Pros</h3>
-                        <span className="text-xs bg-emerald-100 text-emerald-600 px-2 py-0.5 rounded-full font-medium">Verified & Found</span>
-                     </div>
-                     
-                     {/* Render Mock Coaches First (Premium Placement) */}
-                     {MOCK_COACHES.map((coach, i) => (
-                        <div key={`mock-${i}`} className="flex items-start gap-4 p-4 bg-white rounded-xl border border-slate-200 shadow-sm relative overflow-hidden">
-                           <div className="absolute top-0 right-0 bg-amber-400 text-white text-[10px] font-bold px-2 py-1 rounded-bl-lg z-10">TOP RATED</div>
-                           <img src={coach.image} alt={coach.name} className="w-14 h-14 rounded-full bg-slate-100 object-cover shrink-0 border border-slate-100" />
-                           <div className="flex-1 min-w-0">
-                             <div className="flex items-center gap-1">
-                               <h4 className="font-bold text-sm text-slate-900 truncate">{coach.name}</h4>
-                               <Verified className="w-3 h-3 text-blue-500 fill-blue-500 text-white" />
-                             </div>
-                             <p className="text-xs font-semibold text-indigo-600 truncate">{coach.title}</p>
-                             <div className="flex items-center gap-1 mt-1">
-                               <Star className="w-3 h-3 fill-amber-400 text-amber-400" />
-                               <span className="text-xs font-bold text-slate-700">{coach.rating}</span>
-                               <span className="text-xs text-slate-400">({coach.reviews})</span>
-                             </div>
-                             <p className="text-xs text-slate-500 mt-2 flex items-center gap-1">
-                               <MapPin className="w-3 h-3" /> {coach.location}
-                             </p>
-                           </div>
-                           <button className="self-center px-3 py-1.5 bg-slate-900 text-white text-xs font-semibold rounded-lg">Contact</button>
-                        </div>
-                     ))}
+                     {sport && <CoachDirectory sport={sport.id} location={location} issues={result.issues} />}
 
-                     {/* Render API Found Coaches */}
+                     {/* Coaches found by web search */}
+                     {(result.coaches.length > 0 || sectionErrors.resources) && (
+                       <h3 className="text-sm font-bold text-slate-500 uppercase tracking-wider px-1 pt-2">From the Web</h3>
+                     )}
+                     {sectionErrors.resources && (
+                       <SectionError error={sectionErrors.resources} retrying={retryingSections.resources} onRetry={() => retrySection('resources')} />
+                     )}
                      {result.coaches.map((coach, i) => (
                         <a 
                           key={`api-${i}`}
@@ -684,11 +1243,11 @@ const App = () => {
                           className="flex items-center gap-4 p-4 bg-white rounded-xl border border-slate-200 shadow-sm active:bg-slate-50 transition-colors"
                         >
                            <div className="w-14 h-14 rounded-full bg-indigo-50 flex items-center justify-center shrink-0 border border-slate-100 text-indigo-600 font-bold text-lg">
-                             {coach.web.title.substring(0,1)}
+                             {(coach.web.title || hostnameOf(coach.web.uri)).substring(0,1).toUpperCase()}
                            </div>
                            <div className="flex-1 min-w-0">
-                             <h4 className="font-bold text-sm text-slate-900 truncate">{coach.web.title}</h4>
-                             <p className="text-xs text-slate-500 truncate mt-0.5">Web Result</p>
+                             <h4 className="font-bold text-sm text-slate-900 truncate">{coach.web.title || hostnameOf(coach.web.uri)}</h4>
+                             <p className="text-xs text-slate-500 truncate mt-0.5">{hostnameOf(coach.web.uri)}</p>
                              <div className="flex gap-1 mt-1">
                                <span className="text-[10px] bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded">Instructor</span>
                              </div>
@@ -696,6 +1255,7 @@ const App = () => {
                            <ChevronRight className="w-5 h-5 text-slate-300" />
                         </a>
                       ))}
+                     <SourcePanel resources={result.resourceSources} places={result.placeSources} />
                   </div>
                 )}
 
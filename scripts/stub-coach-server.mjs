@@ -0,0 +1,80 @@
+// Minimal stand-in for a coach backend, implementing the REST API the
+// coach store expects (services/coachStore.ts). Run with `npm run stub:coach`
+// and set COACH_API_URL=http://localhost:8788 in .env.local. Data is kept in
+// memory, so it is gone when the stub stops.
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 8788);
+
+const athletes = new Map(); // id -> athlete
+const reviews = new Map(); // id -> review
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, { ...cors, ...(body === undefined ? {} : { 'Content-Type': 'application/json' }) });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readJson = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (c) => chunks.push(c));
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString() || 'null'));
+      } catch {
+        reject(new Error('Body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const collections = { athletes, reviews };
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const match = url.pathname.match(/^\/(athletes|reviews)(?:\/([^/]+))?$/);
+  if (!match) return send(res, 404, { error: { message: 'Not found' } });
+  const [, name, rawId] = match;
+  const items = collections[name];
+  const id = rawId && decodeURIComponent(rawId);
+
+  if (req.method === 'GET' && !id) {
+    const athleteId = url.searchParams.get('athleteId');
+    return send(res, 200, [...items.values()].filter((item) => name !== 'reviews' || !athleteId || item.athleteId === athleteId));
+  }
+
+  if (req.method === 'GET') {
+    return items.has(id) ? send(res, 200, items.get(id)) : send(res, 404, { error: { message: `No ${name.slice(0, -1)} ${id}` } });
+  }
+
+  if (req.method === 'PUT' && id) {
+    try {
+      const body = await readJson(req);
+      if (!body || body.id !== id) return send(res, 400, { error: { message: 'Body id must match the URL' } });
+      if (name === 'reviews' && !athletes.has(body.athleteId)) return send(res, 400, { error: { message: `No athlete ${body.athleteId}` } });
+      items.set(id, body);
+      return send(res, 200, body);
+    } catch (err) {
+      return send(res, 400, { error: { message: err.message } });
+    }
+  }
+
+  if (req.method === 'DELETE' && id) {
+    items.delete(id);
+    // An athlete's reviews go with them
+    if (name === 'athletes') [...reviews.values()].filter((r) => r.athleteId === id).forEach((r) => reviews.delete(r.id));
+    return send(res, 204);
+  }
+
+  send(res, 405, { error: { message: 'Method not allowed' } });
+});
+
+server.listen(PORT, () => console.log(`Stub coach server listening on http://localhost:${PORT}`));
@@ -0,0 +1,86 @@
+// Minimal stand-in for the Gemini Files API resumable upload endpoints.
+// Run with `npm run stub:upload` and set UPLOAD_BASE_URL=http://localhost:8787
+// in .env.local to exercise progress, cancel and resume without network access.
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 8787);
+const PROCESSING_MS = Number(process.env.PROCESSING_MS || 3000);
+
+const sessions = new Map(); // id -> { size, mimeType, displayName, received }
+const files = new Map(); // name -> { file, readyAt }
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'x-goog-upload-url, x-goog-upload-size-received, x-goog-upload-status',
+};
+
+const send = (res, status, headers = {}, body) => {
+  res.writeHead(status, { ...cors, ...headers });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (c) => chunks.push(c));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (req.method === 'POST' && url.pathname === '/upload/v1beta/files') {
+    const meta = JSON.parse((await readBody(req)).toString() || '{}');
+    const id = randomUUID();
+    sessions.set(id, {
+      size: Number(req.headers['x-goog-upload-header-content-length'] || 0),
+      mimeType: req.headers['x-goog-upload-header-content-type'] || 'application/octet-stream',
+      displayName: meta.file?.display_name || 'upload',
+      received: 0,
+    });
+    return send(res, 200, { 'x-goog-upload-url': `http://${req.headers.host}/upload/session/${id}`, 'x-goog-upload-status': 'active' });
+  }
+
+  const sessionMatch = url.pathname.match(/^\/upload\/session\/([\w-]+)$/);
+  if (req.method === 'POST' && sessionMatch) {
+    const session = sessions.get(sessionMatch[1]);
+    if (!session) return send(res, 404, {}, { error: { message: 'Unknown upload session' } });
+    const command = String(req.headers['x-goog-upload-command'] || '');
+
+    if (command === 'query') {
+      return send(res, 200, { 'x-goog-upload-size-received': String(session.received), 'x-goog-upload-status': 'active' });
+    }
+
+    const offset = Number(req.headers['x-goog-upload-offset'] || 0);
+    const body = await readBody(req);
+    if (offset !== session.received) {
+      return send(res, 400, {}, { error: { message: `Expected offset ${session.received}, got ${offset}` } });
+    }
+    session.received += body.length;
+
+    if (!command.includes('finalize')) return send(res, 200, { 'x-goog-upload-status': 'active' });
+
+    const name = `files/${sessionMatch[1].slice(0, 12)}`;
+    const file = { name, displayName: session.displayName, mimeType: session.mimeType, sizeBytes: String(session.received), uri: `http://${req.headers.host}/v1beta/${name}`, state: 'PROCESSING' };
+    files.set(name, { file, readyAt: Date.now() + PROCESSING_MS });
+    sessions.delete(sessionMatch[1]);
+    return send(res, 200, { 'Content-Type': 'application/json', 'x-goog-upload-status': 'final' }, { file });
+  }
+
+  const fileMatch = url.pathname.match(/^\/v1beta\/(files\/[\w-]+)$/);
+  if (req.method === 'GET' && fileMatch) {
+    const entry = files.get(fileMatch[1]);
+    if (!entry) return send(res, 404, {}, { error: { message: 'File not found' } });
+    const state = Date.now() >= entry.readyAt ? 'ACTIVE' : 'PROCESSING';
+    return send(res, 200, { 'Content-Type': 'application/json' }, { ...entry.file, state });
+  }
+
+  send(res, 404, {}, { error: { message: 'Not found' } });
+});
+
+server.listen(PORT, () => console.log(`Stub upload server listening on http://localhost:${PORT}`));
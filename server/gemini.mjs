@@ -0,0 +1,101 @@
+// --- Gemini Calls ---
+//
+// Mirrors services/geminiProvider.ts, but runs here so the key never reaches
+// the browser. Models and tools are fixed server-side; clients only supply
+// prompts, media parts and the response schema.
+import { GoogleGenAI } from '@google/genai';
+
+const TOOL_NAMES = ['googleSearch', 'googleMaps'];
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const parseTools = (value, fallback) =>
+  (value ? value.split(',').map((t) => t.trim()) : fallback).filter((t) => TOOL_NAMES.includes(t));
+
+export const createGemini = (env) => {
+  const ai = new GoogleGenAI({ apiKey: env.GEMINI_API_KEY });
+  const models = {
+    analysis: env.ANALYSIS_MODEL || 'gemini-3-pro-preview',
+    search: env.SEARCH_MODEL || 'gemini-2.5-flash',
+    places: env.PLACES_MODEL || 'gemini-2.5-flash', // Maps grounding needs a 2.5 model
+  };
+  const tools = {
+    analysis: parseTools(env.ANALYSIS_TOOLS, []),
+    search: parseTools(env.SEARCH_TOOLS, ['googleSearch']),
+    places: parseTools(env.PLACES_TOOLS, ['googleMaps']),
+  };
+  const toTools = (names) => names.map((name) => ({ [name]: {} }));
+  const groundingOf = (response) => response?.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  const blockReason = (response) =>
+    response?.promptFeedback?.blockReason
+    || BLOCKING_FINISH_REASONS.find((r) => r === response?.candidates?.[0]?.finishReason);
+
+  return {
+    models,
+
+    analyzeStream: ({ media, prompt, systemInstruction, responseSchema }, signal) =>
+      ai.models.generateContentStream({
+        model: models.analysis,
+        contents: { parts: [...media, { text: prompt }] },
+        config: {
+          tools: toTools(tools.analysis),
+          responseMimeType: 'application/json',
+          responseSchema,
+          systemInstruction,
+          abortSignal: signal,
+        },
+      }),
+
+    groundingOf,
+    blockReason,
+
+    async search({ prompt }, signal) {
+      const response = await ai.models.generateContent({
+        model: models.search,
+        contents: { parts: [{ text: prompt }] },
+        config: { tools: toTools(tools.search), abortSignal: signal },
+      });
+      return groundingOf(response);
+    },
+
+    async places({ prompt, location }, signal) {
+      const response = await ai.models.generateContent({
+        model: models.places,
+        contents: { parts: [{ text: prompt }] },
+        config: {
+          tools: toTools(tools.places),
+          toolConfig: { retrievalConfig: { latLng: { latitude: location.lat, longitude: location.lng } } },
+          abortSignal: signal,
+        },
+      });
+      return { text: response.text || '', grounding: groundingOf(response) };
+    },
+
+    async compare({ parts, prompt, responseSchema }, signal) {
+      const response = await ai.models.generateContent({
+        model: models.analysis,
+        contents: { parts: [...parts, { text: prompt }] },
+        config: { responseMimeType: 'application/json', responseSchema, abortSignal: signal },
+      });
+      return response.text || '';
+    },
+
+    async match({ media, prompt, responseSchema }, signal) {
+      const response = await ai.models.generateContent({
+        model: models.analysis,
+        contents: { parts: [...media, { text: prompt }] },
+        config: { responseMimeType: 'application/json', responseSchema, abortSignal: signal },
+      });
+      return { text: response.text || '', blockReason: blockReason(response) };
+    },
+
+    // Media rides along with the first user turn
+    async chat({ media, systemInstruction, messages }, signal) {
+      const response = await ai.models.generateContent({
+        model: models.analysis,
+        contents: messages.map((m, i) => ({ role: m.role, parts: i === 0 ? [...media, { text: m.text }] : [{ text: m.text }] })),
+        config: { systemInstruction, abortSignal: signal },
+      });
+      return { text: response.text || '', blockReason: blockReason(response) };
+    },
+  };
+};
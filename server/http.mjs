@@ -0,0 +1,98 @@
+// --- HTTP Helpers ---
+//
+// Every failure leaves the server as { error: { code, message, ...details } }
+// so the client can tell rate limits and size limits apart from model errors.
+
+export class ApiError extends Error {
+  constructor(status, code, message, details = {}) {
+    super(message);
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export const sendJson = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+// Upstream quota and validation errors keep their meaning (and message) so
+// the client can tell them apart; anything else is a generic 502.
+const fromUpstream = (err) => {
+  const status = Number(err?.status || 0);
+  if (status === 429) return new ApiError(429, 'rate_limited', 'The AI service quota was exceeded.', { upstreamStatus: status });
+  if (status >= 400 && status < 500) return new ApiError(400, 'upstream_rejected', String(err?.message || 'The AI service rejected the request.'), { upstreamStatus: status });
+  return new ApiError(502, 'upstream_error', 'The AI service request failed.', { upstreamStatus: status || undefined });
+};
+
+export const sendError = (res, err) => {
+  const apiError = err instanceof ApiError ? err : fromUpstream(err);
+  if (!(err instanceof ApiError)) console.error(err);
+  const headers = apiError.details.retryAfter ? { 'Retry-After': String(apiError.details.retryAfter) } : {};
+  // Oversized bodies are not drained, so the connection cannot be reused.
+  if (apiError.status === 413) headers.Connection = 'close';
+  if (res.headersSent) return res.end();
+  sendJson(res, apiError.status, { error: { code: apiError.code, message: apiError.message, ...apiError.details } }, headers);
+};
+
+export const readBody = (req, maxBytes) =>
+  new Promise((resolve, reject) => {
+    const declared = Number(req.headers['content-length'] || 0);
+    if (declared > maxBytes) return reject(tooLarge(maxBytes));
+    const chunks = [];
+    let size = 0;
+    req.on('data', (c) => {
+      size += c.length;
+      if (size > maxBytes) {
+        req.pause();
+        reject(tooLarge(maxBytes));
+      } else {
+        chunks.push(c);
+      }
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const formatBytes = (bytes) => (bytes >= 1048576 ? `${Math.round(bytes / 1048576)} MB` : `${Math.round(bytes / 1024)} KB`);
+
+const tooLarge = (maxBytes) =>
+  new ApiError(413, 'payload_too_large', `Request body exceeds ${formatBytes(maxBytes)}.`, { limitBytes: maxBytes });
+
+export const readJson = async (req, maxBytes) => {
+  const body = await readBody(req, maxBytes);
+  try {
+    return JSON.parse(body.toString() || '{}');
+  } catch {
+    throw new ApiError(400, 'bad_request', 'Request body is not valid JSON.');
+  }
+};
+
+// --- Rate Limiting ---
+
+// Fixed window per client. Counters live in memory, which is fine for a
+// single instance; put a shared store behind this if the proxy is scaled out.
+export const createRateLimiter = ({ windowMs, max }) => {
+  const windows = new Map(); // client -> { start, count }
+
+  return (client) => {
+    const now = Date.now();
+    let entry = windows.get(client);
+    if (!entry || now - entry.start >= windowMs) {
+      entry = { start: now, count: 0 };
+      windows.set(client, entry);
+    }
+    entry.count += 1;
+    if (entry.count > max) {
+      const retryAfter = Math.ceil((entry.start + windowMs - now) / 1000);
+      throw new ApiError(429, 'rate_limited', 'Too many requests. Try again shortly.', { retryAfter });
+    }
+    if (windows.size > 10000) {
+      for (const [key, value] of windows) if (now - value.start >= windowMs) windows.delete(key);
+    }
+  };
+};
+
+export const clientId = (req, trustProxy) =>
+  (trustProxy && String(req.headers['x-forwarded-for'] || '').split(',')[0].trim()) || req.socket.remoteAddress || 'unknown';
@@ -0,0 +1,252 @@
+// API proxy for the React app. Holds GEMINI_API_KEY so it never ships in the
+// client bundle. Run with `npm run server`; in development the Vite dev
+// server forwards /api to it.
+import { randomUUID } from 'node:crypto';
+import http from 'node:http';
+import { ApiError, clientId, createRateLimiter, readBody, readJson, sendError, sendJson } from './http.mjs';
+import { createGemini } from './gemini.mjs';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // Variables can also come from the environment directly.
+}
+
+const env = process.env;
+const PORT = Number(env.API_PORT || 8790);
+const UPSTREAM = env.UPLOAD_UPSTREAM || 'https://generativelanguage.googleapis.com';
+const TRUST_PROXY = env.TRUST_PROXY === '1';
+
+// Inline clips are capped at 10 MB by the client, which is ~13.3 MB as base64.
+const MAX_JSON_BYTES = 25 * 1024 * 1024;
+// Upload chunks are 8 MB; leave headroom for the final partial chunk.
+const MAX_CHUNK_BYTES = 9 * 1024 * 1024;
+const MAX_START_BYTES = 64 * 1024;
+
+const modelLimiter = createRateLimiter({ windowMs: 60_000, max: Number(env.RATE_LIMIT_PER_MINUTE || 20) });
+// Uploads send many chunks and poll for processing, and every video card
+// may follow a redirect, so these get more room.
+const fileLimiter = createRateLimiter({ windowMs: 60_000, max: Number(env.FILE_RATE_LIMIT_PER_MINUTE || 240) });
+
+const gemini = env.GEMINI_API_KEY ? createGemini(env) : null;
+
+const requireGemini = () => {
+  if (!gemini) throw new ApiError(500, 'server_misconfigured', 'GEMINI_API_KEY is not set on the server.');
+  return gemini;
+};
+
+const requireString = (value, field) => {
+  if (typeof value !== 'string' || !value.trim()) throw new ApiError(400, 'bad_request', `"${field}" must be a non-empty string.`);
+  return value;
+};
+
+const requireArray = (value, field) => {
+  if (!Array.isArray(value)) throw new ApiError(400, 'bad_request', `"${field}" must be an array.`);
+  return value;
+};
+
+// Aborts the upstream call when the browser goes away (e.g. Cancel).
+const abortOnClose = (res) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+};
+
+// --- Model Endpoints ---
+
+const handleAnalyze = async (req, res) => {
+  const body = await readJson(req, MAX_JSON_BYTES);
+  requireArray(body.media, 'media');
+  requireString(body.prompt, 'prompt');
+  const ai = requireGemini();
+  const signal = abortOnClose(res);
+
+  // Errors before the first chunk get a normal error response; after that the
+  // status is already sent, so they are reported as a final NDJSON line.
+  const stream = await ai.analyzeStream(body, signal);
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  try {
+    for await (const chunk of stream) {
+      const reason = ai.blockReason(chunk);
+      if (reason) {
+        res.write(JSON.stringify({ error: { code: 'safety_blocked', message: 'The model declined to analyze this clip.', reason } }) + '\n');
+        break;
+      }
+      const grounding = ai.groundingOf(chunk);
+      if (!chunk.text && !grounding.length) continue;
+      res.write(JSON.stringify({ text: chunk.text || '', grounding }) + '\n');
+    }
+  } catch (err) {
+    if (signal.aborted) return;
+    console.error(err);
+    res.write(JSON.stringify({ error: { code: 'upstream_error', message: 'The analysis stream was interrupted.', upstreamStatus: err?.status } }) + '\n');
+  }
+  res.end();
+};
+
+const handleSearch = async (req, res) => {
+  const body = await readJson(req, MAX_START_BYTES);
+  requireString(body.prompt, 'prompt');
+  sendJson(res, 200, { grounding: await requireGemini().search(body, abortOnClose(res)) });
+};
+
+const handlePlaces = async (req, res) => {
+  const body = await readJson(req, MAX_START_BYTES);
+  requireString(body.prompt, 'prompt');
+  if (!Number.isFinite(body.location?.lat) || !Number.isFinite(body.location?.lng)) {
+    throw new ApiError(400, 'bad_request', '"location" must have numeric lat and lng.');
+  }
+  sendJson(res, 200, await requireGemini().places(body, abortOnClose(res)));
+};
+
+const handleCompare = async (req, res) => {
+  const body = await readJson(req, MAX_JSON_BYTES);
+  requireArray(body.parts, 'parts');
+  requireString(body.prompt, 'prompt');
+  sendJson(res, 200, { text: await requireGemini().compare(body, abortOnClose(res)) });
+};
+
+const handleMatch = async (req, res) => {
+  const body = await readJson(req, MAX_JSON_BYTES);
+  requireArray(body.media, 'media');
+  requireString(body.prompt, 'prompt');
+  const { text, blockReason } = await requireGemini().match(body, abortOnClose(res));
+  if (blockReason) throw new ApiError(422, 'safety_blocked', 'The model declined to chart this match.', { reason: blockReason });
+  sendJson(res, 200, { text });
+};
+
+const CHAT_ROLES = ['user', 'model'];
+
+const handleChat = async (req, res) => {
+  const body = await readJson(req, MAX_JSON_BYTES);
+  requireArray(body.media, 'media');
+  requireString(body.systemInstruction, 'systemInstruction');
+  const messages = requireArray(body.messages, 'messages');
+  if (!messages.length || messages.some((m) => !CHAT_ROLES.includes(m?.role) || typeof m.text !== 'string')) {
+    throw new ApiError(400, 'bad_request', '"messages" must be a non-empty list of { role, text }.');
+  }
+  const { text, blockReason } = await requireGemini().chat(body, abortOnClose(res));
+  if (blockReason) throw new ApiError(422, 'safety_blocked', 'The model declined to answer.', { reason: blockReason });
+  sendJson(res, 200, { text });
+};
+
+// --- Files API Passthrough ---
+//
+// The browser speaks the normal resumable protocol against /api/files; the
+// key is added here and session URLs are rewritten to point back at us.
+// Upstream session URLs carry the key, so the browser only ever sees an
+// opaque id for them.
+
+const withKey = (url) => `${url}${url.includes('?') ? '&' : '?'}key=${env.GEMINI_API_KEY}`;
+
+const UPLOAD_HEADERS = [
+  'x-goog-upload-protocol',
+  'x-goog-upload-command',
+  'x-goog-upload-offset',
+  'x-goog-upload-header-content-length',
+  'x-goog-upload-header-content-type',
+  'content-type',
+];
+
+const forwardHeaders = (req) =>
+  Object.fromEntries(UPLOAD_HEADERS.filter((h) => req.headers[h]).map((h) => [h, String(req.headers[h])]));
+
+const relay = async (res, upstream, extraHeaders = {}) => {
+  const headers = { ...extraHeaders };
+  for (const h of ['x-goog-upload-size-received', 'x-goog-upload-status', 'content-type']) {
+    const value = upstream.headers.get(h);
+    if (value && !headers[h]) headers[h] = value;
+  }
+  res.writeHead(upstream.status, headers);
+  res.end(Buffer.from(await upstream.arrayBuffer()));
+};
+
+// Upload sessions stay resumable for about a week; uploads are kept for 48h.
+const UPLOAD_SESSION_TTL_MS = 48 * 60 * 60 * 1000;
+const uploadSessions = new Map(); // id -> { url, expiresAt }
+
+const handleUploadStart = async (req, res) => {
+  requireGemini();
+  const body = await readBody(req, MAX_START_BYTES);
+  const upstream = await fetch(withKey(`${UPSTREAM}/upload/v1beta/files`), { method: 'POST', headers: forwardHeaders(req), body });
+  const sessionUrl = upstream.headers.get('x-goog-upload-url');
+  const now = Date.now();
+  uploadSessions.forEach((session, id) => session.expiresAt < now && uploadSessions.delete(id));
+  let rewritten = {};
+  if (sessionUrl) {
+    const id = randomUUID();
+    uploadSessions.set(id, { url: sessionUrl, expiresAt: now + UPLOAD_SESSION_TTL_MS });
+    rewritten = { 'x-goog-upload-url': `/api/files/session/${id}` };
+  }
+  await relay(res, upstream, rewritten);
+};
+
+// A restarted server has forgotten its sessions; the client then starts over.
+const handleUploadSession = async (req, res, url) => {
+  requireGemini();
+  const session = uploadSessions.get(url.pathname.split('/').pop());
+  if (!session || session.expiresAt < Date.now()) throw new ApiError(404, 'not_found', 'Unknown upload session.');
+  const body = await readBody(req, MAX_CHUNK_BYTES);
+  const upstream = await fetch(session.url, { method: 'POST', headers: forwardHeaders(req), body });
+  await relay(res, upstream);
+};
+
+const handleFileStatus = async (req, res, url) => {
+  requireGemini();
+  const upstream = await fetch(withKey(`${UPSTREAM}${url.pathname.replace(/^\/api\/files/, '')}`));
+  await relay(res, upstream);
+};
+
+// --- Grounding Redirects ---
+//
+// Grounding links point at a Google redirect that hides the source. The
+// browser can't read a cross-origin redirect, so the target is read here.
+
+const REDIRECT_PREFIX = 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/';
+
+const handleResolveLink = async (req, res, url) => {
+  const uri = requireString(url.searchParams.get('uri'), 'uri');
+  // Only ever fetch grounding redirects, never an arbitrary URL.
+  if (!uri.startsWith(REDIRECT_PREFIX)) throw new ApiError(400, 'bad_request', 'Only grounding redirect links can be resolved.');
+  const upstream = await fetch(uri, { redirect: 'manual', signal: abortOnClose(res) });
+  const target = upstream.headers.get('location');
+  if (!target) throw new ApiError(404, 'not_found', 'The link no longer leads anywhere.');
+  sendJson(res, 200, { target });
+};
+
+// --- Routing ---
+
+const routes = [
+  { method: 'POST', path: /^\/api\/analyze$/, limiter: modelLimiter, handler: handleAnalyze },
+  { method: 'POST', path: /^\/api\/search$/, limiter: modelLimiter, handler: handleSearch },
+  { method: 'POST', path: /^\/api\/places$/, limiter: modelLimiter, handler: handlePlaces },
+  { method: 'POST', path: /^\/api\/compare$/, limiter: modelLimiter, handler: handleCompare },
+  { method: 'POST', path: /^\/api\/match$/, limiter: modelLimiter, handler: handleMatch },
+  { method: 'POST', path: /^\/api\/chat$/, limiter: modelLimiter, handler: handleChat },
+  { method: 'POST', path: /^\/api\/files\/upload\/v1beta\/files$/, limiter: fileLimiter, handler: handleUploadStart },
+  { method: 'POST', path: /^\/api\/files\/session\/[\w-]+$/, limiter: fileLimiter, handler: handleUploadSession },
+  { method: 'GET', path: /^\/api\/files\/v1beta\/files\/[\w-]+$/, limiter: fileLimiter, handler: handleFileStatus },
+  { method: 'GET', path: /^\/api\/links\/resolve$/, limiter: fileLimiter, handler: handleResolveLink },
+  {
+    method: 'GET',
+    path: /^\/api\/health$/,
+    handler: (req, res) => sendJson(res, 200, { ok: true, keyConfigured: Boolean(gemini), models: gemini?.models }),
+  },
+];
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  try {
+    const route = routes.find((r) => r.path.test(url.pathname));
+    if (!route) throw new ApiError(404, 'not_found', `No endpoint at ${url.pathname}.`);
+    if (route.method !== req.method) throw new ApiError(405, 'method_not_allowed', `Use ${route.method} for ${url.pathname}.`);
+    route.limiter?.(clientId(req, TRUST_PROXY));
+    await route.handler(req, res, url);
+  } catch (err) {
+    sendError(res, err);
+  }
+});
+
+server.listen(PORT, () => console.log(`API proxy listening on http://localhost:${PORT}${gemini ? '' : ' (GEMINI_API_KEY not set)'}`));
@@ -0,0 +1,129 @@
+import type { UploadOptions } from './fileUpload';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createProxyProvider } from './proxyProvider';
+
+// --- AI Provider ---
+//
+// App talks to the model through this interface only, so the backend can be
+// swapped via configuration: the server proxy (default), the offline mock, or
+// Gemini directly from the browser for local development.
+// Grounding chunks are passed through in the Gemini shape ({ web } / { maps })
+// because the result views already understand it.
+
+export type AiToolName = 'googleSearch' | 'googleMaps';
+
+export interface AiConfig {
+  provider: 'proxy' | 'gemini' | 'mock';
+  models: {
+    analysis: string;
+    search: string;
+    places: string;
+  };
+  tools: {
+    analysis: AiToolName[];
+    search: AiToolName[];
+    places: AiToolName[];
+  };
+}
+
+export interface CallOptions {
+  signal?: AbortSignal;
+}
+
+export interface AnalysisRequest {
+  sport: string;
+  strokes: string[]; // allowed stroke types, constrains the response schema
+  media: any[]; // content parts from prepareVideo or sampled frames
+  prompt: string;
+  systemInstruction?: string;
+}
+
+export interface AnalysisResponse {
+  text: string;
+  grounding: any[];
+}
+
+export interface SearchRequest {
+  sport: string;
+  prompt: string;
+}
+
+export interface PlacesRequest {
+  sport: string;
+  prompt: string;
+  location: { lat: number, lng: number };
+}
+
+// Grounding holds the places found; the text carries the model's details
+// about them (see services/places.ts).
+export interface PlacesResponse {
+  text: string;
+  grounding: any[];
+}
+
+export interface CompareRequest {
+  sport: string;
+  parts: any[];
+  prompt: string;
+}
+
+// A whole match charted point by point; the response is the JSON described
+// by services/matchSchema.ts.
+export interface MatchRequest {
+  sport: string;
+  strokes: string[];
+  media: any[];
+  prompt: string;
+}
+
+// A follow-up conversation about a finished analysis. The media goes with
+// the first user turn; messages alternate and end with the user's question.
+export interface ChatRequest {
+  sport: string;
+  media: any[];
+  systemInstruction: string;
+  messages: { role: 'user' | 'model', text: string }[];
+}
+
+export interface AiProvider {
+  id: AiConfig['provider'];
+  prepareVideo(file: File, options?: UploadOptions): Promise<any>;
+  // Streams the structured analysis JSON; onText receives the text so far.
+  analyzeVideo(request: AnalysisRequest, options?: CallOptions & { onText?: (text: string) => void }): Promise<AnalysisResponse>;
+  searchResources(request: SearchRequest, options?: CallOptions): Promise<any[]>;
+  findPlaces(request: PlacesRequest, options?: CallOptions): Promise<PlacesResponse>;
+  compareClips(request: CompareRequest, options?: CallOptions): Promise<string>;
+  analyzeMatch(request: MatchRequest, options?: CallOptions): Promise<string>;
+  chat(request: ChatRequest, options?: CallOptions): Promise<string>;
+}
+
+// AI_PROVIDER=mock runs the UI offline without a key. AI_PROVIDER=gemini
+// puts the key in the bundle, so keep it to local development. Models and
+// tools below only apply to the direct Gemini provider; the proxy reads its
+// own from the server environment.
+const PROVIDERS: AiConfig['provider'][] = ['proxy', 'gemini', 'mock'];
+
+export const DEFAULT_AI_CONFIG: AiConfig = {
+  provider: PROVIDERS.find((p) => p === process.env.AI_PROVIDER) || 'proxy',
+  models: {
+    analysis: process.env.ANALYSIS_MODEL || 'gemini-3-pro-preview',
+    search: process.env.SEARCH_MODEL || 'gemini-2.5-flash',
+    places: process.env.PLACES_MODEL || 'gemini-2.5-flash', // Maps grounding needs a 2.5 model
+  },
+  tools: {
+    analysis: [],
+    search: ['googleSearch'],
+    places: ['googleMaps'],
+  },
+};
+
+export const API_BASE_URL = '/api';
+
+export const createAiProvider = (config: AiConfig = DEFAULT_AI_CONFIG): AiProvider => {
+  if (config.provider === 'mock') return createMockProvider();
+  if (config.provider === 'gemini') return createGeminiProvider(config);
+  return createProxyProvider(API_BASE_URL);
+};
+
+export const aiProvider = createAiProvider();
@@ -0,0 +1,312 @@
+import { Type, Schema } from "@google/genai";
+import { normalizePlaces } from './places';
+import type { AnalysisIssue, AnalysisResult, CategoryScore, ComparisonSummary, Drill, ScoreCategory, Severity, StrokeBreakdown, StrokePhase } from '../types';
+
+// --- Response Schema ---
+
+export const SCORE_CATEGORIES: ScoreCategory[] = ['stance', 'swingPath', 'contactPoint', 'followThrough'];
+export const STROKE_PHASES: StrokePhase[] = ['preparation', 'backswing', 'forward swing', 'contact', 'follow-through', 'recovery'];
+export const SEVERITIES: Severity[] = ['low', 'medium', 'high'];
+
+export const SCORE_LABELS: Record<ScoreCategory, string> = {
+  stance: 'Stance',
+  swingPath: 'Swing Path',
+  contactPoint: 'Contact Point',
+  followThrough: 'Follow-through',
+};
+
+const issueSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    bodyPart: { type: Type.STRING, description: "e.g. 'Non-dominant arm', 'Hips', 'Wrist'" },
+    strokePhase: { type: Type.STRING, enum: STROKE_PHASES },
+    severity: { type: Type.STRING, enum: SEVERITIES },
+    description: { type: Type.STRING, description: "What is going wrong and why it matters." },
+    fix: { type: Type.STRING, description: "A concrete cue the player can apply." },
+    startTime: { type: Type.NUMBER, description: "Seconds from the start of the clip where the flaw first becomes visible." },
+    endTime: { type: Type.NUMBER, description: "Seconds from the start of the clip where the flawed movement ends." },
+  },
+  required: ['bodyPart', 'strokePhase', 'severity', 'description', 'fix', 'startTime', 'endTime'],
+};
+
+const drillSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    goal: { type: Type.STRING, description: "Which issue the drill fixes and how." },
+    repsOrDuration: { type: Type.STRING, description: "e.g. '3 sets of 15' or '10 minutes'" },
+    equipment: { type: Type.ARRAY, items: { type: Type.STRING } },
+    caution: { type: Type.STRING, description: "Only if the drill could aggravate an injury in the player profile: the risk and a safer variation." },
+  },
+  required: ['name', 'goal', 'repsOrDuration', 'equipment'],
+};
+
+// Stroke names come from the sport registry, so the schema is built per request.
+export const buildAnalysisResponseSchema = (strokeTypes: string[]): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    summary: {
+      type: Type.STRING,
+      description: "Two or three sentence overview of the player's technique.",
+    },
+    assumptions: {
+      type: Type.ARRAY,
+      description: "Each thing assumed about the player (level, handedness, backhand, age, injuries) and where it came from: the profile or the video.",
+      items: { type: Type.STRING },
+    },
+    scores: {
+      type: Type.ARRAY,
+      description: "One entry per category, scored 0 (poor) to 10 (textbook).",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          category: { type: Type.STRING, enum: SCORE_CATEGORIES },
+          score: { type: Type.NUMBER },
+          note: { type: Type.STRING, description: "One sentence justifying the score." },
+        },
+        required: ['category', 'score', 'note'],
+      },
+    },
+    strokes: {
+      type: Type.ARRAY,
+      description: "One entry per stroke type analyzed, in the order they first appear.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          stroke: strokeTypes.length ? { type: Type.STRING, enum: strokeTypes } : { type: Type.STRING },
+          summary: { type: Type.STRING, description: "One or two sentences on this stroke type." },
+          segments: {
+            type: Type.ARRAY,
+            description: "Every time this stroke is hit in the clip.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                startTime: { type: Type.NUMBER },
+                endTime: { type: Type.NUMBER },
+              },
+              required: ['startTime', 'endTime'],
+            },
+          },
+          issues: { type: Type.ARRAY, description: "Discrete technical flaws for this stroke, most severe first.", items: issueSchema },
+          drills: { type: Type.ARRAY, description: "1 to 3 drills targeting this stroke's issues.", items: drillSchema },
+        },
+        required: ['stroke', 'summary', 'segments', 'issues', 'drills'],
+      },
+    },
+  },
+  required: ['summary', 'assumptions', 'scores', 'strokes'],
+});
+
+export const comparisonResponseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "Two or three sentences on how the current clip differs from the reference." },
+    differences: {
+      type: Type.ARRAY,
+      description: "Most important differences first.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          aspect: { type: Type.STRING, description: "e.g. 'Contact point', 'Shoulder turn'" },
+          current: { type: Type.STRING, description: "What the player does in the current clip." },
+          reference: { type: Type.STRING, description: "What happens in the reference clip." },
+          suggestion: { type: Type.STRING, description: "How to close the gap." },
+        },
+        required: ['aspect', 'current', 'reference', 'suggestion'],
+      },
+    },
+  },
+  required: ['summary', 'differences'],
+};
+
+// --- Parsing ---
+
+export interface StructuredAnalysis {
+  summary: string;
+  scores: CategoryScore[];
+  strokes: StrokeBreakdown[];
+  issues: AnalysisIssue[];
+  drills: Drill[];
+  assumptions: string[];
+}
+
+const asString = (v: any, fallback = ""): string => (typeof v === 'string' ? v.trim() : fallback);
+
+const pick = <T extends string>(v: any, allowed: T[], fallback: T): T =>
+  allowed.includes(v) ? v : fallback;
+
+const asArray = (v: any): any[] => (Array.isArray(v) ? v : []);
+
+const parseRange = (r: any) => {
+  const startTime = Math.max(0, Number(r?.startTime) || 0);
+  return { startTime, endTime: Math.max(startTime, Number(r?.endTime) || startTime) };
+};
+
+const parseIssue = (i: any, stroke?: string): AnalysisIssue => ({
+  bodyPart: asString(i?.bodyPart, "General"),
+  strokePhase: pick(i?.strokePhase, STROKE_PHASES, 'contact'),
+  severity: pick(i?.severity, SEVERITIES, 'medium'),
+  description: asString(i?.description),
+  fix: asString(i?.fix),
+  ...parseRange(i),
+  ...(stroke ? { stroke } : {}),
+});
+
+const parseDrill = (d: any, stroke?: string): Drill => ({
+  name: asString(d?.name, "Drill"),
+  goal: asString(d?.goal),
+  repsOrDuration: asString(d?.repsOrDuration),
+  equipment: asArray(d?.equipment).map((e: any) => asString(e)).filter(Boolean),
+  ...(stroke ? { stroke } : {}),
+  ...(asString(d?.caution) ? { caution: asString(d.caution) } : {}),
+});
+
+// The schema is enforced server-side, but the model can still return
+// out-of-range numbers or drop optional fields, so normalize everything.
+// Per-stroke issues and drills are also flattened onto the top level so
+// history and progress tracking can treat every analysis the same way.
+const parseScores = (raw: any): CategoryScore[] =>
+  asArray(raw)
+    .filter((s: any) => SCORE_CATEGORIES.includes(s?.category))
+    .map((s: any) => ({
+      category: s.category,
+      score: Math.min(10, Math.max(0, Number(s.score) || 0)),
+      note: asString(s.note),
+    }));
+
+const normalizeAnalysis = (raw: any, summaryFallback: string): StructuredAnalysis => {
+  const scores = parseScores(raw?.scores);
+
+  const issues: AnalysisIssue[] = [];
+  const drills: Drill[] = [];
+  const strokes: StrokeBreakdown[] = asArray(raw?.strokes).map((entry: any) => {
+    const stroke = asString(entry?.stroke, "Stroke");
+    issues.push(...asArray(entry?.issues).map((i: any) => parseIssue(i, stroke)).filter((i) => i.description));
+    drills.push(...asArray(entry?.drills).map((d: any) => parseDrill(d, stroke)));
+    return {
+      stroke,
+      summary: asString(entry?.summary),
+      segments: asArray(entry?.segments).map(parseRange),
+    };
+  });
+
+  return {
+    summary: asString(raw?.summary, summaryFallback),
+    scores,
+    strokes,
+    issues,
+    drills,
+    assumptions: asArray(raw?.assumptions).map((a: any) => asString(a)).filter(Boolean),
+  };
+};
+
+// Results read back from storage or an imported file are already flattened,
+// but may be hand-edited or from an older version, so every list the views
+// read is checked and missing ones come back empty.
+export const normalizeSavedResult = (raw: any): AnalysisResult => {
+  const strokeOf = (item: any) => asString(item?.stroke) || undefined;
+  const isLink = (chunk: any) => typeof chunk?.web?.uri === 'string';
+  const decisions = (list: any) => asArray(list).filter((d: any) => typeof d?.uri === 'string' && typeof d?.kind === 'string');
+  return {
+    summary: asString(raw?.summary),
+    scores: parseScores(raw?.scores),
+    ...(Array.isArray(raw?.strokes) ? {
+      strokes: raw.strokes.map((entry: any) => ({
+        stroke: asString(entry?.stroke, "Stroke"),
+        summary: asString(entry?.summary),
+        segments: asArray(entry?.segments).map(parseRange),
+      })),
+    } : {}),
+    issues: asArray(raw?.issues).map((i: any) => parseIssue(i, strokeOf(i))).filter((i) => i.description),
+    drills: asArray(raw?.drills).map((d: any) => parseDrill(d, strokeOf(d))),
+    videos: asArray(raw?.videos).filter(isLink),
+    coaches: asArray(raw?.coaches).filter(isLink),
+    places: normalizePlaces(asArray(raw?.places)),
+    ...(Array.isArray(raw?.assumptions) ? { assumptions: raw.assumptions.map((a: any) => asString(a)).filter(Boolean) } : {}),
+    ...(Array.isArray(raw?.resourceSources) ? { resourceSources: decisions(raw.resourceSources) } : {}),
+    ...(Array.isArray(raw?.placeSources) ? { placeSources: decisions(raw.placeSources) } : {}),
+  };
+};
+
+export const parseStructuredAnalysis = (text: string): StructuredAnalysis => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Model returned malformed analysis JSON.");
+  }
+  return normalizeAnalysis(raw, "Analysis unavailable.");
+};
+
+// --- Streaming ---
+
+// Closes whatever strings, objects and arrays are still open at the end of a
+// truncated JSON document so the prefix received so far can be parsed.
+export const closePartialJson = (text: string): string => {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') inString = true;
+    else if (ch === '{') closers.push('}');
+    else if (ch === '[') closers.push(']');
+    else if (ch === '}' || ch === ']') closers.pop();
+  }
+
+  let out = text;
+  if (inString) out = (escaped ? out.slice(0, -1) : out) + '"';
+  out = out.replace(/[\s,]+$/, '');
+  if (out.endsWith(':')) out += 'null';
+  return out + closers.reverse().join('');
+};
+
+// Best-effort view of an analysis that is still streaming in. A prefix that
+// ends mid-key or mid-literal is backed up to the previous comma; if that
+// still fails, returns null and callers keep showing the previous partial.
+export const parsePartialAnalysis = (text: string): StructuredAnalysis | null => {
+  let prefix = text;
+  for (let attempt = 0; attempt < 3 && prefix.trim(); attempt++) {
+    try {
+      return normalizeAnalysis(JSON.parse(closePartialJson(prefix)), "");
+    } catch {
+      prefix = prefix.slice(0, Math.max(0, prefix.lastIndexOf(',')));
+    }
+  }
+  return null;
+};
+
+// Moves every timestamp by `offset` seconds, e.g. when the model only saw a
+// trimmed copy of the clip.
+export const shiftAnalysisTimes = <T extends Pick<StructuredAnalysis, 'issues' | 'strokes'>>(analysis: T, offset: number): T => {
+  if (!offset) return analysis;
+  const shift = <R extends { startTime: number, endTime: number }>(r: R): R => ({ ...r, startTime: r.startTime + offset, endTime: r.endTime + offset });
+  return {
+    ...analysis,
+    issues: analysis.issues.map(shift),
+    strokes: analysis.strokes.map((s) => ({ ...s, segments: s.segments.map(shift) })),
+  };
+};
+
+export const parseComparison = (text: string): ComparisonSummary => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Model returned malformed comparison JSON.");
+  }
+  return {
+    summary: asString(raw?.summary, "Comparison unavailable."),
+    differences: (Array.isArray(raw?.differences) ? raw.differences : [])
+      .map((d: any) => ({
+        aspect: asString(d?.aspect, "Technique"),
+        current: asString(d?.current),
+        reference: asString(d?.reference),
+        suggestion: asString(d?.suggestion),
+      }))
+      .filter((d: any) => d.current || d.reference),
+  };
+};
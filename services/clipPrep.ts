@@ -0,0 +1,136 @@
+// --- Client-side Clip Preparation ---
+//
+// Trimming and keyframe sampling both run against a detached <video> element
+// so the visible preview keeps playing undisturbed.
+
+export interface TrimRange {
+  start: number;
+  end: number;
+}
+
+export interface SampledFrame {
+  time: number; // seconds into the original recording
+  data: string; // raw base64 JPEG, no data: prefix
+}
+
+export const FRAME_STEP = 1 / 30;
+export const MAX_SAMPLED_FRAMES = 120;
+const FRAME_MAX_WIDTH = 768;
+
+const loadDetachedVideo = (src: string): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('Could not read the selected video.'));
+    video.src = src;
+  });
+
+const seek = (video: HTMLVideoElement, time: number) =>
+  new Promise<void>((resolve) => {
+    video.onseeked = () => resolve();
+    video.currentTime = time;
+  });
+
+export const isTrimmed = (range: TrimRange | null, duration: number) =>
+  Boolean(range && duration > 0 && (range.start > 0.05 || range.end < duration - 0.05));
+
+export const sampledFrameCount = (range: TrimRange, fps: number) =>
+  Math.min(MAX_SAMPLED_FRAMES, Math.max(1, Math.floor((range.end - range.start) * fps) + 1));
+
+// Selections too long for the frame cap are spread over the whole range at
+// a lower rate, rather than stopping part way through.
+export const effectiveFps = (range: TrimRange, fps: number) => {
+  const count = sampledFrameCount(range, fps);
+  const duration = range.end - range.start;
+  return count < MAX_SAMPLED_FRAMES || duration <= 0 ? fps : Math.min(fps, (count - 1) / duration);
+};
+
+export const formatFps = (fps: number) => (Number.isInteger(fps) ? String(fps) : fps.toFixed(1));
+
+export const sampleTimes = (range: TrimRange, fps: number) => {
+  const step = 1 / effectiveFps(range, fps);
+  return Array.from({ length: sampledFrameCount(range, fps) }, (_, i) => Math.min(range.end, range.start + i * step));
+};
+
+// Grabs JPEG stills at the requested rate. Capped at MAX_SAMPLED_FRAMES to keep
+// the request well under the inline payload limit (see effectiveFps).
+export const sampleFrames = async (
+  src: string,
+  range: TrimRange,
+  fps: number,
+  onProgress?: (done: number, total: number) => void
+): Promise<SampledFrame[]> => {
+  const video = await loadDetachedVideo(src);
+  const scale = Math.min(1, FRAME_MAX_WIDTH / (video.videoWidth || FRAME_MAX_WIDTH));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round((video.videoWidth || FRAME_MAX_WIDTH) * scale);
+  canvas.height = Math.round((video.videoHeight || FRAME_MAX_WIDTH * 0.5625) * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available in this browser.');
+
+  const times = sampleTimes(range, fps);
+  const frames: SampledFrame[] = [];
+  for (const time of times) {
+    await seek(video, time);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    frames.push({ time, data: canvas.toDataURL('image/jpeg', 0.8).split(',')[1] });
+    onProgress?.(frames.length, times.length);
+  }
+  video.removeAttribute('src');
+  video.load();
+  return frames;
+};
+
+// Single still for history thumbnails.
+export const captureFrame = async (src: string, time: number, maxWidth = 320): Promise<string> => {
+  const video = await loadDetachedVideo(src);
+  await seek(video, time);
+  const scale = Math.min(1, maxWidth / (video.videoWidth || maxWidth));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round((video.videoWidth || maxWidth) * scale);
+  canvas.height = Math.round((video.videoHeight || maxWidth * 0.5625) * scale);
+  canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+  video.removeAttribute('src');
+  video.load();
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+// Re-records the selected segment in real time via captureStream. Returns null
+// where the browser lacks captureStream/MediaRecorder (e.g. Safari) so callers
+// can fall back to sending the full file with offsets.
+export const recordSegment = async (src: string, range: TrimRange): Promise<File | null> => {
+  const probe = document.createElement('video') as HTMLVideoElement & { captureStream?: () => MediaStream };
+  if (typeof probe.captureStream !== 'function' || typeof MediaRecorder === 'undefined') return null;
+
+  const video = (await loadDetachedVideo(src)) as HTMLVideoElement & { captureStream: () => MediaStream };
+  await seek(video, range.start);
+
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find((t) => MediaRecorder.isTypeSupported(t));
+  if (!mimeType) return null;
+
+  const recorder = new MediaRecorder(video.captureStream(), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => e.data.size && chunks.push(e.data);
+  const stopped = new Promise<void>((resolve) => (recorder.onstop = () => resolve()));
+
+  const onTime = () => {
+    if (video.currentTime >= range.end || video.ended) {
+      video.removeEventListener('timeupdate', onTime);
+      video.pause();
+      if (recorder.state !== 'inactive') recorder.stop();
+    }
+  };
+  video.addEventListener('timeupdate', onTime);
+  video.addEventListener('ended', onTime);
+
+  recorder.start();
+  await video.play();
+  await stopped;
+
+  video.removeAttribute('src');
+  video.load();
+  return new File(chunks, `clip-${range.start.toFixed(1)}-${range.end.toFixed(1)}.webm`, { type: 'video/webm' });
+};
@@ -0,0 +1,104 @@
+import { aiProvider } from './aiProvider';
+import { SEVERITIES } from './analysisSchema';
+import { withRetry } from './errors';
+import { formatTimestamp } from '../utils/time';
+import type { AnalysisResult, ChatMessage } from '../types';
+
+// --- Coach Chat ---
+//
+// Follow-up questions about a finished analysis. Every turn resends the clip
+// (or its frames) and the report, so answers stay grounded in what the model
+// saw, and answers cite moments in the clip with bracketed timestamps that
+// the chat turns into seek links.
+
+// The media the analysis used, and where it starts in the full video
+export interface ChatMedia {
+  parts: any[];
+  timeOffset: number;
+}
+
+export type ChatSegment = { text: string } | { start: number, end: number };
+
+// Older turns are dropped from the request, not from the saved chat
+const MAX_CONTEXT_MESSAGES = 20;
+
+export const createChatMessage = (role: ChatMessage['role'], text: string): ChatMessage => ({
+  id: `msg-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  role,
+  text,
+  createdAt: Date.now(),
+});
+
+// The report as the model needs it: no grounding links, times as m:ss
+const describeResult = (result: AnalysisResult) => {
+  const lines = [
+    `Summary: ${result.summary}`,
+    `Scores (0-10): ${result.scores.map((s) => `${s.category} ${s.score}`).join(', ')}`,
+    'Issues:',
+    ...result.issues.map((i, n) =>
+      `${n + 1}. [${formatTimestamp(i.startTime)}-${formatTimestamp(i.endTime)}] ${i.stroke ? `${i.stroke}, ` : ''}${i.bodyPart}, ${i.strokePhase}, ${i.severity} severity: ${i.description} Fix: ${i.fix}`),
+    'Drills:',
+    ...result.drills.map((d, n) =>
+      `${n + 1}. ${d.name}${d.stroke ? ` (${d.stroke})` : ''}: ${d.goal} ${d.repsOrDuration}. Equipment: ${d.equipment.join(', ') || 'none'}.${d.caution ? ` Caution: ${d.caution}` : ''}`),
+    ...(result.assumptions?.length ? [`Assumed about the player: ${result.assumptions.join('; ')}`] : []),
+  ];
+  return lines.join('\n');
+};
+
+export const buildChatInstruction = (sport: string, persona: string, result: AnalysisResult, media: ChatMedia) => `
+${persona}
+You already analyzed the player's ${sport} clip; your report is below. Answer the player's follow-up questions about it in a few short paragraphs, as their coach would.
+${media.parts.length ? '' : 'The clip itself is no longer available, so answer from the report only and say so if a question needs the video.'}
+${media.timeOffset > 0 ? `The clip you are given starts ${media.timeOffset.toFixed(2)}s into the full video. Add ${media.timeOffset.toFixed(2)}s to times you read from the clip.` : ''}
+When you refer to a moment in the clip, cite it in the full video's time as [m:ss] or a range as [m:ss-m:ss], for example [0:04] or [0:04-0:06].
+When asked to change a drill, keep its goal and give reps or duration and equipment.
+
+Report:
+${describeResult(result)}
+`.trim();
+
+export const askCoach = async (
+  { sport, persona, result, media, history }: { sport: string, persona: string, result: AnalysisResult, media: ChatMedia, history: ChatMessage[] },
+  signal?: AbortSignal
+): Promise<string> => {
+  // Requests must open with a user turn
+  const recent = history.slice(-MAX_CONTEXT_MESSAGES);
+  const messages = recent.slice(recent.findIndex((m) => m.role === 'user')).map(({ role, text }) => ({ role, text }));
+  return withRetry((attemptSignal) => aiProvider.chat({
+    sport,
+    media: media.parts,
+    systemInstruction: buildChatInstruction(sport, persona, result, media),
+    messages,
+  }, { signal: attemptSignal }), { signal });
+};
+
+// --- Citations ---
+
+const TIME = String.raw`(\d{1,2}):(\d{2}(?:\.\d+)?)`;
+const CITATION = new RegExp(String.raw`\[${TIME}(?:\s*[-–]\s*${TIME})?\]`, 'g');
+
+const toSeconds = (m: string, s: string) => Number(m) * 60 + Number(s);
+
+export const splitCitations = (text: string): ChatSegment[] => {
+  const segments: ChatSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CITATION)) {
+    const start = toSeconds(match[1], match[2]);
+    const end = match[3] ? toSeconds(match[3], match[4]) : start;
+    if (match.index! > last) segments.push({ text: text.slice(last, match.index) });
+    segments.push({ start, end: Math.max(start, end) });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+};
+
+// Starter questions drawn from the report's worst issue and first drill
+export const suggestedQuestions = (result: AnalysisResult): string[] => {
+  const worst = [...result.issues].sort((a, b) => SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity))[0];
+  return [
+    worst && `Why does my ${worst.bodyPart.toLowerCase()} go wrong in the ${worst.strokePhase} phase?`,
+    result.drills[0] && `Give me a version of "${result.drills[0].name}" I can do without a partner.`,
+    'What should I focus on first?',
+  ].filter(Boolean) as string[];
+};
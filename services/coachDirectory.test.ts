@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { COACHES } from '../data/coaches';
+import { matchCoaches } from './coachDirectory';
+import type { AnalysisIssue, Coach } from '../types';
+
+const coach: Coach = { ...COACHES[0], specialties: ['Net Play', 'Serve', 'Wall Play'] };
+
+const issue = (description: string): AnalysisIssue => ({
+  bodyPart: 'Torso', strokePhase: 'contact', severity: 'medium', description, fix: '', startTime: 0, endTime: 1,
+});
+
+const focus = (description: string) => matchCoaches([coach], [issue(description)])[0].matchedFocus;
+
+describe('matchCoaches', () => {
+  it('matches specialty keywords at word starts', () => {
+    expect(focus('Drifts back from the net after the first volley')).toContain('Net Play');
+    expect(focus('Serves with a low toss')).toContain('Serve');
+  });
+
+  it('ignores keywords inside other words', () => {
+    expect(focus('Breaks the kinetic chain; observe how the hips preserve rotation')).toEqual([]);
+    expect(focus('Seems to swallow the follow-through')).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import { COACHES } from '../data/coaches';
+import { distanceKm } from '../utils/geo';
+import { hasWordStart } from '../utils/text';
+import type { AnalysisIssue, Coach, ContactRequest, LatLng } from '../types';
+
+// --- Coach Directory ---
+
+export interface CoachSource {
+  list(sport: string): Promise<Coach[]>;
+  requestContact(request: Omit<ContactRequest, 'id' | 'createdAt'>): Promise<ContactRequest>;
+}
+
+const CONTACT_REQUESTS_KEY = 'proform.contactRequests';
+
+// Serves the bundled directory and keeps booking requests in localStorage
+// until there is a backend to send them to.
+export const localCoachSource: CoachSource = {
+  async list(sport) {
+    return COACHES.filter((c) => c.sport === sport);
+  },
+
+  async requestContact(request) {
+    const saved: ContactRequest = { ...request, id: `contact-${Date.now().toString(36)}`, createdAt: Date.now() };
+    const existing: ContactRequest[] = JSON.parse(localStorage.getItem(CONTACT_REQUESTS_KEY) || '[]');
+    localStorage.setItem(CONTACT_REQUESTS_KEY, JSON.stringify([...existing, saved]));
+    return saved;
+  },
+};
+
+export const coachSource: CoachSource = localCoachSource;
+
+// --- Matching ---
+
+// Words in an issue that point at a specialty. Specialties without an entry
+// (mostly stroke names) match when their own name appears.
+const SPECIALTY_KEYWORDS: Record<string, string[]> = {
+  Footwork: ['footwork', 'feet', 'foot', 'split step', 'stance', 'movement', 'recovery', 'lunge', 'balance', 'weight transfer'],
+  Technique: ['grip', 'swing path', 'racket path', 'contact point', 'wrist', 'follow-through'],
+  Fitness: ['fatigue', 'explosive', 'endurance', 'flexibility'],
+  Serve: ['serve', 'toss', 'trophy'],
+  Volley: ['volley', 'punch'],
+  'Net Play': ['net', 'volley', 'kitchen'],
+  'Wall Play': ['wall', 'glass', 'off the wall'],
+  Dinks: ['dink', 'soft game'],
+  Strategy: ['shot selection', 'positioning', 'court position', 'tactic'],
+};
+
+export interface CoachMatch {
+  coach: Coach;
+  distanceKm?: number;
+  matchedFocus: string[]; // specialties that address issues found in the analysis
+}
+
+export type CoachSort = 'match' | 'distance' | 'rating';
+
+const issueText = (issue: AnalysisIssue) =>
+  `${issue.bodyPart} ${issue.strokePhase} ${issue.description} ${issue.stroke || ''}`.toLowerCase();
+
+export const matchCoaches = (coaches: Coach[], issues: AnalysisIssue[], near?: LatLng | null): CoachMatch[] => {
+  const texts = issues.map(issueText);
+  return coaches.map((coach) => ({
+    coach,
+    distanceKm: near ? distanceKm(near, coach.location) : undefined,
+    matchedFocus: coach.specialties.filter((specialty) => {
+      const keywords = SPECIALTY_KEYWORDS[specialty] || [specialty.toLowerCase()];
+      return texts.some((text) => keywords.some((k) => hasWordStart(text, k)));
+    }),
+  }));
+};
+
+export const sortCoaches = (matches: CoachMatch[], sort: CoachSort) =>
+  [...matches].sort((a, b) => {
+    if (sort === 'distance') return (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity);
+    if (sort === 'match' && a.matchedFocus.length !== b.matchedFocus.length) return b.matchedFocus.length - a.matchedFocus.length;
+    return b.coach.rating - a.coach.rating || b.coach.reviews - a.coach.reviews;
+  });
+
+export const formatPriceRange = ({ min, max, currency }: Coach['priceRange']) => {
+  const format = (n: number) => new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 0 }).format(n);
+  return `${format(min)}–${format(max)}/hr`;
+};
+
+export const formatSlot = ({ day, from, to }: Coach['availability'][number]) => `${day} ${from}–${to}`;
@@ -0,0 +1,111 @@
+import type { AnalysisIssue, AnalysisResult, CoachComment, CoachReview, Drill, ReviewContent, RevisedItem, SavedSession } from '../types';
+
+// --- Coach Review ---
+//
+// A review starts as a copy of the AI's issues and drills. The coach edits
+// the copy, approves it, and publishes it; the AI original is kept alongside
+// so every change can be shown against it. Publishing snapshots the revision,
+// so the student keeps seeing the last published version while the coach
+// works on the next one.
+
+const itemId = () => `rev-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const revise = <T>(items: T[]): RevisedItem<T>[] => items.map((value, origin) => ({ id: itemId(), origin, value }));
+
+export const createReview = (session: SavedSession, athleteId: string): CoachReview => {
+  const original: ReviewContent = { summary: session.result.summary, issues: session.result.issues, drills: session.result.drills };
+  return {
+    id: session.id,
+    athleteId,
+    sport: session.sport,
+    title: session.title,
+    thumbnail: session.thumbnail,
+    analyzedAt: session.createdAt,
+    scores: session.result.scores,
+    original,
+    summary: original.summary,
+    issues: revise(original.issues),
+    drills: revise(original.drills),
+    comments: [],
+    status: 'draft',
+    updatedAt: Date.now(),
+  };
+};
+
+export const reviewContent = (review: CoachReview): ReviewContent => ({
+  summary: review.summary,
+  issues: review.issues.map((i) => i.value),
+  drills: review.drills.map((d) => d.value),
+});
+
+// Any change to what the student would see withdraws the approval
+export const editReview = (review: CoachReview, patch: Partial<Pick<CoachReview, 'summary' | 'issues' | 'drills' | 'comments'>>): CoachReview =>
+  ({ ...review, ...patch, status: 'draft', updatedAt: Date.now() });
+
+export const approveReview = (review: CoachReview): CoachReview => ({ ...review, status: 'approved', updatedAt: Date.now() });
+
+export const publishReview = (review: CoachReview): CoachReview => {
+  if (review.status !== 'approved') throw new Error('Approve the review before publishing it.');
+  const publishedAt = Date.now();
+  return {
+    ...review,
+    status: 'published',
+    updatedAt: publishedAt,
+    published: { ...reviewContent(review), comments: review.comments, publishedAt },
+  };
+};
+
+export const newIssue = (): RevisedItem<AnalysisIssue> => ({
+  id: itemId(),
+  value: { bodyPart: '', strokePhase: 'preparation', severity: 'medium', description: '', fix: '', startTime: 0, endTime: 0 },
+});
+
+export const newDrill = (): RevisedItem<Drill> => ({
+  id: itemId(),
+  value: { name: '', goal: '', repsOrDuration: '', equipment: [] },
+});
+
+export const newComment = (text: string): CoachComment => ({ id: itemId(), text, createdAt: Date.now() });
+
+// The published report in the shape the analysis views render
+export const publishedResult = (review: CoachReview): AnalysisResult | null =>
+  review.published
+    ? { ...review.published, scores: review.scores, videos: [], coaches: [], places: [] }
+    : null;
+
+// --- Change Tracking ---
+
+export const ISSUE_FIELDS: (keyof AnalysisIssue)[] = ['bodyPart', 'strokePhase', 'severity', 'description', 'fix'];
+export const DRILL_FIELDS: (keyof Drill)[] = ['name', 'goal', 'repsOrDuration'];
+
+export interface ItemChange<T> {
+  change: 'edited' | 'added' | 'removed';
+  original?: T;
+  revised?: T;
+  fields: (keyof T)[]; // the fields that differ, for edits
+}
+
+export const changedFields = <T>(original: T, revised: T, fields: (keyof T)[]) =>
+  fields.filter((f) => String(original[f] ?? '').trim() !== String(revised[f] ?? '').trim());
+
+export const itemChanges = <T>(original: T[], revised: RevisedItem<T>[], fields: (keyof T)[]): ItemChange<T>[] => {
+  const kept = new Set(revised.map((r) => r.origin));
+  const changes: ItemChange<T>[] = [];
+  revised.forEach((r) => {
+    if (r.origin === undefined) {
+      changes.push({ change: 'added', revised: r.value, fields: [] });
+      return;
+    }
+    const diff = changedFields(original[r.origin], r.value, fields);
+    if (diff.length) changes.push({ change: 'edited', original: original[r.origin], revised: r.value, fields: diff });
+  });
+  original.forEach((o, i) => {
+    if (!kept.has(i)) changes.push({ change: 'removed', original: o, fields: [] });
+  });
+  return changes;
+};
+
+export const reviewChangeCount = (review: CoachReview) =>
+  (review.summary.trim() !== review.original.summary.trim() ? 1 : 0)
+  + itemChanges(review.original.issues, review.issues, ISSUE_FIELDS).length
+  + itemChanges(review.original.drills, review.drills, DRILL_FIELDS).length;
@@ -0,0 +1,143 @@
+import type { Athlete, CoachReview } from '../types';
+
+// --- Coach Store ---
+//
+// The roster and the reviews behind the coach workspace. Everything goes
+// through this interface, so the default localStorage store can be swapped
+// for a REST backend by setting COACH_API_URL (`npm run stub:coach` starts a
+// stand-in for it). Deleting an athlete deletes their reviews too.
+
+export interface CoachStore {
+  id: 'local' | 'rest';
+  listAthletes(): Promise<Athlete[]>;
+  saveAthlete(athlete: Athlete): Promise<void>;
+  deleteAthlete(id: string): Promise<void>;
+  listReviews(athleteId?: string): Promise<CoachReview[]>;
+  getReview(id: string): Promise<CoachReview | undefined>;
+  saveReview(review: CoachReview): Promise<void>;
+  deleteReview(id: string): Promise<void>;
+}
+
+export const createAthleteId = () => `ath-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const byName = (a: Athlete, b: Athlete) => a.name.localeCompare(b.name);
+const newestFirst = (a: CoachReview, b: CoachReview) => b.analyzedAt - a.analyzedAt;
+
+// --- Local Store ---
+
+const ATHLETES_KEY = 'proform.coach.athletes';
+const REVIEWS_KEY = 'proform.coach.reviews';
+
+const read = <T>(key: string): T[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+// Unlike the profile and library, a lost review is real work lost, so a full
+// quota is reported instead of swallowed.
+const write = (key: string, items: unknown[]) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(items));
+  } catch {
+    throw new Error('Browser storage is full. Delete old reviews or athletes and try again.');
+  }
+};
+
+const upsert = <T extends { id: string }>(items: T[], item: T) =>
+  items.some((i) => i.id === item.id) ? items.map((i) => (i.id === item.id ? item : i)) : [...items, item];
+
+export const createLocalCoachStore = (): CoachStore => ({
+  id: 'local',
+
+  async listAthletes() {
+    return read<Athlete>(ATHLETES_KEY).sort(byName);
+  },
+
+  async saveAthlete(athlete) {
+    write(ATHLETES_KEY, upsert(read<Athlete>(ATHLETES_KEY), athlete));
+  },
+
+  async deleteAthlete(id) {
+    write(REVIEWS_KEY, read<CoachReview>(REVIEWS_KEY).filter((r) => r.athleteId !== id));
+    write(ATHLETES_KEY, read<Athlete>(ATHLETES_KEY).filter((a) => a.id !== id));
+  },
+
+  async listReviews(athleteId) {
+    return read<CoachReview>(REVIEWS_KEY).filter((r) => !athleteId || r.athleteId === athleteId).sort(newestFirst);
+  },
+
+  async getReview(id) {
+    return read<CoachReview>(REVIEWS_KEY).find((r) => r.id === id);
+  },
+
+  async saveReview(review) {
+    write(REVIEWS_KEY, upsert(read<CoachReview>(REVIEWS_KEY), review));
+  },
+
+  async deleteReview(id) {
+    write(REVIEWS_KEY, read<CoachReview>(REVIEWS_KEY).filter((r) => r.id !== id));
+  },
+});
+
+// --- REST Store ---
+//
+// GET /athletes, PUT and DELETE /athletes/:id, GET /reviews[?athleteId=],
+// GET, PUT and DELETE /reviews/:id. Bodies are the objects themselves.
+
+export const createRestCoachStore = (baseUrl: string): CoachStore => {
+  const request = async (method: string, path: string, body?: unknown) => {
+    const res = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (res.status === 404 && method === 'GET') return undefined;
+    if (!res.ok) {
+      const message = (await res.json().catch(() => null))?.error?.message;
+      throw new Error(message || `Coach server request failed (${res.status}).`);
+    }
+    return res.status === 204 ? undefined : res.json();
+  };
+  const id = (value: string) => encodeURIComponent(value);
+
+  return {
+    id: 'rest',
+
+    async listAthletes() {
+      return ((await request('GET', '/athletes')) || []).sort(byName);
+    },
+
+    async saveAthlete(athlete) {
+      await request('PUT', `/athletes/${id(athlete.id)}`, athlete);
+    },
+
+    async deleteAthlete(athleteId) {
+      await request('DELETE', `/athletes/${id(athleteId)}`);
+    },
+
+    async listReviews(athleteId) {
+      const query = athleteId ? `?athleteId=${id(athleteId)}` : '';
+      return ((await request('GET', `/reviews${query}`)) || []).sort(newestFirst);
+    },
+
+    async getReview(reviewId) {
+      return request('GET', `/reviews/${id(reviewId)}`);
+    },
+
+    async saveReview(review) {
+      await request('PUT', `/reviews/${id(review.id)}`, review);
+    },
+
+    async deleteReview(reviewId) {
+      await request('DELETE', `/reviews/${id(reviewId)}`);
+    },
+  };
+};
+
+export const coachStore: CoachStore = process.env.COACH_API_URL
+  ? createRestCoachStore(process.env.COACH_API_URL)
+  : createLocalCoachStore();
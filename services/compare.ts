@@ -0,0 +1,46 @@
+import { aiProvider } from './aiProvider';
+import { parseComparison } from './analysisSchema';
+import { withRetry } from './errors';
+import { INLINE_LIMIT_BYTES } from './fileUpload';
+import { fillTemplate, getSport } from './sports';
+import type { ComparisonSummary } from '../types';
+
+// --- AI Differences Summary ---
+
+interface CompareOptions {
+  sport: string;
+  offsets: { current: number, reference: number };
+  signal?: AbortSignal;
+}
+
+// Sends both clips in a single analysis request. The offsets tell the model
+// which moments the user aligned, so it compares equivalent stroke phases.
+export const summarizeDifferences = async (current: File, reference: File, { sport, offsets, signal }: CompareOptions): Promise<ComparisonSummary> => {
+  // Both clips go in one request, so together they get one clip's inline budget
+  const inline = current.size + reference.size <= INLINE_LIMIT_BYTES;
+  const [currentPart, referencePart] = await Promise.all([
+    aiProvider.prepareVideo(current, { signal, inline }),
+    aiProvider.prepareVideo(reference, { signal, inline }),
+  ]);
+
+  const def = getSport(sport);
+  const prompt = `
+    ${fillTemplate(def.prompts.persona, { sport: def.name })} You are comparing two clips of the same stroke.
+    Clip A is the player's current attempt. Clip B is the reference.
+    The user aligned the clips so that ${offsets.current.toFixed(2)}s in clip A matches ${offsets.reference.toFixed(2)}s in clip B.
+    Compare preparation, contact and follow-through, and list the differences that matter most for the player.
+  `;
+
+  const text = await withRetry((attemptSignal) => aiProvider.compareClips({
+    sport,
+    parts: [
+      { text: "Clip A (current):" },
+      currentPart,
+      { text: "Clip B (reference):" },
+      referencePart,
+    ],
+    prompt,
+  }, { signal: attemptSignal }), { signal });
+
+  return parseComparison(text);
+};
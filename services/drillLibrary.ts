@@ -0,0 +1,74 @@
+import { normalizeUrl } from './sourceClassifier';
+import type { Drill, LibraryItem } from '../types';
+
+// --- Drill Library ---
+//
+// Videos and drills the player saved from any analysis, kept in
+// localStorage with their own tags and notes. Items are copies, so they
+// outlive the session they came from.
+
+const LIBRARY_KEY = 'proform.library';
+
+export const SKILL_TAGS = ['Technique', 'Footwork', 'Consistency', 'Power', 'Spin', 'Placement', 'Tactics', 'Fitness'];
+
+export const loadLibrary = (): LibraryItem[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LIBRARY_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveLibrary = (items: LibraryItem[]) => {
+  try {
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(items));
+  } catch {
+    // Over quota or private mode: the library still works until the page closes.
+  }
+};
+
+// Saving the same video or drill twice toggles it, whatever link form or
+// analysis it came from
+export const libraryKey = (item: Pick<LibraryItem, 'kind' | 'sport' | 'uri' | 'title'>) =>
+  item.kind === 'video' ? `video:${normalizeUrl(item.uri || '')}` : `drill:${item.sport}:${item.title.trim().toLowerCase()}`;
+
+const createItem = (fields: Omit<LibraryItem, 'id' | 'savedAt' | 'skills' | 'notes'>): LibraryItem => ({
+  id: `lib-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  skills: [],
+  notes: '',
+  savedAt: Date.now(),
+  ...fields,
+});
+
+export const videoItem = (sport: string, video: { uri: string, title: string }, strokes: string[] = [], sessionId?: string) =>
+  createItem({ kind: 'video', sport, title: video.title, uri: video.uri, strokes, sessionId });
+
+export const drillItem = (sport: string, drill: Drill, sessionId?: string) =>
+  createItem({ kind: 'drill', sport, title: drill.name, drill, strokes: drill.stroke ? [drill.stroke] : [], sessionId });
+
+export const toggleLibraryItem = (items: LibraryItem[], item: LibraryItem): LibraryItem[] => {
+  const key = libraryKey(item);
+  return items.some((i) => libraryKey(i) === key) ? items.filter((i) => libraryKey(i) !== key) : [item, ...items];
+};
+
+// --- Search ---
+
+export interface LibraryFilter {
+  query: string;
+  kind?: LibraryItem['kind'];
+  sport?: string;
+  stroke?: string;
+  skill?: string;
+}
+
+// Every word of the query has to appear somewhere in the item
+export const searchLibrary = (items: LibraryItem[], { query, kind, sport, stroke, skill }: LibraryFilter) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return items.filter((item) => {
+    if ((kind && item.kind !== kind) || (sport && item.sport !== sport)) return false;
+    if ((stroke && !item.strokes.includes(stroke)) || (skill && !item.skills.includes(skill))) return false;
+    const text = [item.title, item.notes, item.drill?.goal, ...item.strokes, ...item.skills].join(' ').toLowerCase();
+    return words.every((w) => text.includes(w));
+  });
+};
@@ -0,0 +1,151 @@
+// --- Error Classification ---
+//
+// Maps failures from the proxy, the Gemini SDK, fetch and the upload flow to a
+// small set of kinds the UI can give specific guidance for, and decides which
+// ones are worth retrying automatically.
+
+export type ErrorKind = 'tooLarge' | 'unsupportedMedia' | 'safety' | 'rateLimit' | 'network' | 'timeout' | 'unavailable' | 'unknown';
+
+export interface ClassifiedError {
+  kind: ErrorKind;
+  title: string;
+  guidance: string;
+  retryable: boolean;
+  retryAfterMs?: number;
+}
+
+// Thrown by providers when the model refuses to answer, which otherwise
+// looks like an empty or malformed response.
+export class BlockedResponseError extends Error {
+  reason: string;
+
+  constructor(reason: string) {
+    super(`Response blocked (${reason}).`);
+    this.name = 'BlockedResponseError';
+    this.reason = reason;
+  }
+}
+
+const GUIDANCE: Record<ErrorKind, Omit<ClassifiedError, 'kind' | 'retryAfterMs'>> = {
+  tooLarge: {
+    title: 'Video is too large',
+    guidance: 'Trim the clip to the strokes you want analyzed, or switch to Keyframes mode to send stills instead.',
+    retryable: false,
+  },
+  unsupportedMedia: {
+    title: 'Video format not supported',
+    guidance: 'Export the clip as MP4 (H.264) or WebM and upload it again. Screen recordings and HEVC files often fail.',
+    retryable: false,
+  },
+  safety: {
+    title: 'The model declined to analyze this clip',
+    guidance: 'Make sure the clip only shows gameplay. Crop out bystanders or unrelated content and try again.',
+    retryable: false,
+  },
+  rateLimit: {
+    title: 'Too many requests',
+    guidance: 'The AI service is rate limiting requests. Wait a minute before retrying.',
+    retryable: true,
+  },
+  network: {
+    title: 'You appear to be offline',
+    guidance: 'Check your internet connection, then retry. Your video and trim settings are kept.',
+    retryable: true,
+  },
+  timeout: {
+    title: 'The request took too long',
+    guidance: 'Long clips take longer to process. Trim the clip or retry.',
+    retryable: true,
+  },
+  unavailable: {
+    title: 'The AI service is unavailable',
+    guidance: 'This is usually temporary. Retry in a moment.',
+    retryable: true,
+  },
+  unknown: {
+    title: 'Something went wrong',
+    guidance: 'Retry, or try a different video if the problem continues.',
+    retryable: false,
+  },
+};
+
+const classification = (kind: ErrorKind, retryAfterMs?: number): ClassifiedError => ({ kind, ...GUIDANCE[kind], retryAfterMs });
+
+export const classifyError = (err: any): ClassifiedError => {
+  const message = String(err?.message || '').toLowerCase();
+  const code = String(err?.code || '');
+  // Prefer the upstream status the proxy saw; upload errors only carry the
+  // status in their message, e.g. "Chunk upload failed (413)."
+  const status = Number(err?.upstreamStatus || err?.status || message.match(/\((\d{3})\)/)?.[1] || 0);
+
+  if (err instanceof BlockedResponseError || code === 'safety_blocked' || /safety|blocked|prohibited content/.test(message)) {
+    return classification('safety');
+  }
+  if (err?.name === 'TimeoutError' || /deadline|timed? ?out/.test(message) || status === 504) {
+    return classification('timeout');
+  }
+  if (code === 'payload_too_large' || status === 413 || /too large|exceeds.*(size|limit)/.test(message)) {
+    return classification('tooLarge');
+  }
+  if (code === 'rate_limited' || status === 429 || /quota|resource.?exhausted|rate limit/.test(message)) {
+    return classification('rateLimit', err?.retryAfter ? err.retryAfter * 1000 : undefined);
+  }
+  if (/mime|codec|unsupported|could not be processed|invalid (video|file)/.test(message)) {
+    return classification('unsupportedMedia');
+  }
+  if ((typeof navigator !== 'undefined' && navigator.onLine === false) || /failed to fetch|network|\bload failed/.test(message)) {
+    return classification('network');
+  }
+  // Malformed JSON is usually a truncated stream, so treat it as transient.
+  if (code === 'upstream_error' || status >= 500 || /malformed/.test(message)) {
+    return classification('unavailable');
+  }
+  return classification('unknown');
+};
+
+// --- Retry with Backoff ---
+
+interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  baseDelayMs?: number;
+  timeoutMs?: number;
+  onRetry?: (attempt: number, error: ClassifiedError) => void;
+}
+
+const MAX_RETRY_DELAY_MS = 30_000;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(t);
+      reject(signal!.reason);
+    };
+    const t = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs `fn` with a per-attempt timeout and retries transient failures with
+// exponential backoff (or the server's Retry-After). Cancellation through
+// `signal` is never retried and rethrows as-is.
+export const withRetry = async <T>(fn: (signal: AbortSignal) => Promise<T>, { signal, retries = 2, baseDelayMs = 1000, timeoutMs, onRetry }: RetryOptions = {}): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    const timeout = timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined;
+    const attemptSignal = AbortSignal.any([signal, timeout].filter((s): s is AbortSignal => Boolean(s)));
+    try {
+      return await fn(attemptSignal);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      const failure = timeout?.aborted ? new DOMException('Request timed out', 'TimeoutError') : err;
+      const classified = classifyError(failure);
+      if (!classified.retryable || attempt >= retries) throw failure;
+      onRetry?.(attempt + 1, classified);
+      const backoff = baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.25);
+      await wait(Math.min(MAX_RETRY_DELAY_MS, classified.retryAfterMs ?? backoff), signal);
+    }
+  }
+};
@@ -0,0 +1,292 @@
+// --- Resumable Video Upload (Gemini Files API) ---
+//
+// Clips under INLINE_LIMIT_BYTES are sent as inlineData like before. Anything
+// larger goes through the resumable upload protocol in fixed-size chunks so we
+// can report progress, cancel, and pick up from the last acknowledged byte.
+
+// Gemini rejects requests over 20 MB, and base64 adds a third: 10 MB is about
+// 13.3 MB encoded, which leaves room for the prompt, schema and frames.
+export const INLINE_LIMIT_BYTES = 10 * 1024 * 1024;
+
+// Must be a multiple of 256 KiB for the resumable protocol.
+const CHUNK_SIZE = 8 * 1024 * 1024;
+const POLL_INTERVAL_MS = 2000;
+const SESSION_PREFIX = 'proform.upload.';
+const FILE_TTL_MS = 47 * 60 * 60 * 1000; // Files API keeps uploads for 48h
+
+export interface UploadedFile {
+  name: string;
+  uri: string;
+  mimeType: string;
+  state: string; // PROCESSING | ACTIVE | FAILED
+}
+
+export interface UploadProgress {
+  phase: 'uploading' | 'processing';
+  sentBytes: number;
+  totalBytes: number;
+}
+
+export interface UploadTransport {
+  start(file: File, signal?: AbortSignal): Promise<string>;
+  query(sessionUrl: string, signal?: AbortSignal): Promise<number>;
+  sendChunk(
+    sessionUrl: string,
+    chunk: Blob,
+    offset: number,
+    finalize: boolean,
+    onProgress: (loaded: number) => void,
+    signal?: AbortSignal
+  ): Promise<UploadedFile | null>;
+  getFile(name: string, signal?: AbortSignal): Promise<UploadedFile>;
+}
+
+export const isAbortError = (err: any) => err?.name === 'AbortError';
+
+const abortError = () => new DOMException('Upload cancelled', 'AbortError');
+
+// The uploaded file failed processing or is gone from the Files API, so
+// resuming from it can never succeed.
+export class FileUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileUnavailableError';
+  }
+}
+
+// Listeners come off once settled: the signal can outlive many polls.
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(t);
+      reject(abortError());
+    };
+    const t = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const toUploadedFile = (f: any): UploadedFile => ({
+  name: f.name,
+  uri: f.uri,
+  mimeType: f.mimeType,
+  state: f.state || 'PROCESSING',
+});
+
+// --- HTTP Transport ---
+
+// Speaks the Google resumable upload protocol. Point baseUrl at the stub
+// server in scripts/ to exercise the flow without network access.
+export const createHttpUploadTransport = ({ baseUrl, apiKey }: { baseUrl: string, apiKey?: string }): UploadTransport => {
+  const withKey = (url: string) => (apiKey ? `${url}${url.includes('?') ? '&' : '?'}key=${apiKey}` : url);
+
+  return {
+    async start(file, signal) {
+      const res = await fetch(withKey(`${baseUrl}/upload/v1beta/files`), {
+        method: 'POST',
+        signal,
+        headers: {
+          'X-Goog-Upload-Protocol': 'resumable',
+          'X-Goog-Upload-Command': 'start',
+          'X-Goog-Upload-Header-Content-Length': String(file.size),
+          'X-Goog-Upload-Header-Content-Type': file.type,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ file: { display_name: file.name } }),
+      });
+      const sessionUrl = res.headers.get('x-goog-upload-url');
+      if (!res.ok || !sessionUrl) throw new Error(`Upload session could not be started (${res.status}).`);
+      return sessionUrl;
+    },
+
+    async query(sessionUrl, signal) {
+      const res = await fetch(sessionUrl, {
+        method: 'POST',
+        signal,
+        headers: { 'X-Goog-Upload-Command': 'query' },
+      });
+      if (!res.ok) throw new Error(`Upload session expired (${res.status}).`);
+      return Number(res.headers.get('x-goog-upload-size-received') || 0);
+    },
+
+    // XHR rather than fetch: fetch has no upload progress events.
+    sendChunk(sessionUrl, chunk, offset, finalize, onProgress, signal) {
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+        const xhr = new XMLHttpRequest();
+        xhr.open('POST', sessionUrl);
+        xhr.setRequestHeader('X-Goog-Upload-Command', finalize ? 'upload, finalize' : 'upload');
+        xhr.setRequestHeader('X-Goog-Upload-Offset', String(offset));
+        xhr.upload.onprogress = (e) => onProgress(e.loaded);
+        xhr.onload = () => {
+          if (xhr.status < 200 || xhr.status >= 300) {
+            return reject(new Error(`Chunk upload failed (${xhr.status}).`));
+          }
+          if (!finalize) return resolve(null);
+          try {
+            resolve(toUploadedFile(JSON.parse(xhr.responseText).file));
+          } catch {
+            reject(new Error('Upload finished but the server response was unreadable.'));
+          }
+        };
+        xhr.onerror = () => reject(new Error('Network error during upload.'));
+        xhr.onabort = () => reject(abortError());
+        const onAbort = () => xhr.abort();
+        xhr.onloadend = () => signal?.removeEventListener('abort', onAbort);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        xhr.send(chunk);
+      });
+    },
+
+    async getFile(name, signal) {
+      const res = await fetch(withKey(`${baseUrl}/v1beta/${name}`), { signal });
+      if (res.status === 404) throw new FileUnavailableError('The uploaded video is no longer available.');
+      if (!res.ok) throw new Error(`Could not check upload status (${res.status}).`);
+      return toUploadedFile(await res.json());
+    },
+  };
+};
+
+// The key is only in the bundle when talking to Gemini directly; otherwise
+// uploads go through the server proxy, which adds it.
+export const defaultUploadTransport = createHttpUploadTransport({
+  baseUrl: process.env.UPLOAD_BASE_URL || (process.env.API_KEY ? 'https://generativelanguage.googleapis.com' : '/api/files'),
+  apiKey: process.env.API_KEY,
+});
+
+// --- Session Persistence ---
+
+interface StoredSession {
+  sessionUrl?: string;
+  file?: UploadedFile;
+  expiresAt?: number;
+}
+
+const fingerprint = (file: File) => `${SESSION_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+const loadSession = (file: File): StoredSession => {
+  try {
+    const stored: StoredSession = JSON.parse(localStorage.getItem(fingerprint(file)) || '{}');
+    if (stored.file && (stored.expiresAt || 0) < Date.now()) return {};
+    return stored;
+  } catch {
+    return {};
+  }
+};
+
+const saveSession = (file: File, session: StoredSession) => {
+  localStorage.setItem(fingerprint(file), JSON.stringify(session));
+};
+
+const clearSession = (file: File) => localStorage.removeItem(fingerprint(file));
+
+export const hasPendingUpload = (file: File) => Boolean(loadSession(file).sessionUrl);
+
+// --- Upload Flow ---
+
+export interface UploadOptions {
+  transport?: UploadTransport;
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+  inline?: boolean; // false forces the Files API, e.g. when clips share a request
+}
+
+const waitUntilActive = async (transport: UploadTransport, file: UploadedFile, signal?: AbortSignal) => {
+  let current = file;
+  while (current.state === 'PROCESSING') {
+    await sleep(POLL_INTERVAL_MS, signal);
+    current = await transport.getFile(current.name, signal);
+  }
+  if (current.state !== 'ACTIVE') throw new FileUnavailableError('The video could not be processed.');
+  return current;
+};
+
+// Uploads (or resumes uploading) a file and resolves once the Files API
+// reports it ACTIVE. Aborting keeps the session so the next call resumes.
+// A stored file that failed or expired is uploaded again.
+export const uploadVideoFile = async (file: File, { transport = defaultUploadTransport, signal, onProgress }: UploadOptions = {}): Promise<UploadedFile> => {
+  const total = file.size;
+  const session = loadSession(file);
+
+  if (session.file) {
+    onProgress?.({ phase: 'processing', sentBytes: total, totalBytes: total });
+    try {
+      // The stored state may be stale, so ask again before trusting it
+      return await waitUntilActive(transport, await transport.getFile(session.file.name, signal), signal);
+    } catch (err) {
+      if (!(err instanceof FileUnavailableError)) throw err;
+      clearSession(file);
+    }
+  }
+
+  let sessionUrl = session.sessionUrl;
+  let offset = 0;
+  if (sessionUrl) {
+    try {
+      offset = await transport.query(sessionUrl, signal);
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      sessionUrl = undefined;
+    }
+  }
+  if (!sessionUrl) {
+    sessionUrl = await transport.start(file, signal);
+    offset = 0;
+    saveSession(file, { sessionUrl });
+  }
+
+  let uploaded: UploadedFile | null = null;
+  while (!uploaded) {
+    const end = Math.min(offset + CHUNK_SIZE, total);
+    const finalize = end >= total;
+    const base = offset;
+    onProgress?.({ phase: 'uploading', sentBytes: base, totalBytes: total });
+    uploaded = await transport.sendChunk(
+      sessionUrl,
+      file.slice(offset, end),
+      offset,
+      finalize,
+      (loaded) => onProgress?.({ phase: 'uploading', sentBytes: base + loaded, totalBytes: total }),
+      signal
+    );
+    offset = end;
+  }
+
+  saveSession(file, { file: uploaded, expiresAt: Date.now() + FILE_TTL_MS });
+  onProgress?.({ phase: 'processing', sentBytes: total, totalBytes: total });
+  try {
+    return await waitUntilActive(transport, uploaded, signal);
+  } catch (err) {
+    // Resuming from a file that failed processing would fail the same way
+    if (err instanceof FileUnavailableError) clearSession(file);
+    throw err;
+  }
+};
+
+// --- Request Parts ---
+
+export const fileToBase64 = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      // Remove data:video/mp4;base64, prefix to get raw base64
+      const base64 = result.split(',')[1];
+      resolve(base64);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
+
+// Small clips go inline; larger ones use the resumable Files API upload.
+export const toVideoPart = async (file: File, options: UploadOptions = {}) => {
+  if (options.inline !== false && file.size <= INLINE_LIMIT_BYTES) {
+    return { inlineData: { mimeType: file.type, data: await fileToBase64(file) } };
+  }
+  const uploaded = await uploadVideoFile(file, options);
+  return { fileData: { mimeType: uploaded.mimeType, fileUri: uploaded.uri } };
+};
@@ -0,0 +1,119 @@
+import { GoogleGenAI } from "@google/genai";
+import { buildAnalysisResponseSchema, comparisonResponseSchema } from './analysisSchema';
+import { BlockedResponseError } from './errors';
+import { toVideoPart } from './fileUpload';
+import { buildMatchResponseSchema } from './matchSchema';
+import type { AiConfig, AiProvider, AiToolName, ChatRequest } from './aiProvider';
+
+// --- Gemini Provider ---
+
+const toTools = (names: AiToolName[]) => names.map((name) => ({ [name]: {} }));
+
+const groundingOf = (response: any): any[] =>
+  response?.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const throwIfBlocked = (response: any) => {
+  const reason = response?.promptFeedback?.blockReason
+    || BLOCKING_FINISH_REASONS.find((r) => r === response?.candidates?.[0]?.finishReason);
+  if (reason) throw new BlockedResponseError(reason);
+};
+
+const toChatContents = (media: any[], messages: ChatRequest['messages']) =>
+  messages.map((m, i) => ({ role: m.role, parts: i === 0 ? [...media, { text: m.text }] : [{ text: m.text }] }));
+
+export const createGeminiProvider = (config: AiConfig): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  return {
+    id: 'gemini',
+
+    prepareVideo: toVideoPart,
+
+    async analyzeVideo({ strokes, media, prompt, systemInstruction }, { signal, onText } = {}) {
+      const stream = await ai.models.generateContentStream({
+        model: config.models.analysis,
+        contents: { parts: [...media, { text: prompt }] },
+        config: {
+          tools: toTools(config.tools.analysis),
+          responseMimeType: "application/json",
+          responseSchema: buildAnalysisResponseSchema(strokes),
+          systemInstruction,
+          abortSignal: signal,
+        }
+      });
+
+      let text = "";
+      const grounding: any[] = [];
+      for await (const chunk of stream) {
+        throwIfBlocked(chunk);
+        grounding.push(...groundingOf(chunk));
+        if (chunk.text) {
+          text += chunk.text;
+          onText?.(text);
+        }
+      }
+      return { text, grounding };
+    },
+
+    async searchResources({ prompt }, { signal } = {}) {
+      const response = await ai.models.generateContent({
+        model: config.models.search,
+        contents: { parts: [{ text: prompt }] },
+        config: { tools: toTools(config.tools.search), abortSignal: signal },
+      });
+      return groundingOf(response);
+    },
+
+    async findPlaces({ prompt, location }, { signal } = {}) {
+      const response = await ai.models.generateContent({
+        model: config.models.places,
+        contents: { parts: [{ text: prompt }] },
+        config: {
+          tools: toTools(config.tools.places),
+          toolConfig: { retrievalConfig: { latLng: { latitude: location.lat, longitude: location.lng } } },
+          abortSignal: signal,
+        }
+      });
+      return { text: response.text || "", grounding: groundingOf(response) };
+    },
+
+    async compareClips({ parts, prompt }, { signal } = {}) {
+      const response = await ai.models.generateContent({
+        model: config.models.analysis,
+        contents: { parts: [...parts, { text: prompt }] },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: comparisonResponseSchema,
+          abortSignal: signal,
+        }
+      });
+      return response.text || "";
+    },
+
+    async analyzeMatch({ strokes, media, prompt }, { signal } = {}) {
+      const response = await ai.models.generateContent({
+        model: config.models.analysis,
+        contents: { parts: [...media, { text: prompt }] },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: buildMatchResponseSchema(strokes),
+          abortSignal: signal,
+        }
+      });
+      throwIfBlocked(response);
+      return response.text || "";
+    },
+
+    async chat({ media, systemInstruction, messages }, { signal } = {}) {
+      const response = await ai.models.generateContent({
+        model: config.models.analysis,
+        contents: toChatContents(media, messages),
+        config: { systemInstruction, abortSignal: signal },
+      });
+      throwIfBlocked(response);
+      return response.text || "";
+    },
+  };
+};
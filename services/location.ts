@@ -0,0 +1,69 @@
+import type { LatLng } from '../types';
+
+// --- User Location ---
+//
+// Where courts and coaches are searched from: the device position, or a
+// place the user typed or picked on the map. A manual choice is remembered
+// so it is not lost to the next permission prompt.
+
+export type LocationSource = 'device' | 'search' | 'map';
+
+export interface UserLocation extends LatLng {
+  label: string;
+  source: LocationSource;
+}
+
+const SAVED_LOCATION_KEY = 'proform.location';
+
+const GEOCODER_URL = 'https://nominatim.openstreetmap.org/search';
+
+export class LocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LocationError';
+  }
+}
+
+export const locateDevice = () =>
+  new Promise<UserLocation>((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new LocationError("This browser can't share its location."));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (p) => resolve({ lat: p.coords.latitude, lng: p.coords.longitude, label: 'Your location', source: 'device' }),
+      (e) => reject(new LocationError(
+        e.code === e.PERMISSION_DENIED ? 'Location access was denied.' : 'Your location could not be determined.'
+      )),
+      { timeout: 15000, maximumAge: 10 * 60 * 1000 }
+    );
+  });
+
+// City, ZIP or address to coordinates via OpenStreetMap's geocoder.
+export const geocode = async (query: string, signal?: AbortSignal): Promise<UserLocation> => {
+  const url = `${GEOCODER_URL}?format=jsonv2&limit=1&q=${encodeURIComponent(query)}`;
+  const res = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+  if (!res.ok) throw new LocationError(`Location search failed (${res.status}).`);
+  const [hit] = await res.json();
+  if (!hit) throw new LocationError(`No place called "${query}" was found.`);
+  return {
+    lat: Number(hit.lat),
+    lng: Number(hit.lon),
+    label: String(hit.display_name || query).split(',').slice(0, 2).join(','),
+    source: 'search',
+  };
+};
+
+export const loadSavedLocation = (): UserLocation | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SAVED_LOCATION_KEY) || 'null');
+    return saved && Number.isFinite(saved.lat) && Number.isFinite(saved.lng) ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveLocation = (location: UserLocation) => {
+  if (location.source === 'device') localStorage.removeItem(SAVED_LOCATION_KEY);
+  else localStorage.setItem(SAVED_LOCATION_KEY, JSON.stringify(location));
+};
@@ -0,0 +1,104 @@
+import { Type, Schema } from "@google/genai";
+import type { MatchAnalysis, MatchPoint, MatchShot, MatchSide, PointEnding } from '../types';
+
+// --- Match Response Schema ---
+//
+// The model charts the match point by point; every statistic is counted
+// from the points locally (services/matchStats.ts) so the numbers always
+// agree with the timeline.
+
+export const MATCH_SIDES: MatchSide[] = ['player', 'opponent'];
+export const POINT_ENDINGS: PointEnding[] = ['winner', 'unforced error', 'forced error', 'ace', 'double fault'];
+
+export const buildMatchResponseSchema = (strokeTypes: string[]): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "Two or three sentences on how the player won and lost points." },
+    points: {
+      type: Type.ARRAY,
+      description: "Every complete point in the video, in order.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          startTime: { type: Type.NUMBER, description: "Seconds from the start of the clip when the serve is struck." },
+          endTime: { type: Type.NUMBER, description: "Seconds from the start of the clip when the point is over." },
+          server: { type: Type.STRING, enum: MATCH_SIDES },
+          firstServeIn: { type: Type.BOOLEAN, description: "False if the point was played on a second serve or ended in a double fault." },
+          shots: {
+            type: Type.ARRAY,
+            description: "Every shot in order, starting with the serve that went in.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                time: { type: Type.NUMBER, description: "Seconds from the start of the clip at contact." },
+                by: { type: Type.STRING, enum: MATCH_SIDES },
+                stroke: strokeTypes.length ? { type: Type.STRING, enum: strokeTypes } : { type: Type.STRING },
+              },
+              required: ['time', 'by', 'stroke'],
+            },
+          },
+          ending: { type: Type.STRING, enum: POINT_ENDINGS },
+          endedBy: { type: Type.STRING, enum: MATCH_SIDES, description: "Who hit the last shot of the point." },
+          netApproach: { type: Type.BOOLEAN, description: "Whether the player came forward to the net during the point." },
+        },
+        required: ['startTime', 'endTime', 'server', 'firstServeIn', 'shots', 'ending', 'endedBy', 'netApproach'],
+      },
+    },
+  },
+  required: ['summary', 'points'],
+});
+
+// --- Parsing ---
+
+const side = (v: any, fallback: MatchSide): MatchSide => (MATCH_SIDES.includes(v) ? v : fallback);
+
+const parseShot = (s: any): MatchShot => ({
+  time: Math.max(0, Number(s?.time) || 0),
+  by: side(s?.by, 'player'),
+  stroke: typeof s?.stroke === 'string' && s.stroke.trim() ? s.stroke.trim() : 'Shot',
+});
+
+const parsePoint = (p: any): MatchPoint => {
+  const startTime = Math.max(0, Number(p?.startTime) || 0);
+  const shots = (Array.isArray(p?.shots) ? p.shots : []).map(parseShot).sort((a: MatchShot, b: MatchShot) => a.time - b.time);
+  const server = side(p?.server, shots[0]?.by || 'player');
+  const ending: PointEnding = POINT_ENDINGS.includes(p?.ending) ? p.ending : 'forced error';
+  return {
+    startTime,
+    endTime: Math.max(startTime, Number(p?.endTime) || startTime),
+    server,
+    // A double fault can't have had a first serve in
+    firstServeIn: ending !== 'double fault' && p?.firstServeIn !== false,
+    shots,
+    ending,
+    // Aces and double faults can only come off the server's racket
+    endedBy: ending === 'ace' || ending === 'double fault' ? server : side(p?.endedBy, shots[shots.length - 1]?.by || server),
+    netApproach: p?.netApproach === true,
+  };
+};
+
+export const parseMatchAnalysis = (text: string): MatchAnalysis => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Model returned malformed match JSON.");
+  }
+  return {
+    summary: typeof raw?.summary === 'string' ? raw.summary.trim() : "",
+    points: (Array.isArray(raw?.points) ? raw.points : []).map(parsePoint).sort((a: MatchPoint, b: MatchPoint) => a.startTime - b.startTime),
+  };
+};
+
+export const shiftMatchTimes = (match: MatchAnalysis, offset: number): MatchAnalysis => {
+  if (!offset) return match;
+  return {
+    ...match,
+    points: match.points.map((p) => ({
+      ...p,
+      startTime: p.startTime + offset,
+      endTime: p.endTime + offset,
+      shots: p.shots.map((s) => ({ ...s, time: s.time + offset })),
+    })),
+  };
+};
@@ -0,0 +1,74 @@
+import type { SportDefinition } from './sports';
+import type { MatchPoint, MatchSide, PointEnding } from '../types';
+
+// --- Match Statistics ---
+//
+// Everything on the dashboard is counted here from the charted points, from
+// the player's side unless noted.
+
+export interface RallyBucket {
+  label: string;
+  min: number; // shots, inclusive
+  max: number;
+  count: number;
+}
+
+export interface MatchStats {
+  points: number;
+  pointsWon: number;
+  shotsByStroke: { stroke: string, count: number }[]; // the player's, most used first
+  endings: Record<MatchSide, Record<PointEnding, number>>; // how each side ended points
+  firstServe?: { in: number, total: number }; // the player's service points; sports with a second serve only
+  rallyLengths: RallyBucket[];
+  averageRally: number;
+  netApproaches: { total: number, won: number };
+  thirdShot?: { drops: number, drives: number, other: number }; // the player's, when their side served
+}
+
+const RALLY_BUCKETS = [
+  { label: '0–4', min: 0, max: 4 },
+  { label: '5–8', min: 5, max: 8 },
+  { label: '9–12', min: 9, max: 12 },
+  { label: '13+', min: 13, max: Infinity },
+];
+
+const other = (side: MatchSide): MatchSide => (side === 'player' ? 'opponent' : 'player');
+
+// Winners and aces go to whoever hit them; errors and double faults lose the point
+export const pointWinner = (p: MatchPoint): MatchSide =>
+  p.ending === 'winner' || p.ending === 'ace' ? p.endedBy : other(p.endedBy);
+
+const emptyEndings = (): Record<PointEnding, number> =>
+  ({ winner: 0, 'unforced error': 0, 'forced error': 0, ace: 0, 'double fault': 0 });
+
+export const computeMatchStats = (points: MatchPoint[], sport: SportDefinition): MatchStats => {
+  const strokes = new Map<string, number>();
+  const endings = { player: emptyEndings(), opponent: emptyEndings() };
+  points.forEach((p) => {
+    p.shots.filter((s) => s.by === 'player').forEach((s) => strokes.set(s.stroke, (strokes.get(s.stroke) || 0) + 1));
+    endings[p.endedBy][p.ending]++;
+  });
+
+  const serving = points.filter((p) => p.server === 'player');
+  const approaches = points.filter((p) => p.netApproach);
+  const { thirdShot } = sport.match;
+  const thirdShots = serving.map((p) => p.shots[2]).filter((s) => s?.by === 'player');
+
+  return {
+    points: points.length,
+    pointsWon: points.filter((p) => pointWinner(p) === 'player').length,
+    shotsByStroke: [...strokes].map(([stroke, count]) => ({ stroke, count })).sort((a, b) => b.count - a.count),
+    endings,
+    firstServe: sport.match.secondServe ? { in: serving.filter((p) => p.firstServeIn).length, total: serving.length } : undefined,
+    rallyLengths: RALLY_BUCKETS.map((b) => ({ ...b, count: points.filter((p) => p.shots.length >= b.min && p.shots.length <= b.max).length })),
+    averageRally: points.length ? points.reduce((sum, p) => sum + p.shots.length, 0) / points.length : 0,
+    netApproaches: { total: approaches.length, won: approaches.filter((p) => pointWinner(p) === 'player').length },
+    thirdShot: thirdShot && {
+      drops: thirdShots.filter((s) => s.stroke === thirdShot.drop).length,
+      drives: thirdShots.filter((s) => s.stroke === thirdShot.drive).length,
+      other: thirdShots.filter((s) => s.stroke !== thirdShot.drop && s.stroke !== thirdShot.drive).length,
+    },
+  };
+};
+
+export const percent = (part: number, whole: number) => (whole ? Math.round((part / whole) * 100) : 0);
@@ -0,0 +1,203 @@
+import type { AiProvider } from './aiProvider';
+
+// --- Mock Provider ---
+//
+// Deterministic fixtures for offline development and demos. Responses have
+// the same shape as Gemini's, including grounding chunks, and the analysis
+// streams in small pieces so the live report can be exercised too.
+
+const STREAM_CHUNK_CHARS = 48;
+const STREAM_DELAY_MS = 60;
+const RESPONSE_DELAY_MS = 600;
+
+const abortError = () => new DOMException('Request cancelled', 'AbortError');
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(t);
+      reject(abortError());
+    };
+    const t = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const buildAnalysisFixture = (sport: string, strokes: string[]) => {
+  const analyzed = strokes.length ? strokes.slice(0, 2) : ['Stroke'];
+  return {
+    summary: `Solid ${sport.toLowerCase()} fundamentals with a repeatable rhythm. Preparation starts late, which crowds the contact point, and the finish is cut short on faster balls.`,
+    assumptions: ['Intermediate level, judged from the rally pace in the video.', 'Right-handed, from the video.'],
+    scores: [
+      { category: 'stance', score: 7, note: 'Balanced base, could widen slightly on wide balls.' },
+      { category: 'swingPath', score: 6, note: 'Path flattens out when rushed.' },
+      { category: 'contactPoint', score: 5, note: 'Contact drifts beside the body.' },
+      { category: 'followThrough', score: 6.5, note: 'Finish stops early on faster balls.' },
+    ],
+    strokes: analyzed.map((stroke, i) => ({
+      stroke,
+      summary: `${stroke} is consistent at medium pace but breaks down when the preparation is late.`,
+      segments: [
+        { startTime: 1 + i * 4, endTime: 2.5 + i * 4 },
+        { startTime: 8 + i * 4, endTime: 9.5 + i * 4 },
+      ],
+      issues: [
+        {
+          bodyPart: 'Shoulders',
+          strokePhase: 'preparation',
+          severity: 'high',
+          description: 'Unit turn starts after the bounce, leaving too little time to set up.',
+          fix: 'Turn the shoulders as soon as the ball leaves the opponent\'s racket.',
+          startTime: 1 + i * 4,
+          endTime: 1.8 + i * 4,
+        },
+        {
+          bodyPart: 'Arm',
+          strokePhase: 'contact',
+          severity: 'medium',
+          description: 'Contact point is beside the hip instead of out in front.',
+          fix: 'Meet the ball a racket-length in front of the lead foot.',
+          startTime: 2 + i * 4,
+          endTime: 2.4 + i * 4,
+        },
+      ],
+      drills: [
+        {
+          name: 'Early Turn Shadow Swings',
+          goal: 'Build the habit of turning before the bounce.',
+          repsOrDuration: '3 sets of 15',
+          equipment: ['Racket'],
+        },
+      ],
+    })),
+  };
+};
+
+const SEARCH_FIXTURE = (sport: string) => [
+  { web: { uri: 'https://www.youtube.com/watch?v=mockDrill01', title: `youtube.com - ${sport} unit turn drill` } },
+  { web: { uri: 'https://www.youtube.com/watch?v=mockDrill02', title: `youtube.com - ${sport} contact point in front` } },
+  { web: { uri: 'https://example.com/coaches/metro-academy', title: `Metro ${sport} Academy - Private Lessons` } },
+  { web: { uri: 'https://example.com/coaches/riverside-pro', title: `Riverside ${sport} Pro Coaching` } },
+];
+
+// Places sit a short way off the search location so the map has pins to
+// show wherever the app is run. The third one has no details on purpose.
+const PLACES_FIXTURE = (sport: string, near: { lat: number, lng: number }) => {
+  const places = [
+    { name: `Central Park ${sport} Courts`, placeId: 'mock-place-1', address: '100 Park Ave', dLat: 0.012, dLng: -0.018, setting: 'outdoor', lights: true, access: 'public', courts: 8 },
+    { name: `Westside ${sport} Club`, placeId: 'mock-place-2', address: '42 Harbor Rd', dLat: -0.021, dLng: -0.034, setting: 'mixed', lights: true, access: 'club', courts: 12 },
+    { name: 'Lakeside Recreation Center', placeId: 'mock-place-3' },
+  ];
+  const details = places.filter((p) => p.address).map(({ name, address, dLat = 0, dLng = 0, setting, lights, access, courts }) => ({
+    name, address, lat: near.lat + dLat, lng: near.lng + dLng, setting, lights, access, courts,
+  }));
+  return {
+    text: `Here are some places nearby.\n\n\`\`\`json\n${JSON.stringify(details, null, 1)}\n\`\`\``,
+    grounding: places.map((p, i) => ({ maps: { uri: `https://maps.google.com/?cid=100${i + 1}`, title: p.name, placeId: p.placeId } })),
+  };
+};
+
+const COMPARISON_FIXTURE = {
+  summary: 'Both clips share the same grip and stance, but the reference prepares earlier and finishes higher.',
+  differences: [
+    {
+      aspect: 'Preparation',
+      current: 'Racket goes back after the bounce.',
+      reference: 'Racket is back before the bounce.',
+      suggestion: 'Start the turn as the ball crosses the net.',
+    },
+    {
+      aspect: 'Follow-through',
+      current: 'Finish stops at chest height.',
+      reference: 'Finish wraps over the opposite shoulder.',
+      suggestion: 'Let the arm continue until the elbow points at the target.',
+    },
+  ],
+};
+
+// Eight points with a mix of endings and rally lengths, so every dashboard
+// tile has something to show. Rally shots cycle through the sport's strokes.
+const MATCH_POINTS = [
+  { server: 'player', shots: 5, ending: 'winner', endedBy: 'player', firstServeIn: true, netApproach: true },
+  { server: 'player', shots: 1, ending: 'ace', endedBy: 'player', firstServeIn: true, netApproach: false },
+  { server: 'player', shots: 7, ending: 'unforced error', endedBy: 'player', firstServeIn: false, netApproach: false },
+  { server: 'player', shots: 0, ending: 'double fault', endedBy: 'player', firstServeIn: false, netApproach: false },
+  { server: 'opponent', shots: 4, ending: 'forced error', endedBy: 'opponent', firstServeIn: true, netApproach: true },
+  { server: 'opponent', shots: 11, ending: 'unforced error', endedBy: 'opponent', firstServeIn: true, netApproach: false },
+  { server: 'opponent', shots: 6, ending: 'winner', endedBy: 'opponent', firstServeIn: false, netApproach: false },
+  { server: 'opponent', shots: 14, ending: 'unforced error', endedBy: 'player', firstServeIn: true, netApproach: true },
+] as const;
+
+const buildMatchFixture = (strokes: string[]) => {
+  const serve = strokes.includes('Serve') ? 'Serve' : strokes[0] || 'Shot';
+  const rally = strokes.filter((s) => s !== 'Serve' && s !== 'Return');
+  let clock = 2;
+  const points = MATCH_POINTS.map(({ shots, ...point }) => {
+    const startTime = clock;
+    const other = point.server === 'player' ? 'opponent' : 'player';
+    const list = Array.from({ length: shots }, (_, i) => ({
+      time: startTime + i * 1.5,
+      by: i % 2 === 0 ? point.server : other,
+      stroke: i === 0 ? serve : rally[(i + startTime) % (rally.length || 1)] || 'Shot',
+    }));
+    const endTime = startTime + Math.max(1, shots) * 1.5;
+    clock = Math.ceil(endTime) + 6;
+    return { startTime, endTime, ...point, shots: list };
+  });
+  return {
+    summary: 'Most points won came from attacking the short ball and finishing at the net. Points lost came from errors in long rallies, usually after the tenth shot.',
+    points,
+  };
+};
+
+export const createMockProvider = (): AiProvider => ({
+  id: 'mock',
+
+  // Nothing leaves the browser, so there is nothing to upload.
+  async prepareVideo(file, { signal, onProgress } = {}) {
+    onProgress?.({ phase: 'uploading', sentBytes: file.size, totalBytes: file.size });
+    await delay(RESPONSE_DELAY_MS, signal);
+    return { fileData: { mimeType: file.type, fileUri: `mock://${file.name}` } };
+  },
+
+  async analyzeVideo({ sport, strokes }, { signal, onText } = {}) {
+    const full = JSON.stringify(buildAnalysisFixture(sport, strokes), null, 1);
+    let text = "";
+    for (let i = 0; i < full.length; i += STREAM_CHUNK_CHARS) {
+      await delay(STREAM_DELAY_MS, signal);
+      text += full.slice(i, i + STREAM_CHUNK_CHARS);
+      onText?.(text);
+    }
+    return { text, grounding: [] };
+  },
+
+  async searchResources({ sport }, { signal } = {}) {
+    await delay(RESPONSE_DELAY_MS, signal);
+    return SEARCH_FIXTURE(sport);
+  },
+
+  async findPlaces({ sport, location }, { signal } = {}) {
+    await delay(RESPONSE_DELAY_MS, signal);
+    return PLACES_FIXTURE(sport, location);
+  },
+
+  async compareClips(_request, { signal } = {}) {
+    await delay(RESPONSE_DELAY_MS, signal);
+    return JSON.stringify(COMPARISON_FIXTURE);
+  },
+
+  async analyzeMatch({ strokes }, { signal } = {}) {
+    await delay(RESPONSE_DELAY_MS, signal);
+    return JSON.stringify(buildMatchFixture(strokes));
+  },
+
+  // Cites the fixture's first issue so timestamp links can be exercised
+  async chat({ messages }, { signal } = {}) {
+    await delay(RESPONSE_DELAY_MS, signal);
+    const question = messages[messages.length - 1]?.text || '';
+    return `Good question. You asked: "${question}"\n\nAt [0:01-0:02] the unit turn only starts after the bounce, so by [0:02] the contact point has drifted beside your hip. Start turning your shoulders as the ball leaves the other racket, and the contact point moves back out in front.`;
+  },
+});
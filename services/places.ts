@@ -0,0 +1,97 @@
+import { distanceKm } from '../utils/geo';
+import type { CourtAccess, CourtSetting, LatLng, Place } from '../types';
+
+// --- Place Details ---
+//
+// Maps grounding only gives a name and link per place. The model is asked
+// to describe the places it found as JSON alongside, and those details are
+// attached to the grounded places by name. Places the model mentions but
+// grounding does not back are dropped.
+
+export const PLACE_DETAILS_INSTRUCTIONS = `After the list, add a \`\`\`json block with an array holding one object per place: {"name", "address", "lat", "lng", "setting": "indoor" | "outdoor" | "mixed", "lights": boolean, "access": "public" | "club", "courts": number}. Use the place names exactly as Google Maps lists them. Use null for anything Google Maps does not state; do not guess.`;
+
+const SETTINGS: CourtSetting[] = ['indoor', 'outdoor', 'mixed'];
+const ACCESS: CourtAccess[] = ['public', 'club'];
+
+const nameKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const isCoordinate = (value: any, limit: number) => typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+
+// Returns the details array from the last JSON block in the text, or an
+// empty list when there is none or it does not parse.
+const parseDetails = (text: string): any[] => {
+  const blocks = [...text.matchAll(/```(?:json)?\s*([\s\S]*?)```/g)];
+  const body = blocks.length ? blocks[blocks.length - 1][1] : text.slice(text.indexOf('['), text.lastIndexOf(']') + 1);
+  try {
+    const parsed = JSON.parse(body);
+    return Array.isArray(parsed) ? parsed.filter((d) => d && typeof d.name === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const toDetails = (raw: any): Partial<Place> => ({
+  address: typeof raw.address === 'string' && raw.address.trim() ? raw.address.trim() : undefined,
+  location: isCoordinate(raw.lat, 90) && isCoordinate(raw.lng, 180) ? { lat: raw.lat, lng: raw.lng } : undefined,
+  setting: SETTINGS.includes(raw.setting) ? raw.setting : undefined,
+  lights: typeof raw.lights === 'boolean' ? raw.lights : undefined,
+  access: ACCESS.includes(raw.access) ? raw.access : undefined,
+  courts: Number.isInteger(raw.courts) && raw.courts > 0 ? raw.courts : undefined,
+});
+
+const stripUndefined = <T extends object>(obj: T): Partial<T> =>
+  Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+
+const fromChunk = (chunk: any): Place | null => {
+  const data = chunk?.maps || chunk?.web;
+  if (!data?.uri) return null;
+  return { id: data.placeId || data.uri, name: data.title || 'Unnamed place', uri: data.uri };
+};
+
+export const buildPlaces = (chunks: any[], text: string): Place[] => {
+  const details = parseDetails(text).map((raw) => ({ key: nameKey(raw.name), details: toDetails(raw) }));
+  const seen = new Set<string>();
+  const places: Place[] = [];
+  for (const chunk of chunks) {
+    const place = fromChunk(chunk);
+    if (!place || seen.has(place.id)) continue;
+    seen.add(place.id);
+    const key = nameKey(place.name);
+    const match = details.find((d) => d.key === key) || details.find((d) => d.key && (d.key.includes(key) || key.includes(d.key)));
+    places.push({ ...place, ...(match ? stripUndefined(match.details) : {}) });
+  }
+  return places;
+};
+
+// Sessions saved before places were typed hold raw grounding chunks.
+export const normalizePlaces = (items: any[] = []): Place[] =>
+  items.map((item) => (typeof item?.name === 'string' && item.uri ? item as Place : fromChunk(item))).filter((p): p is Place => p !== null);
+
+// --- Filtering & Sorting ---
+
+export interface PlaceFilters {
+  setting?: 'indoor' | 'outdoor';
+  lights?: boolean;
+  access?: CourtAccess;
+}
+
+export type PlaceSort = 'distance' | 'name' | 'courts';
+
+// Unknown attributes never pass a filter: a place only shows up when the
+// data says it has what was asked for.
+export const applyPlaceFilters = (places: Place[], filters: PlaceFilters) =>
+  places.filter((p) =>
+    (!filters.setting || p.setting === filters.setting || p.setting === 'mixed')
+    && (!filters.lights || p.lights === true)
+    && (!filters.access || p.access === filters.access)
+  );
+
+export const placeDistance = (place: Place, near: LatLng | null) =>
+  near && place.location ? distanceKm(near, place.location) : undefined;
+
+export const sortPlaces = (places: Place[], sort: PlaceSort, near: LatLng | null) =>
+  [...places].sort((a, b) => {
+    if (sort === 'distance') return (placeDistance(a, near) ?? Infinity) - (placeDistance(b, near) ?? Infinity);
+    if (sort === 'courts') return (b.courts ?? 0) - (a.courts ?? 0);
+    return a.name.localeCompare(b.name);
+  });
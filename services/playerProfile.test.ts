@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_PROFILE, flagInjuryConflicts, injuryConflict } from './playerProfile';
+import type { Drill } from '../types';
+
+const drill = (name: string, goal = ''): Drill => ({ name, goal, repsOrDuration: '10 min', equipment: [] });
+
+describe('injuryConflict', () => {
+  it('flags drills that load the injured area', () => {
+    expect(injuryConflict(drill('Wrist roll shadow swings'), 'sore wrist')).toMatch(/loads the wrist/);
+    expect(injuryConflict(drill('Open stance forehands'), 'hip flexor strain')).toMatch(/loads the hips/);
+    expect(injuryConflict(drill('Serve and volley'), 'rotator cuff')).toMatch(/loads the shoulder/);
+    expect(injuryConflict(drill('Deep squat holds'), 'knee pain')).toMatch(/loads the knees/);
+  });
+
+  it('ignores movements that only appear inside other words', () => {
+    expect(injuryConflict(drill('Controlled rally', 'Keep the ball in play'), 'sore wrist')).toBeUndefined();
+    expect(injuryConflict(drill('Chip and charge', 'Observe the opponent and clearly pick a target'), 'hip and shoulder')).toBeUndefined();
+  });
+
+  it('ignores ball placement words that do not describe the movement', () => {
+    expect(injuryConflict(drill('Deep crosscourt rally', 'Handle wide balls'), 'knee and hip')).toBeUndefined();
+  });
+
+  it('needs an injury to flag anything', () => {
+    expect(injuryConflict(drill('Jump smash'), '  ')).toBeUndefined();
+  });
+});
+
+describe('flagInjuryConflicts', () => {
+  it('keeps a caution the model already gave', () => {
+    const [flagged] = flagInjuryConflicts([{ ...drill('Jump smash'), caution: 'Model caution' }], { ...EMPTY_PROFILE, injuries: 'ankle' });
+    expect(flagged.caution).toBe('Model caution');
+  });
+});
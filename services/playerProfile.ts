@@ -0,0 +1,107 @@
+import type { AgeBracket, Drill, PlayerProfile, SkillLevel } from '../types';
+
+// --- Player Profile ---
+//
+// One profile per device, kept in localStorage. Ratings are per sport since
+// the scales differ; everything else applies to every sport. The profile is
+// written into the analysis and search prompts, and the model reports back
+// which parts of it it relied on.
+
+const PROFILE_KEY = 'proform.profile';
+
+export const SKILL_LEVELS: { id: SkillLevel, label: string }[] = [
+  { id: 'beginner', label: 'Beginner' },
+  { id: 'intermediate', label: 'Intermediate' },
+  { id: 'advanced', label: 'Advanced' },
+  { id: 'competitive', label: 'Competitive' },
+];
+
+export const AGE_BRACKETS: AgeBracket[] = ['under 13', '13-17', '18-34', '35-49', '50-64', '65+'];
+
+export const EMPTY_PROFILE: PlayerProfile = { ratings: {}, goals: '', injuries: '' };
+
+export const loadProfile = (): PlayerProfile => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROFILE_KEY) || 'null');
+    return saved ? { ...EMPTY_PROFILE, ...saved, ratings: { ...saved.ratings } } : EMPTY_PROFILE;
+  } catch {
+    return EMPTY_PROFILE;
+  }
+};
+
+export const saveProfile = (profile: PlayerProfile) => {
+  try {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+  } catch {
+    // Private mode: the profile still applies until the page closes.
+  }
+};
+
+// One line per known fact; unset fields are left out
+export const profileFacts = (profile: PlayerProfile, sportId: string): string[] => {
+  const level = SKILL_LEVELS.find((l) => l.id === profile.level)?.label;
+  const rating = profile.ratings[sportId]?.trim();
+  return [
+    (level || rating) && `Level: ${[level, rating && `rated ${rating}`].filter(Boolean).join(', ')}`,
+    profile.handedness && `${profile.handedness === 'left' ? 'Left' : 'Right'}-handed`,
+    profile.backhand && `${profile.backhand === 'one-handed' ? 'One' : 'Two'}-handed backhand`,
+    profile.grip?.trim() && `Grip: ${profile.grip.trim()}`,
+    profile.ageBracket && `Age: ${profile.ageBracket}`,
+    profile.goals.trim() && `Goals: ${profile.goals.trim()}`,
+    profile.injuries.trim() && `Injuries: ${profile.injuries.trim()}`,
+  ].filter(Boolean) as string[];
+};
+
+export const profilePrompt = (profile: PlayerProfile, sportId: string) => {
+  const facts = profileFacts(profile, sportId);
+  if (!facts.length) {
+    return 'No player profile was given. Judge the level from the video, and list what you assumed about the player in assumptions.';
+  }
+  return `
+    Player profile:
+    ${facts.map((f) => `- ${f}`).join('\n    ')}
+    Pitch cues and drills at this level. For a left-handed player, left and right are mirrored. Judge technique against the player's backhand style and grip rather than a textbook default.
+    ${profile.injuries.trim() ? 'Avoid drills that load the injured area. If a drill could still aggravate an injury, fill in its caution with the risk and a safer variation.' : ''}
+    In assumptions, list each profile detail you relied on and anything you had to assume from the video instead.
+  `;
+};
+
+// Added to the resource search so videos suit the player
+export const profileSearchNote = (profile: PlayerProfile) => {
+  const level = SKILL_LEVELS.find((l) => l.id === profile.level)?.label.toLowerCase();
+  const parts = [
+    level && `pitched at ${level} level`,
+    profile.handedness === 'left' && 'ideally demonstrated left-handed',
+    profile.injuries.trim() && `safe for someone with ${profile.injuries.trim()}`,
+  ].filter(Boolean);
+  return parts.length ? `Prefer results ${parts.join(', ')}.` : '';
+};
+
+// --- Injury Checks ---
+//
+// A local safety net for drills the model did not flag: an injury mentioning
+// a body area conflicts with drills whose text mentions movements that load it.
+// Patterns match from word starts, and short words only whole, so "roll" is
+// not found in "controlled", nor "hip" in "chip".
+const INJURY_RULES: { area: RegExp, loads: RegExp, risk: string }[] = [
+  { area: /\b(elbow|epicondyl)/i, loads: /\b(elbows?\b|forearm|wrist snap|pronat|weighted|heavy|topspin|kick serve|smash)/i, risk: 'loads the elbow and forearm' },
+  { area: /\bwrist/i, loads: /\b(wrists?|snap(s|ping)?|flick(s|ing)?|roll(s|ing)?)\b/i, risk: 'loads the wrist' },
+  { area: /\b(shoulder|rotator|labrum)/i, loads: /\b(shoulder|overhead|serv(e|es|ing)\b|smash|bandeja|vibora|clears?\b|throw)/i, risk: 'loads the shoulder overhead' },
+  { area: /\b(knee|acl|menisc|patell)/i, loads: /\b(lunge|jump|squat|split step|sprint|explosive|plyo|deep (knee|squat|lunge))/i, risk: 'loads the knees' },
+  { area: /\b(ankle|achilles)/i, loads: /\b(jump|lateral|shuffle|ladder|sprint|split step|plyo)/i, risk: 'loads the ankles' },
+  { area: /\b(back\b|lumbar|spin(e|al)|discs?\b)/i, loads: /\b(rotation|twist|trunk|medicine ball|bend|low balls?\b|coil)/i, risk: 'loads the lower back' },
+  { area: /\b(hip|groin)/i, loads: /\b(lunge|hips?\b|open stance|wide (stance|base)|splits?\b)/i, risk: 'loads the hips' },
+];
+
+export const injuryConflict = (drill: Drill, injuries: string): string | undefined => {
+  if (!injuries.trim()) return undefined;
+  const text = `${drill.name} ${drill.goal} ${drill.equipment.join(' ')}`;
+  const rule = INJURY_RULES.find((r) => r.area.test(injuries) && r.loads.test(text));
+  return rule && `This drill ${rule.risk}, which may aggravate your listed injury (${injuries.trim()}). Go lighter or check with a physio first.`;
+};
+
+export const flagInjuryConflicts = (drills: Drill[], profile: PlayerProfile): Drill[] =>
+  drills.map((d) => {
+    const caution = d.caution || injuryConflict(d, profile.injuries);
+    return caution ? { ...d, caution } : d;
+  });
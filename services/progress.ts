@@ -0,0 +1,87 @@
+import { SCORE_CATEGORIES } from './analysisSchema';
+import type { AnalysisIssue, SavedSession, ScoreCategory, Severity } from '../types';
+
+// --- Progress Across Sessions ---
+
+// An issue counts as resolved once it is absent from this many of the most
+// recent sessions.
+export const RESOLVED_AFTER = 2;
+
+export interface ScorePoint {
+  sessionId: string;
+  createdAt: number;
+  score: number;
+}
+
+export type IssueStatus = 'recurring' | 'new' | 'resolved' | 'intermittent';
+
+export interface IssueTrend {
+  key: string;
+  bodyPart: string;
+  strokePhase: string;
+  status: IssueStatus;
+  occurrences: number;
+  firstSeen: number;
+  lastSeen: number;
+  worstSeverity: Severity;
+  latestFix: string;
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { low: 0, medium: 1, high: 2 };
+
+export const issueKey = (issue: Pick<AnalysisIssue, 'bodyPart' | 'strokePhase'>) =>
+  `${issue.bodyPart.toLowerCase().replace(/[^a-z]+/g, ' ').trim()}|${issue.strokePhase}`;
+
+const chronological = (sessions: SavedSession[]) => [...sessions].sort((a, b) => a.createdAt - b.createdAt);
+
+export const buildScoreSeries = (sessions: SavedSession[]): Record<ScoreCategory, ScorePoint[]> => {
+  const series = Object.fromEntries(SCORE_CATEGORIES.map((c) => [c, [] as ScorePoint[]])) as Record<ScoreCategory, ScorePoint[]>;
+  chronological(sessions).forEach((session) => {
+    (session.result.scores || []).forEach((s) => {
+      series[s.category]?.push({ sessionId: session.id, createdAt: session.createdAt, score: s.score });
+    });
+  });
+  return series;
+};
+
+export const summarizeIssues = (sessions: SavedSession[]): IssueTrend[] => {
+  const ordered = chronological(sessions);
+  const trends = new Map<string, IssueTrend & { seenIn: Set<number> }>();
+
+  ordered.forEach((session, index) => {
+    (session.result.issues || []).forEach((issue) => {
+      const key = issueKey(issue);
+      const trend = trends.get(key) || {
+        key,
+        bodyPart: issue.bodyPart,
+        strokePhase: issue.strokePhase,
+        status: 'new' as IssueStatus,
+        occurrences: 0,
+        firstSeen: session.createdAt,
+        lastSeen: session.createdAt,
+        worstSeverity: issue.severity,
+        latestFix: issue.fix,
+        seenIn: new Set<number>(),
+      };
+      if (!trend.seenIn.has(index)) trend.occurrences += 1;
+      trend.seenIn.add(index);
+      trend.lastSeen = session.createdAt;
+      trend.latestFix = issue.fix || trend.latestFix;
+      if (SEVERITY_RANK[issue.severity] > SEVERITY_RANK[trend.worstSeverity]) trend.worstSeverity = issue.severity;
+      trends.set(key, trend);
+    });
+  });
+
+  const latest = ordered.length - 1;
+  return Array.from(trends.values())
+    .map(({ seenIn, ...trend }) => {
+      const lastIndex = Math.max(...seenIn);
+      let status: IssueStatus;
+      if (latest - lastIndex >= RESOLVED_AFTER) status = 'resolved';
+      else if (lastIndex === latest && trend.occurrences >= 2) status = 'recurring';
+      else if (lastIndex === latest) status = 'new';
+      else status = 'intermittent';
+      return { ...trend, status };
+    })
+    .sort((a, b) => b.occurrences - a.occurrences || b.lastSeen - a.lastSeen);
+};
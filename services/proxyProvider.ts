@@ -0,0 +1,117 @@
+import { buildAnalysisResponseSchema, comparisonResponseSchema } from './analysisSchema';
+import { BlockedResponseError } from './errors';
+import { toVideoPart } from './fileUpload';
+import { buildMatchResponseSchema } from './matchSchema';
+import type { AiProvider } from './aiProvider';
+
+// --- Proxy Provider ---
+//
+// Talks to the Node backend in server/, which holds the API key. Error
+// responses carry a machine-readable code, surfaced here as ProxyError.
+
+export class ProxyError extends Error {
+  code: string;
+  status: number;
+  retryAfter?: number;
+  upstreamStatus?: number;
+
+  constructor(status: number, code: string, message: string, details: { retryAfter?: number, upstreamStatus?: number } = {}) {
+    super(message);
+    this.name = 'ProxyError';
+    this.status = status;
+    this.code = code;
+    this.retryAfter = details.retryAfter;
+    this.upstreamStatus = details.upstreamStatus;
+  }
+}
+
+const toProxyError = (status: number, body: any) => {
+  const { code = 'unknown', message = `Request failed (${status}).`, ...details } = body?.error || {};
+  return code === 'safety_blocked' ? new BlockedResponseError(details.reason || 'SAFETY') : new ProxyError(status, code, message, details);
+};
+
+export const createProxyProvider = (baseUrl: string): AiProvider => {
+  const post = async (path: string, body: any, signal?: AbortSignal) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) throw toProxyError(res.status, await res.json().catch(() => null));
+    return res;
+  };
+
+  return {
+    id: 'proxy',
+
+    // Without a key in the bundle, uploads already go through /api/files.
+    prepareVideo: toVideoPart,
+
+    // The analysis arrives as NDJSON: one { text, grounding } line per model
+    // chunk, or a final { error } line if the stream breaks part way.
+    async analyzeVideo({ strokes, media, prompt, systemInstruction }, { signal, onText } = {}) {
+      const res = await post('/analyze', {
+        media,
+        prompt,
+        systemInstruction,
+        responseSchema: buildAnalysisResponseSchema(strokes),
+      }, signal);
+      if (!res.body) throw new ProxyError(502, 'upstream_error', 'The analysis stream was empty.');
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = "";
+      let text = "";
+      const grounding: any[] = [];
+
+      const handleLine = (line: string) => {
+        if (!line.trim()) return;
+        const message = JSON.parse(line);
+        if (message.error) throw toProxyError(502, message);
+        grounding.push(...(message.grounding || []));
+        if (message.text) {
+          text += message.text;
+          onText?.(text);
+        }
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || "";
+        lines.forEach(handleLine);
+      }
+      handleLine(buffered);
+      return { text, grounding };
+    },
+
+    async searchResources({ prompt }, { signal } = {}) {
+      const res = await post('/search', { prompt }, signal);
+      return (await res.json()).grounding || [];
+    },
+
+    async findPlaces({ prompt, location }, { signal } = {}) {
+      const res = await post('/places', { prompt, location }, signal);
+      const { text = "", grounding = [] } = await res.json();
+      return { text, grounding };
+    },
+
+    async compareClips({ parts, prompt }, { signal } = {}) {
+      const res = await post('/compare', { parts, prompt, responseSchema: comparisonResponseSchema }, signal);
+      return (await res.json()).text || "";
+    },
+
+    async analyzeMatch({ strokes, media, prompt }, { signal } = {}) {
+      const res = await post('/match', { media, prompt, responseSchema: buildMatchResponseSchema(strokes) }, signal);
+      return (await res.json()).text || "";
+    },
+
+    async chat({ media, systemInstruction, messages }, { signal } = {}) {
+      const res = await post('/chat', { media, systemInstruction, messages }, signal);
+      return (await res.json()).text || "";
+    },
+  };
+};
@@ -0,0 +1,90 @@
+import type { CameraView, SportDefinition } from './sports';
+
+// --- Camera Recording ---
+//
+// Records a clip with the device camera. The result is a plain File, so it
+// goes through the same preview, trim and analysis flow as an upload.
+
+export const MAX_RECORDING_S = 60; // matches the upload hint
+export const COUNTDOWN_S = 3;
+
+export type CameraFacing = 'user' | 'environment';
+
+export class CameraError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CameraError';
+  }
+}
+
+export const canRecord = () =>
+  typeof navigator !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia) && typeof MediaRecorder !== 'undefined';
+
+export const openCamera = async (facing: CameraFacing): Promise<MediaStream> => {
+  if (!canRecord()) throw new CameraError("This browser can't record from the camera.");
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: facing }, width: { ideal: 1280 }, height: { ideal: 720 } },
+      audio: false,
+    });
+  } catch (err: any) {
+    if (err?.name === 'NotAllowedError') throw new CameraError('Camera access was denied. Allow it in your browser settings to record.');
+    if (err?.name === 'NotFoundError' || err?.name === 'OverconstrainedError') throw new CameraError('No camera was found on this device.');
+    if (err?.name === 'NotReadableError') throw new CameraError('The camera is in use by another app.');
+    throw new CameraError('The camera could not be started.');
+  }
+};
+
+export const stopCamera = (stream: MediaStream | null) => stream?.getTracks().forEach((t) => t.stop());
+
+// Labels are hidden until permission is granted, but the count is not
+export const countCameras = async () => {
+  const devices = await navigator.mediaDevices?.enumerateDevices?.().catch(() => []) || [];
+  return devices.filter((d) => d.kind === 'videoinput').length;
+};
+
+// Safari records MP4; everything else WebM
+const RECORDING_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+
+export interface ActiveRecording {
+  startedAt: number;
+  stop: () => Promise<File>;
+}
+
+export const startRecording = (stream: MediaStream): ActiveRecording => {
+  const mimeType = RECORDING_TYPES.find((t) => MediaRecorder.isTypeSupported(t));
+  if (!mimeType) throw new CameraError("This browser can't record video.");
+
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 2_500_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => e.data.size && chunks.push(e.data);
+  const stopped = new Promise<void>((resolve) => (recorder.onstop = () => resolve()));
+  recorder.start(1000);
+
+  return {
+    startedAt: Date.now(),
+    async stop() {
+      if (recorder.state !== 'inactive') recorder.stop();
+      await stopped;
+      const type = mimeType.split(';')[0];
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+      return new File(chunks, `recording-${stamp}.${type === 'video/mp4' ? 'mp4' : 'webm'}`, { type });
+    },
+  };
+};
+
+// --- Framing Guides ---
+
+export const FRAMING_GUIDES: Record<CameraView, { label: string, tip: string }> = {
+  side: {
+    label: 'Side-on',
+    tip: 'Set the camera 4–6 m to the side at hip height, facing the hitting side. Keep the whole body, racket or paddle, and contact point in frame.',
+  },
+  behind: {
+    label: 'Behind the baseline',
+    tip: 'Set the camera behind the player at head height, centered on them. Keep the whole body, the toss or swing, and the net in frame.',
+  },
+};
+
+export const framingFor = (sport: SportDefinition, stroke?: string): CameraView =>
+  (stroke && sport.framing.strokes[stroke]) || sport.framing.default;
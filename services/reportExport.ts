@@ -0,0 +1,259 @@
+import { SCORE_LABELS } from './analysisSchema';
+import { captureFrame } from './clipPrep';
+import { placeDistance } from './places';
+import { formatDistance } from '../utils/geo';
+import { formatRange, formatTimestamp } from '../utils/time';
+import type { AnalysisIssue, AnalysisResult, LatLng, Severity, TrainingPlan } from '../types';
+
+// --- Coaching Report Export ---
+//
+// Renders a finished analysis as a standalone document for students and
+// parents. The HTML version inlines its styles and images so it can be
+// mailed as one file or printed to PDF; the Markdown version is text only.
+
+export interface KeyFrame {
+  issue: AnalysisIssue;
+  image: string; // JPEG data URL with the issue drawn on
+}
+
+export interface ReportInput {
+  title: string;
+  sport: string;
+  placesLabel: string; // "Courts", "Clubs", ... per sport
+  createdAt: number;
+  result: AnalysisResult;
+  plan?: TrainingPlan | null;
+  frames: KeyFrame[];
+  near?: LatLng | null;
+}
+
+const MAX_KEY_FRAMES = 8;
+const FRAME_WIDTH = 640;
+
+const SEVERITY_COLORS: Record<Severity, string> = { high: '#ef4444', medium: '#f59e0b', low: '#38bdf8' };
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load frame.'));
+    img.src = src;
+  });
+
+// Frames a still in the issue's severity color with a caption bar
+const annotateFrame = async (src: string, issue: AnalysisIssue) => {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return src;
+  ctx.drawImage(img, 0, 0);
+  const color = SEVERITY_COLORS[issue.severity];
+  const border = Math.max(4, Math.round(img.width / 120));
+  ctx.strokeStyle = color;
+  ctx.lineWidth = border;
+  ctx.strokeRect(border / 2, border / 2, img.width - border, img.height - border);
+
+  const fontSize = Math.max(12, Math.round(img.width / 32));
+  const bar = fontSize * 2;
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.75)';
+  ctx.fillRect(border, img.height - border - bar, img.width - border * 2, bar);
+  ctx.fillStyle = color;
+  ctx.fillRect(border, img.height - border - bar, border * 2, bar);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `600 ${fontSize}px system-ui, sans-serif`;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(
+    `${formatTimestamp(issue.startTime)}  ${issue.bodyPart} · ${issue.strokePhase}`,
+    border * 4,
+    img.height - border - bar / 2,
+    img.width - border * 6
+  );
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+// Frames for the most severe issues, in clip order. Frames that fail to
+// capture are skipped rather than failing the export.
+export const captureKeyFrames = async (videoUrl: string, issues: AnalysisIssue[]): Promise<KeyFrame[]> => {
+  const rank: Record<Severity, number> = { high: 0, medium: 1, low: 2 };
+  const picked = [...issues]
+    .sort((a, b) => rank[a.severity] - rank[b.severity])
+    .slice(0, MAX_KEY_FRAMES)
+    .sort((a, b) => a.startTime - b.startTime);
+  const frames: KeyFrame[] = [];
+  for (const issue of picked) {
+    try {
+      frames.push({ issue, image: await annotateFrame(await captureFrame(videoUrl, issue.startTime, FRAME_WIDTH), issue) });
+    } catch (err) {
+      console.warn('Could not capture key frame', err);
+    }
+  }
+  return frames;
+};
+
+const formatDate = (ts: number) =>
+  new Date(ts).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+const linkOf = (chunk: any) => chunk?.web || chunk?.maps;
+
+// Links come from the model and grounding data, so anything but a web page
+// (javascript:, data:) is shown as text instead.
+const isWebUrl = (uri: string) => /^https?:\/\//i.test(String(uri || '').trim());
+
+// --- HTML ---
+
+const escapeHtml = (text: string) =>
+  String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlLink = (uri: string, text: string) =>
+  isWebUrl(uri) ? `<a href="${escapeHtml(uri.trim())}">${escapeHtml(text)}</a>` : escapeHtml(text);
+
+const REPORT_CSS = `
+  body { font-family: system-ui, -apple-system, sans-serif; color: #0f172a; max-width: 760px; margin: 0 auto; padding: 32px 24px; line-height: 1.5; }
+  h1 { font-size: 26px; margin: 0; }
+  h2 { font-size: 18px; margin: 32px 0 12px; padding-bottom: 6px; border-bottom: 1px solid #e2e8f0; }
+  h3 { font-size: 15px; margin: 20px 0 8px; }
+  .meta { color: #64748b; font-size: 13px; margin-top: 4px; }
+  .score { display: flex; align-items: center; gap: 12px; font-size: 14px; margin: 6px 0; }
+  .score span:first-child { width: 130px; }
+  .bar { flex: 1; height: 8px; background: #f1f5f9; border-radius: 4px; overflow: hidden; }
+  .bar div { height: 100%; background: #6366f1; }
+  .issue { border: 1px solid #e2e8f0; border-radius: 10px; padding: 12px 14px; margin: 10px 0; page-break-inside: avoid; }
+  .issue img { display: block; width: 100%; border-radius: 6px; margin-bottom: 10px; }
+  .tag { display: inline-block; font-size: 11px; font-weight: 700; text-transform: uppercase; padding: 1px 8px; border-radius: 999px; color: #fff; }
+  .fix { color: #4338ca; }
+  ul { padding-left: 20px; }
+  li { margin: 4px 0; }
+  a { color: #4f46e5; }
+  .muted { color: #64748b; font-size: 13px; }
+  .caution { color: #b45309; font-size: 13px; }
+  .print { position: fixed; top: 16px; right: 16px; padding: 8px 14px; border: 0; border-radius: 8px; background: #4f46e5; color: #fff; font-weight: 600; cursor: pointer; }
+  @media print { .print { display: none; } body { padding: 0; } }
+`;
+
+const htmlIssue = (issue: AnalysisIssue, frame?: KeyFrame) => `
+  <div class="issue">
+    ${frame ? `<img src="${frame.image}" alt="Frame at ${formatTimestamp(issue.startTime)}">` : ''}
+    <span class="tag" style="background:${SEVERITY_COLORS[issue.severity]}">${issue.severity}</span>
+    <strong>${escapeHtml(issue.bodyPart)}</strong> <span class="muted">· ${escapeHtml(issue.strokePhase)} · ${formatRange(issue.startTime, issue.endTime)}</span>
+    <p>${escapeHtml(issue.description)}</p>
+    ${issue.fix ? `<p class="fix">Fix: ${escapeHtml(issue.fix)}</p>` : ''}
+  </div>`;
+
+export const buildReportHtml = ({ title, sport, placesLabel, createdAt, result, plan, frames, near }: ReportInput) => {
+  const frameFor = (issue: AnalysisIssue) => frames.find((f) => f.issue === issue);
+  const strokes = result.strokes?.length ? result.strokes.map((s) => s.stroke) : [null];
+
+  const issuesHtml = strokes.map((stroke) => {
+    const issues = result.issues.filter((i) => !stroke || i.stroke === stroke);
+    if (!issues.length) return '';
+    return `${stroke ? `<h3>${escapeHtml(stroke)}</h3>` : ''}${issues.map((i) => htmlIssue(i, frameFor(i))).join('')}`;
+  }).join('');
+
+  const drillsHtml = result.drills.map((d) => `
+    <li><strong>${escapeHtml(d.name)}</strong>${d.repsOrDuration ? ` (${escapeHtml(d.repsOrDuration)})` : ''}: ${escapeHtml(d.goal)}${d.equipment.length ? ` <span class="muted">Equipment: ${escapeHtml(d.equipment.join(', '))}</span>` : ''}${d.caution ? `<br><span class="caution">Caution: ${escapeHtml(d.caution)}</span>` : ''}</li>`).join('');
+
+  const planHtml = plan ? plan.sessions.map((s) => `
+    <li>${escapeHtml(s.date)} (week ${s.week}): ${s.drills.map((d) => escapeHtml(d.name)).join(', ')}</li>`).join('') : '';
+
+  const videosHtml = result.videos.map(linkOf).filter(Boolean).map((v: any) => `
+    <li>${htmlLink(v.uri, v.title || v.uri)}</li>`).join('');
+
+  const placesHtml = result.places.map((p) => {
+    const distance = placeDistance(p, near || null);
+    return `
+    <li>${htmlLink(p.uri, p.name)}${p.address ? ` <span class="muted">${escapeHtml(p.address)}</span>` : ''}${distance !== undefined ? ` <span class="muted">· ${formatDistance(distance)}</span>` : ''}</li>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print / Save PDF</button>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${escapeHtml(sport)} · ${formatDate(createdAt)}</p>
+
+<h2>Technical Analysis</h2>
+<p>${escapeHtml(result.summary)}</p>
+${result.assumptions?.length ? `<p class="muted">Assumed: ${result.assumptions.map(escapeHtml).join('; ')}</p>` : ''}
+${result.scores.map((s) => `<div class="score"><span>${SCORE_LABELS[s.category]}</span><div class="bar"><div style="width:${s.score * 10}%"></div></div><strong>${s.score.toFixed(1)}</strong></div>`).join('')}
+
+<h2>What to Work On</h2>
+${issuesHtml || '<p class="muted">No significant issues detected.</p>'}
+
+${drillsHtml ? `<h2>Recommended Drills</h2><ul>${drillsHtml}</ul>` : ''}
+${planHtml ? `<h2>Training Plan</h2><p class="muted">${plan!.weeks} weeks, ${plan!.sessionsPerWeek} sessions per week.</p><ul>${planHtml}</ul>` : ''}
+${videosHtml ? `<h2>Instructional Videos</h2><ul>${videosHtml}</ul>` : ''}
+${placesHtml ? `<h2>Nearby ${escapeHtml(placesLabel)}</h2><ul>${placesHtml}</ul>` : ''}
+
+<p class="muted" style="margin-top:40px">AI analysis based on visual data. Consult a professional for safety.</p>
+</body>
+</html>
+`;
+};
+
+// --- Markdown ---
+
+const markdownLink = (uri: string, text: string) => (isWebUrl(uri) ? `[${text}](${uri.trim()})` : text);
+
+export const buildReportMarkdown = ({ title, sport, placesLabel, createdAt, result, plan, near }: ReportInput) => {
+  const lines: string[] = [`# ${title}`, '', `${sport} · ${formatDate(createdAt)}`, '', '## Technical Analysis', '', result.summary, ''];
+  if (result.assumptions?.length) lines.push(`_Assumed: ${result.assumptions.join('; ')}_`, '');
+  result.scores.forEach((s) => lines.push(`- **${SCORE_LABELS[s.category]}:** ${s.score.toFixed(1)}/10${s.note ? ` (${s.note})` : ''}`));
+
+  lines.push('', '## What to Work On', '');
+  if (!result.issues.length) lines.push('No significant issues detected.');
+  result.issues.forEach((i) => {
+    lines.push(`- **[${i.severity.toUpperCase()}] ${i.stroke ? `${i.stroke}: ` : ''}${i.bodyPart}** (${i.strokePhase}, ${formatRange(i.startTime, i.endTime)}): ${i.description}`);
+    if (i.fix) lines.push(`  - Fix: ${i.fix}`);
+  });
+
+  if (result.drills.length) {
+    lines.push('', '## Recommended Drills', '');
+    result.drills.forEach((d) => {
+      lines.push(`- **${d.name}**${d.repsOrDuration ? ` (${d.repsOrDuration})` : ''}: ${d.goal}`);
+      if (d.caution) lines.push(`  - Caution: ${d.caution}`);
+    });
+  }
+  if (plan) {
+    lines.push('', '## Training Plan', '', `${plan.weeks} weeks, ${plan.sessionsPerWeek} sessions per week.`, '');
+    plan.sessions.forEach((s) => lines.push(`- ${s.date} (week ${s.week}): ${s.drills.map((d) => d.name).join(', ')}`));
+  }
+  const videos = result.videos.map(linkOf).filter(Boolean);
+  if (videos.length) {
+    lines.push('', '## Instructional Videos', '');
+    videos.forEach((v: any) => lines.push(`- ${markdownLink(v.uri, v.title || v.uri)}`));
+  }
+  if (result.places.length) {
+    lines.push('', `## Nearby ${placesLabel}`, '');
+    result.places.forEach((p) => {
+      const distance = placeDistance(p, near || null);
+      lines.push(`- ${markdownLink(p.uri, p.name)}${p.address ? `, ${p.address}` : ''}${distance !== undefined ? ` (${formatDistance(distance)})` : ''}`);
+    });
+  }
+  lines.push('', '_AI analysis based on visual data. Consult a professional for safety._', '');
+  return lines.join('\n');
+};
+
+// Prints through a hidden frame, which popup blockers leave alone. The frame
+// runs no scripts; same-origin lets this page call print() on it.
+export const printReport = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position:fixed;width:0;height:0;border:0;';
+  frame.setAttribute('sandbox', 'allow-same-origin allow-modals');
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.addEventListener('afterprint', () => frame.remove());
+    win.focus();
+    win.print();
+  };
+  document.body.appendChild(frame);
+};
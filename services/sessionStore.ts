@@ -0,0 +1,165 @@
+import { normalizeSavedResult } from './analysisSchema';
+import type { SavedSession } from '../types';
+
+// --- IndexedDB Session Store ---
+//
+// Session metadata + results live in `sessions`; video blobs are kept in a
+// separate `videos` store so listing history never loads hundreds of MB.
+
+const DB_NAME = 'proform';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const VIDEOS = 'videos';
+
+export const ARCHIVE_FORMAT = 'proform-sessions';
+const ARCHIVE_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) {
+          db.createObjectStore(SESSIONS, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(VIDEOS)) db.createObjectStore(VIDEOS);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const createSessionId = () =>
+  (crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`);
+
+export const saveSession = async (session: SavedSession, video?: Blob | null) => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, VIDEOS], 'readwrite');
+  tx.objectStore(SESSIONS).put({ ...session, hasVideo: Boolean(video) || session.hasVideo });
+  if (video) tx.objectStore(VIDEOS).put(video, session.id);
+  await done(tx);
+};
+
+export const listSessions = async (): Promise<SavedSession[]> => {
+  const db = await openDb();
+  const all = await promisify<SavedSession[]>(db.transaction(SESSIONS).objectStore(SESSIONS).getAll());
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getSession = async (id: string): Promise<SavedSession | undefined> => {
+  const db = await openDb();
+  return promisify<SavedSession | undefined>(db.transaction(SESSIONS).objectStore(SESSIONS).get(id));
+};
+
+export const getSessionVideo = async (id: string): Promise<Blob | undefined> => {
+  const db = await openDb();
+  return promisify<Blob | undefined>(db.transaction(VIDEOS).objectStore(VIDEOS).get(id));
+};
+
+export const updateSession = async (id: string, patch: Partial<Omit<SavedSession, 'id'>>) => {
+  const existing = await getSession(id);
+  if (!existing) throw new Error(`Session ${id} is not in history.`);
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  tx.objectStore(SESSIONS).put({ ...existing, ...patch, id });
+  await done(tx);
+};
+
+export const deleteSessions = async (ids: string[]) => {
+  const db = await openDb();
+  const tx = db.transaction([SESSIONS, VIDEOS], 'readwrite');
+  ids.forEach((id) => {
+    tx.objectStore(SESSIONS).delete(id);
+    tx.objectStore(VIDEOS).delete(id);
+  });
+  await done(tx);
+};
+
+// --- Archive Export / Import ---
+// Archives carry results and thumbnails but not video blobs, which would make
+// the JSON unmanageably large.
+
+export const createArchive = (sessions: SavedSession[]): Blob => {
+  const archive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    sessions: sessions.map((s) => ({ ...s, hasVideo: false })),
+  };
+  return new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+};
+
+export const exportArchive = async (ids?: string[]): Promise<Blob> =>
+  createArchive((await listSessions()).filter((s) => !ids || ids.includes(s.id)));
+
+// Entries without an id, sport, date or result can't be shown at all and are
+// skipped; everything else the views read is checked and filled in.
+const normalizeSession = (s: any): SavedSession | null => {
+  if (!s || typeof s.id !== 'string' || !s.id || typeof s.sport !== 'string' || !s.sport) return null;
+  if (!Number.isFinite(s.createdAt) || !s.result || typeof s.result !== 'object') return null;
+  const { plan, annotations, chat, ...rest } = s;
+  return {
+    ...rest,
+    title: typeof s.title === 'string' && s.title.trim() ? s.title : `${s.sport} session`,
+    stroke: typeof s.stroke === 'string' ? s.stroke : undefined,
+    thumbnail: typeof s.thumbnail === 'string' ? s.thumbnail : undefined,
+    result: normalizeSavedResult(s.result),
+    ...(plan && Array.isArray(plan.sessions) && Array.isArray(plan.completed) ? { plan } : {}),
+    ...(Array.isArray(annotations) ? { annotations: annotations.filter((a: any) => Array.isArray(a?.points)) } : {}),
+    ...(Array.isArray(chat) ? { chat: chat.filter((m: any) => typeof m?.text === 'string') } : {}),
+  };
+};
+
+export interface ArchiveImport {
+  sessions: SavedSession[];
+  skipped: number; // entries that could not be read
+}
+
+// Merges sessions from an archive. Entries with an existing id are replaced.
+export const importArchive = async (file: Blob): Promise<ArchiveImport> => {
+  let archive: any;
+  try {
+    archive = JSON.parse(await file.text());
+  } catch {
+    throw new Error('That file is not a valid session archive.');
+  }
+  if (archive?.format !== ARCHIVE_FORMAT || !Array.isArray(archive.sessions)) {
+    throw new Error('That file is not a ProForm session archive.');
+  }
+  if (archive.version > ARCHIVE_VERSION) {
+    throw new Error('This archive was created by a newer version of the app.');
+  }
+
+  const sessions = archive.sessions.map(normalizeSession).filter((s: SavedSession | null): s is SavedSession => s !== null);
+  const skipped = archive.sessions.length - sessions.length;
+  if (!sessions.length && skipped) throw new Error('None of the sessions in that file could be read.');
+  const existing = new Set((await listSessions()).filter((s) => s.hasVideo).map((s) => s.id));
+  const imported = sessions.map((s: SavedSession) => ({ ...s, hasVideo: existing.has(s.id) }));
+  const db = await openDb();
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  // Keep the local video flag when re-importing a session we still hold the blob for
+  imported.forEach((s: SavedSession) => tx.objectStore(SESSIONS).put(s));
+  await done(tx);
+  return { sessions: imported, skipped };
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { SOURCE_SAMPLES, replaySample } from '../data/sourceSamples';
+import { classifyResources, normalizeUrl, outcomeOf, sourceDomain } from './sourceClassifier';
+import { getSport } from './sports';
+
+const sample = (id: string) => SOURCE_SAMPLES.find((s) => s.id === id)!;
+
+describe.each(SOURCE_SAMPLES)('recorded payload $id', (s) => {
+  const decisions = replaySample(s);
+
+  it('sorts every chunk onto its expected tab', () => {
+    expect(decisions.map(outcomeOf)).toEqual(s.expected);
+  });
+
+  it('points duplicates at an earlier chunk that was kept', () => {
+    decisions.forEach((d, i) => {
+      if (d.duplicateOf === undefined) return;
+      expect(d.duplicateOf).toBeLessThan(i);
+      expect(decisions[d.duplicateOf].duplicateOf).toBeUndefined();
+    });
+  });
+
+  it('gives every decision a confidence and a reason', () => {
+    decisions.forEach((d) => {
+      expect(d.confidence).toBeGreaterThan(0);
+      expect(d.confidence).toBeLessThanOrEqual(1);
+      expect(d.reason.trim()).not.toBe('');
+    });
+  });
+
+  it('keeps its decisions', () => {
+    expect(decisions.map(({ kind, duplicateOf, confidence, reason }) => ({ kind, duplicateOf, confidence, reason }))).toMatchSnapshot();
+  });
+});
+
+describe('redirect links', () => {
+  const decisions = replaySample(sample('tennis-redirects'));
+
+  it('reads the source from the title, with less confidence than a real host', () => {
+    expect(decisions[0]).toMatchObject({ kind: 'video', domain: 'youtube.com', reason: 'Hosted on youtube.com' });
+    expect(decisions[0].confidence).toBeCloseTo(0.85);
+  });
+
+  it('matches the same page by domain and title across responses', () => {
+    expect(decisions[3].duplicateOf).toBe(1);
+    expect(decisions[4].duplicateOf).toBeUndefined(); // bare "youtube.com" titles say nothing about the page
+  });
+
+  it('drops chunks whose source is hidden and gives no signal', () => {
+    const [decision] = classifyResources(getSport('Tennis').filters, [
+      { origin: 'search', chunks: [{ web: { uri: 'https://vertexaisearch.cloud.google.com/grounding-api-redirect/x', title: 'Results' } }] },
+    ]).map((c) => c.decision);
+    expect(decision).toMatchObject({ kind: 'excluded', reason: 'No video or coach signal, and the source is hidden' });
+  });
+});
+
+describe('direct links', () => {
+  const decisions = replaySample(sample('pickleball-direct'));
+
+  it('dedupes every YouTube link form by video id', () => {
+    expect(decisions[2].duplicateOf).toBe(0);
+    expect(normalizeUrl('https://youtu.be/Xq3fJr9bL2k?si=Vn3k2LmQ')).toBe(normalizeUrl('https://www.youtube.com/watch?v=Xq3fJr9bL2k&t=42s'));
+  });
+
+  it('dedupes pages that differ only in tracking parameters and fragments', () => {
+    expect(decisions[6].duplicateOf).toBe(5);
+  });
+
+  it('excludes retailers before anything else', () => {
+    expect(decisions[4]).toMatchObject({ kind: 'excluded', domain: 'pickleballcentral.com' });
+    expect(decisions[4].confidence).toBeGreaterThanOrEqual(0.75);
+  });
+});
+
+describe('places', () => {
+  const decisions = replaySample(sample('tennis-places'));
+
+  it('dedupes listings by place id', () => {
+    expect(decisions[3].duplicateOf).toBe(0);
+  });
+
+  it('drops pages that are not map listings', () => {
+    expect(decisions[5]).toMatchObject({ kind: 'excluded', reason: 'Not a map listing' });
+  });
+});
+
+describe('sourceDomain', () => {
+  it('uses the host for direct links and the title for redirects', () => {
+    expect(sourceDomain('https://www.youtube.com/watch?v=Xq3fJr9bL2k')).toBe('youtube.com');
+    expect(sourceDomain('https://vertexaisearch.cloud.google.com/grounding-api-redirect/x', 'youtube.com - Forehand')).toBe('youtube.com');
+    expect(sourceDomain('https://vertexaisearch.cloud.google.com/grounding-api-redirect/x', 'Forehand drills')).toBeUndefined();
+  });
+});
@@ -0,0 +1,188 @@
+import { hasWordStart } from '../utils/text';
+import type { SourceRules } from './sports';
+import type { SourceDecision, SourceKind } from '../types';
+
+// --- Source Classification ---
+//
+// Sorts grounding chunks into the Videos, Coaches and Places tabs using the
+// sport's rules. Every chunk gets a decision with a confidence and a reason,
+// including the ones that are dropped, so the Sources panel can show why a
+// result did or did not appear. Pages with no video or coach signal are
+// excluded rather than falling through to Coaches.
+
+type Origin = SourceDecision['origin'];
+
+export interface ClassifiedChunk {
+  chunk: any;
+  decision: SourceDecision;
+}
+
+// --- URL Normalization ---
+
+const TRACKING_PARAM = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|si|feature|ref|ref_src|igshid)$/i;
+
+// Grounding links usually point at this redirect host instead of the source
+const REDIRECT_HOST = 'vertexaisearch.cloud.google.com';
+
+const parseUrl = (uri: string): URL | null => {
+  try {
+    return new URL(uri);
+  } catch {
+    return null;
+  }
+};
+
+const bareHost = (url: URL) => url.hostname.toLowerCase().replace(/^(www|m)\./, '');
+
+export const isRedirectLink = (uri: string) => {
+  const url = parseUrl(uri);
+  return Boolean(url && bareHost(url).endsWith(REDIRECT_HOST));
+};
+
+const youTubeId = (url: URL): string | null => {
+  const host = bareHost(url);
+  const path = url.pathname.split('/').filter(Boolean);
+  let id: string | null | undefined = null;
+  if (host === 'youtu.be') id = path[0];
+  else if (host.endsWith('youtube.com') || host.endsWith('youtube-nocookie.com')) {
+    id = ['shorts', 'embed', 'live', 'v'].includes(path[0]) ? path[1] : url.searchParams.get('v');
+  }
+  return id && /^[\w-]{11}$/.test(id) ? id : null;
+};
+
+// Same page, same key: no scheme, www or tracking parameters, sorted query,
+// no fragment or trailing slash, and every YouTube link form reduced to its id.
+export const normalizeUrl = (uri: string): string => {
+  const url = parseUrl(uri.trim());
+  if (!url) return uri.trim().toLowerCase();
+  const videoId = youTubeId(url);
+  if (videoId) return `youtube.com/watch?v=${videoId}`;
+  const params = [...url.searchParams].filter(([k]) => !TRACKING_PARAM.test(k)).sort(([a], [b]) => a.localeCompare(b));
+  const query = params.length ? `?${new URLSearchParams(params)}` : '';
+  return `${bareHost(url)}${url.pathname.replace(/\/+$/, '')}${query}`;
+};
+
+// --- Chunk Details ---
+
+const DOMAIN_TITLE = /^([a-z0-9-]+(?:\.[a-z0-9-]+)+)(?:\s+[-–|]\s+(.*))?$/i;
+
+interface SourceInfo {
+  title: string;
+  uri: string;
+  domain?: string; // the real source, when it can be told
+  fromTitle: boolean; // domain was read from a redirect link's title
+  text: string; // what keywords are matched against
+  keys: string[];
+}
+
+// Redirect links hide the source, but Search titles them with its domain
+// ("youtube.com", or "youtube.com - Title" in some payloads).
+const describe = (chunk: any): SourceInfo => {
+  const data = chunk?.web || chunk?.maps || {};
+  const uri: string = data.uri || '';
+  const rawTitle: string = (data.title || '').trim();
+  const url = parseUrl(uri);
+  const redirect = !url || isRedirectLink(uri);
+  const titled = rawTitle.match(DOMAIN_TITLE);
+  const domain = !redirect ? bareHost(url!) : titled ? titled[1].toLowerCase().replace(/^www\./, '') : undefined;
+  const title = titled?.[2]?.trim() || rawTitle;
+  const path = url && !redirect ? url.pathname.replace(/%20|[/_.+-]+/g, ' ') : '';
+
+  // Redirects differ per response even for the same page, so a page with a
+  // real title is also matched by domain and title.
+  const keys = [data.placeId ? `place:${data.placeId}` : normalizeUrl(uri)];
+  if (redirect && domain && titled?.[2]) keys.push(`${domain}|${title.toLowerCase()}`);
+
+  return { title: title || domain || 'Untitled', uri, domain, fromTitle: redirect && Boolean(domain), text: `${title} ${path}`, keys };
+};
+
+// The site a link really comes from, when it can be told
+export const sourceDomain = (uri: string, title?: string) => describe({ web: { uri, title } }).domain;
+
+// --- Rules ---
+
+const matchesDomain = (domain: string | undefined, list: string[]) =>
+  domain && list.find((d) => domain === d || domain.endsWith(`.${d}`));
+
+// Word starts, so "coach" finds "coaching" but "restore" is not a store.
+// Site names run words together, so there any position counts.
+const matchesKeyword = ({ text, domain }: SourceInfo, list: string[]) => {
+  const site = domain?.split('.').slice(0, -1).join('.') || '';
+  return list.find((k) => hasWordStart(text, k) || (!k.includes(' ') && site.includes(k)));
+};
+
+const MAP_URL = /^https?:\/\/(maps\.google\.[a-z.]+|(www\.)?google\.[a-z.]+\/maps|maps\.app\.goo\.gl)([/?#]|$)/i;
+
+const isMapLink = (chunk: any, info: SourceInfo) => Boolean(chunk?.maps) || MAP_URL.test(info.uri);
+
+type Verdict = { kind: SourceKind, confidence: number, reason: string };
+
+const judgeResource = (chunk: any, info: SourceInfo, rules: SourceRules): Verdict => {
+  const { domain } = info;
+  let match: string | undefined;
+  if ((match = matchesDomain(domain, rules.storeDomains))) return { kind: 'excluded', confidence: 0.95, reason: `${match} is a retailer` };
+  if (isMapLink(chunk, info)) return { kind: 'excluded', confidence: 0.9, reason: 'Map listing; places come from the Places search' };
+  if ((match = matchesDomain(domain, rules.videoDomains))) return { kind: 'video', confidence: 0.95, reason: `Hosted on ${match}` };
+  if ((match = matchesKeyword(info, rules.storeKeywords))) return { kind: 'excluded', confidence: 0.75, reason: `Looks like a shop ("${match}")` };
+  if ((match = matchesDomain(domain, rules.ignoreDomains))) return { kind: 'excluded', confidence: 0.85, reason: `${match} is not a coach or drill source` };
+  if ((match = matchesDomain(domain, rules.coachDomains))) return { kind: 'coach', confidence: 0.9, reason: `${match} lists coaches` };
+  if ((match = matchesKeyword(info, rules.coachKeywords))) return { kind: 'coach', confidence: 0.75, reason: `Mentions "${match}"` };
+  if ((match = matchesKeyword(info, rules.videoKeywords))) return { kind: 'video', confidence: 0.55, reason: `Mentions "${match}" but is not on a known video host` };
+  return { kind: 'excluded', confidence: 0.4, reason: domain ? `No video or coach signal from ${domain}` : 'No video or coach signal, and the source is hidden' };
+};
+
+const judgePlace = (chunk: any, info: SourceInfo, rules: SourceRules): Verdict => {
+  let match: string | undefined;
+  if (!isMapLink(chunk, info)) return { kind: 'excluded', confidence: 0.9, reason: 'Not a map listing' };
+  if ((match = matchesKeyword(info, rules.storeKeywords))) return { kind: 'excluded', confidence: 0.75, reason: `Looks like a shop ("${match}")` };
+  return chunk.maps
+    ? { kind: 'place', confidence: 0.95, reason: 'Google Maps place' }
+    : { kind: 'place', confidence: 0.8, reason: 'Google Maps link from web search' };
+};
+
+const classify = (
+  batches: { origin: Origin, chunks: any[] }[],
+  judge: (chunk: any, info: SourceInfo) => Verdict
+): ClassifiedChunk[] => {
+  const seen = new Map<string, number>();
+  const out: ClassifiedChunk[] = [];
+  for (const { origin, chunks } of batches) {
+    for (const chunk of chunks) {
+      if (!chunk?.web?.uri && !chunk?.maps?.uri) continue;
+      const info = describe(chunk);
+      const verdict = judge(chunk, info);
+      const earlier = info.keys.map((k) => seen.get(k)).find((i) => i !== undefined);
+      const decision: SourceDecision = {
+        title: info.title,
+        uri: info.uri,
+        domain: info.domain,
+        origin,
+        ...verdict,
+        // A domain read from a redirect's title is a weaker signal than a real host
+        confidence: info.fromTitle ? Math.max(0, verdict.confidence - 0.1) : verdict.confidence,
+        key: info.keys[0],
+      };
+      if (earlier !== undefined) decision.duplicateOf = earlier;
+      info.keys.forEach((k) => !seen.has(k) && seen.set(k, out.length));
+      out.push({ chunk, decision });
+    }
+  }
+  return out;
+};
+
+// The analysis response can carry its own search grounding, so both are
+// classified together and duplicates across them are dropped.
+export const classifyResources = (rules: SourceRules, batches: { origin: Origin, chunks: any[] }[]) =>
+  classify(batches, (chunk, info) => judgeResource(chunk, info, rules));
+
+export const classifyPlaces = (rules: SourceRules, chunks: any[]) =>
+  classify([{ origin: 'places', chunks }], (chunk, info) => judgePlace(chunk, info, rules));
+
+// Chunks that belong on a tab, first occurrence only
+export const chunksOfKind = (list: ClassifiedChunk[], kind: SourceKind) =>
+  list.filter((c) => c.decision.kind === kind && c.decision.duplicateOf === undefined).map((c) => c.chunk);
+
+export type SourceOutcome = SourceKind | 'duplicate';
+
+// Where a decision leaves its chunk: a tab, dropped, or folded into another
+export const outcomeOf = (d: SourceDecision): SourceOutcome => (d.duplicateOf !== undefined ? 'duplicate' : d.kind);
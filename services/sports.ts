@@ -0,0 +1,218 @@
+import { CircleDot, Disc, Grid2x2, Feather, Box } from 'lucide-react';
+
+// --- Sport Registry ---
+//
+// Everything sport-specific lives here: adding a sport means adding an entry,
+// not editing App. Templates use {sport}, {flaw} and {stroke} placeholders.
+
+// Where to put the camera when recording: beside the player or behind them
+export type CameraView = 'side' | 'behind';
+
+// How search results are sorted into tabs (see services/sourceClassifier.ts).
+// Domains match the host and its subdomains. Keywords match word starts in
+// the title and URL path, or anywhere in the site name ("cityacademy.com").
+export interface SourceRules {
+  videoDomains: string[];
+  videoKeywords: string[]; // for video pages on hosts we don't know
+  coachDomains: string[];
+  coachKeywords: string[];
+  storeDomains: string[];
+  storeKeywords: string[];
+  ignoreDomains: string[]; // never a coach or a drill video
+}
+
+export interface SportDefinition {
+  id: string; // persisted with sessions, keep stable
+  name: string;
+  icon: any;
+  tagline: string;
+  strokes: string[];
+  checklist: string[];
+  prompts: {
+    persona: string;
+    drillSearch: string;
+    coachSearch: string;
+  };
+  maps: {
+    search: string;
+  };
+  labels: {
+    drills: string;
+    places: string;
+    coaches: string;
+    rating: string; // example for the profile's rating field
+  };
+  filters: SourceRules;
+  framing: {
+    default: CameraView;
+    strokes: Record<string, CameraView>; // strokes that film better another way
+  };
+  match: {
+    secondServe: boolean; // whether a missed first serve gets another go
+    thirdShot?: { drop: string, drive: string }; // strokes compared on the serving side's third shot
+  };
+}
+
+const DEFAULT_SOURCE_RULES: SourceRules = {
+  videoDomains: ['youtube.com', 'youtu.be', 'youtube-nocookie.com', 'vimeo.com'],
+  videoKeywords: ['video', 'tutorial', 'how to'],
+  coachDomains: [],
+  coachKeywords: ['coach', 'lesson', 'academy', 'instruct', 'clinic', 'private training', 'teaching pro'],
+  storeDomains: ['amazon.com', 'ebay.com', 'walmart.com', 'target.com', 'dickssportinggoods.com', 'decathlon.com'],
+  storeKeywords: ['shop', 'store', 'outlet', 'dick\'s', 'sporting goods', 'buy'],
+  ignoreDomains: ['wikipedia.org', 'reddit.com', 'quora.com', 'pinterest.com'],
+};
+
+// Sport entries only list what they add to the defaults
+const sourceRules = (extra: Partial<SourceRules> = {}): SourceRules =>
+  (Object.keys(DEFAULT_SOURCE_RULES) as (keyof SourceRules)[]).reduce(
+    (rules, key) => ({ ...rules, [key]: [...rules[key], ...(extra[key] || [])] }),
+    DEFAULT_SOURCE_RULES,
+  );
+
+const DEFAULT_PROMPTS = {
+  persona: "You are an expert {sport} coach.",
+  drillSearch: "youtube {sport} drills for {flaw}",
+  coachSearch: "top rated {sport} coaches near me",
+};
+
+export const SPORTS: SportDefinition[] = [
+  {
+    id: 'Tennis',
+    name: 'Tennis',
+    icon: CircleDot,
+    tagline: 'Groundstrokes, serve & volley',
+    strokes: ['Forehand', 'Backhand', 'Serve', 'Volley', 'Overhead', 'Return'],
+    checklist: [
+      'Unit turn and shoulder rotation during preparation',
+      'Split step timing and footwork into the ball',
+      'Racket path low-to-high through contact',
+      'Contact point in front of the body',
+      'Serve toss consistency and trophy position',
+      'Full follow-through and recovery to ready position',
+    ],
+    prompts: DEFAULT_PROMPTS,
+    maps: { search: "tennis courts, parks, and athletic clubs near me" },
+    labels: { drills: 'Drills', places: 'Courts', coaches: 'Coaches', rating: 'e.g. 3.5 NTRP or UTR 6' },
+    filters: sourceRules({
+      coachDomains: ['uspta.com', 'ptrtennis.org'],
+      storeDomains: ['tennis-warehouse.com', 'tennisexpress.com', 'tennis-point.com'],
+      coachKeywords: ['tennis pro'],
+    }),
+    framing: { default: 'side', strokes: { Serve: 'behind' } },
+    match: { secondServe: true },
+  },
+  {
+    id: 'Pickleball',
+    name: 'Pickleball',
+    icon: Disc,
+    tagline: 'Dinks, drives & third-shot drops',
+    strokes: ['Dink', 'Drive', 'Third-shot Drop', 'Serve', 'Return', 'Volley', 'Reset'],
+    checklist: [
+      'Ready position and paddle height at the kitchen line',
+      'Compact backswing on dinks and drops',
+      'Contact point out in front with a firm wrist',
+      'Weight transfer and balance through the shot',
+      'Footwork when moving to the non-volley zone',
+      'Follow-through toward the target',
+    ],
+    prompts: DEFAULT_PROMPTS,
+    maps: { search: "pickleball courts, parks, and athletic clubs near me" },
+    labels: { drills: 'Drills', places: 'Courts', coaches: 'Coaches', rating: 'e.g. 4.5 DUPR' },
+    filters: sourceRules({
+      storeDomains: ['pickleballcentral.com', 'justpaddles.com'],
+    }),
+    framing: { default: 'side', strokes: { Serve: 'behind', 'Third-shot Drop': 'behind' } },
+    match: { secondServe: false, thirdShot: { drop: 'Third-shot Drop', drive: 'Drive' } },
+  },
+  {
+    id: 'Padel',
+    name: 'Padel',
+    icon: Grid2x2,
+    tagline: 'Bandeja, vibora & wall play',
+    strokes: ['Forehand', 'Backhand', 'Bandeja', 'Vibora', 'Volley', 'Smash', 'Serve', 'Off the Wall'],
+    checklist: [
+      'Side-on preparation with the racket up',
+      'Reading and stepping away from the back glass',
+      'Continental grip and compact swing',
+      'Contact point beside or slightly in front of the body',
+      'Bandeja shoulder position and slice control',
+      'Recovery to the net position',
+    ],
+    prompts: DEFAULT_PROMPTS,
+    maps: { search: "padel courts and padel clubs near me" },
+    labels: { drills: 'Drills', places: 'Clubs', coaches: 'Coaches', rating: 'e.g. Playtomic 3.2' },
+    filters: sourceRules({
+      storeDomains: ['padelnuestro.com', 'padel-point.com'],
+    }),
+    framing: { default: 'side', strokes: { Serve: 'behind', 'Off the Wall': 'behind' } },
+    match: { secondServe: true },
+  },
+  {
+    id: 'Badminton',
+    name: 'Badminton',
+    icon: Feather,
+    tagline: 'Clears, smashes & net play',
+    strokes: ['Clear', 'Smash', 'Drop', 'Drive', 'Net Shot', 'Lift', 'Serve'],
+    checklist: [
+      'Ready stance and split step',
+      'Grip changes between forehand and backhand',
+      'Forearm rotation and wrist snap at contact',
+      'Contact point high and in front for overheads',
+      'Lunge footwork to the net and recovery',
+      'Follow-through and return to base',
+    ],
+    prompts: DEFAULT_PROMPTS,
+    maps: { search: "badminton courts, sports halls, and badminton clubs near me" },
+    labels: { drills: 'Drills', places: 'Halls', coaches: 'Coaches', rating: 'e.g. club division 2' },
+    filters: sourceRules({
+      storeDomains: ['badmintonalley.com', 'yumo.ca'],
+    }),
+    framing: { default: 'side', strokes: { Serve: 'behind', Clear: 'behind' } },
+    match: { secondServe: false },
+  },
+  {
+    id: 'Squash',
+    name: 'Squash',
+    icon: Box,
+    tagline: 'Drives, boasts & the T',
+    strokes: ['Forehand Drive', 'Backhand Drive', 'Drop', 'Boast', 'Lob', 'Volley', 'Serve'],
+    checklist: [
+      'Early racket preparation with the racket head up',
+      'Movement from and back to the T',
+      'Open stance vs closed stance choice',
+      'Contact point relative to the front foot',
+      'Compact swing and wrist control',
+      'Follow-through that clears the swing path',
+    ],
+    prompts: DEFAULT_PROMPTS,
+    maps: { search: "squash courts and squash clubs near me" },
+    labels: { drills: 'Drills', places: 'Courts', coaches: 'Coaches', rating: 'e.g. club C grade' },
+    filters: sourceRules({
+      coachDomains: ['ussquash.org'],
+      storeDomains: ['squashsource.com'],
+    }),
+    framing: { default: 'behind', strokes: { Serve: 'side', Volley: 'side' } },
+    match: { secondServe: false },
+  },
+];
+
+const BY_ID = new Map(SPORTS.map((s) => [s.id, s]));
+
+// Sessions may reference a sport that has since been removed from the
+// registry, so fall back to a generic definition built from its id.
+export const getSport = (id: string): SportDefinition =>
+  BY_ID.get(id) || {
+    ...SPORTS[0],
+    id,
+    name: id,
+    strokes: [],
+    checklist: [],
+    maps: { search: `${id} courts and clubs near me` },
+    filters: sourceRules(),
+    framing: { default: 'side', strokes: {} },
+    match: { secondServe: false },
+  };
+
+export const fillTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
@@ -0,0 +1,204 @@
+import { FRAME_STEP, TrimRange, captureFrame } from './clipPrep';
+import type { Annotation, AnnotationPoint } from '../types';
+
+// --- Telestration ---
+//
+// Coach marks drawn on paused frames. Points are stored as fractions of the
+// video frame so marks line up at any player size, and they are replayed over
+// the video for a moment around the frame they were drawn on.
+
+export const ANNOTATION_COLORS = ['#facc15', '#ef4444', '#22c55e', '#38bdf8', '#ffffff'];
+export const ANGLE_JOINTS = ['Elbow', 'Knee', 'Shoulder', 'Hip', 'Wrist'];
+
+// How long a mark stays up during playback after its frame passes
+const HOLD_S = 0.75;
+const MAX_MARKED_FRAMES = 6;
+const FRAME_WIDTH = 640;
+
+export const createAnnotationId = () => `mark-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const pathStart = (a: Annotation) => a.points[0]?.t ?? a.time;
+const pathEnd = (a: Annotation) => a.points[a.points.length - 1]?.t ?? a.time;
+
+// The frame a mark belongs to; a path's is its last point, where the whole
+// trace is visible.
+export const annotationFrame = (a: Annotation) => (a.tool === 'path' ? pathEnd(a) : a.time);
+
+export const isOnFrame = (a: Annotation, time: number) => Math.abs(annotationFrame(a) - time) < FRAME_STEP / 2;
+
+// Marks to show at `time`, with paths trimmed to the points reached so far.
+// A hold of 0 shows only marks on this exact frame, for editing.
+export const visibleAnnotations = (list: Annotation[], time: number, hold = HOLD_S): Annotation[] =>
+  list.flatMap((a) => {
+    const half = FRAME_STEP / 2;
+    if (a.tool !== 'path') return time >= a.time - half && time <= a.time + half + hold ? [a] : [];
+    if (time < pathStart(a) - half || time > pathEnd(a) + half + hold) return [];
+    return [{ ...a, points: a.points.filter((p) => (p.t ?? a.time) <= time + half) }];
+  });
+
+export const inRange = (a: Annotation, range: TrimRange) => {
+  const time = annotationFrame(a);
+  return time >= range.start - FRAME_STEP / 2 && time <= range.end + FRAME_STEP / 2;
+};
+
+// --- Geometry ---
+//
+// All measurements happen in pixels of the video frame, so a 90° elbow reads
+// as 90° on a 16:9 clip too.
+
+export const toPixels = (p: AnnotationPoint, width: number, height: number) => ({ x: p.x * width, y: p.y * height });
+
+export const strokeWidth = (width: number) => Math.max(2, width / 220);
+
+// Inner angle at the vertex (the middle point), in degrees
+export const angleAt = (points: AnnotationPoint[], width: number, height: number) => {
+  const [a, v, b] = points.map((p) => toPixels(p, width, height));
+  const first = Math.atan2(a.y - v.y, a.x - v.x);
+  const second = Math.atan2(b.y - v.y, b.x - v.x);
+  const deg = Math.abs(((second - first) * 180) / Math.PI) % 360;
+  return Math.round(deg > 180 ? 360 - deg : deg);
+};
+
+// The arc between the two arms, as start/end angles in radians (clockwise
+// on screen) and a radius scaled to the shorter arm.
+export const angleArc = (points: AnnotationPoint[], width: number, height: number) => {
+  const [a, v, b] = points.map((p) => toPixels(p, width, height));
+  const from = Math.atan2(a.y - v.y, a.x - v.x);
+  let to = Math.atan2(b.y - v.y, b.x - v.x);
+  let sweep = to - from;
+  if (sweep > Math.PI) sweep -= 2 * Math.PI;
+  if (sweep < -Math.PI) sweep += 2 * Math.PI;
+  to = from + sweep;
+  const radius = Math.min(Math.hypot(a.x - v.x, a.y - v.y), Math.hypot(b.x - v.x, b.y - v.y), width / 10) * 0.5;
+  return { center: v, radius, start: Math.min(from, to), end: Math.max(from, to) };
+};
+
+// The two barbs of an arrow head at `to`
+export const arrowHead = (from: AnnotationPoint, to: AnnotationPoint, width: number, height: number) => {
+  const a = toPixels(from, width, height);
+  const b = toPixels(to, width, height);
+  const dir = Math.atan2(b.y - a.y, b.x - a.x);
+  const size = strokeWidth(width) * 5;
+  return [dir - Math.PI * 0.82, dir + Math.PI * 0.82].map((angle) => ({ x: b.x + Math.cos(angle) * size, y: b.y + Math.sin(angle) * size }));
+};
+
+export const circleRadius = (points: AnnotationPoint[], width: number, height: number) => {
+  const [c, edge] = points.map((p) => toPixels(p, width, height));
+  return Math.hypot(edge.x - c.x, edge.y - c.y);
+};
+
+// Short label for the toolbar and the prompt
+export const describeAnnotation = (a: Annotation, width: number, height: number) => {
+  switch (a.tool) {
+    case 'angle':
+      return a.points.length === 3 ? `${a.label || 'Joint'} angle ${angleAt(a.points, width, height)}°` : 'Angle';
+    case 'path':
+      return `${a.label || 'Racket'} path over ${a.points.length} frames`;
+    case 'freehand':
+      return 'Freehand mark';
+    default:
+      return a.tool[0].toUpperCase() + a.tool.slice(1);
+  }
+};
+
+// --- Canvas Rendering ---
+
+export const renderAnnotations = (ctx: CanvasRenderingContext2D, list: Annotation[], width: number, height: number) => {
+  const line = strokeWidth(width);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = line;
+  ctx.font = `700 ${Math.max(12, Math.round(width / 36))}px system-ui, sans-serif`;
+  ctx.textBaseline = 'middle';
+
+  for (const a of list) {
+    const px = a.points.map((p) => toPixels(p, width, height));
+    if (px.length === 0) continue;
+    ctx.strokeStyle = a.color;
+    ctx.fillStyle = a.color;
+    ctx.beginPath();
+    if (a.tool === 'circle' && px.length === 2) {
+      ctx.arc(px[0].x, px[0].y, circleRadius(a.points, width, height), 0, Math.PI * 2);
+    } else {
+      px.forEach((p, i) => (i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y)));
+    }
+    ctx.stroke();
+
+    if (a.tool === 'arrow' && px.length === 2) {
+      const [left, right] = arrowHead(a.points[0], a.points[1], width, height);
+      ctx.beginPath();
+      ctx.moveTo(left.x, left.y);
+      ctx.lineTo(px[1].x, px[1].y);
+      ctx.lineTo(right.x, right.y);
+      ctx.stroke();
+    }
+    if (a.tool === 'path') {
+      px.forEach((p) => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, line * 1.6, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    }
+    if (a.tool === 'angle' && px.length === 3) {
+      const arc = angleArc(a.points, width, height);
+      ctx.beginPath();
+      ctx.arc(arc.center.x, arc.center.y, arc.radius, arc.start, arc.end);
+      ctx.stroke();
+      const text = `${angleAt(a.points, width, height)}°`;
+      const x = arc.center.x + line * 4;
+      const y = arc.center.y - line * 5;
+      ctx.lineWidth = line * 2;
+      ctx.strokeStyle = 'rgba(15, 23, 42, 0.85)';
+      ctx.strokeText(text, x, y);
+      ctx.fillText(text, x, y);
+      ctx.lineWidth = line;
+    }
+  }
+};
+
+// --- Request Attachment ---
+//
+// Marked frames go to the model as stills with the marks burned in, each
+// preceded by a caption listing the marks and any measured angles. Times are
+// relative to the media the model sees, hence the offset for trimmed clips.
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load frame.'));
+    img.src = src;
+  });
+
+export const markedFrameParts = async (videoUrl: string, list: Annotation[], timeOffset = 0): Promise<any[]> => {
+  const frames = new Map<number, Annotation[]>();
+  for (const a of list) {
+    const key = Math.round(annotationFrame(a) * 1000) / 1000;
+    frames.set(key, [...(frames.get(key) || []), a]);
+  }
+
+  const parts: any[] = [];
+  for (const [time, marks] of [...frames].sort((a, b) => a[0] - b[0]).slice(0, MAX_MARKED_FRAMES)) {
+    try {
+      const img = await loadImage(await captureFrame(videoUrl, time, FRAME_WIDTH));
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) continue;
+      ctx.drawImage(img, 0, 0);
+      renderAnnotations(ctx, marks, img.width, img.height);
+      const labels = marks.map((m) => describeAnnotation(m, img.width, img.height)).join('; ');
+      parts.push(
+        { text: `Coach's marks on the frame at ${Math.max(0, time - timeOffset).toFixed(2)}s: ${labels}` },
+        { inlineData: { mimeType: 'image/jpeg', data: canvas.toDataURL('image/jpeg', 0.8).split(',')[1] } }
+      );
+    } catch (err) {
+      console.warn('Could not capture marked frame', err);
+    }
+  }
+  return parts;
+};
+
+export const MARKS_PROMPT_NOTE =
+  "A coach has drawn on some frames; those stills follow the clip, each captioned with its time and marks. Treat the marks and measured angles as the coach's observations: check them, and address them in the issues where they apply.";
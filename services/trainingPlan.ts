@@ -0,0 +1,203 @@
+import type { AnalysisIssue, AnalysisResult, Drill, PlanDrill, PlanSession, Severity, TrainingPlan } from '../types';
+
+// --- Training Plan ---
+//
+// Builds a practice schedule from an analysis without another model call:
+// every drill is tied to the issue it most likely addresses, and sessions
+// rotate through the drills with the more severe issues coming up more often.
+
+export interface PlanOptions {
+  weeks: number; // 2-6
+  sessionsPerWeek: number; // 1-6
+  startDate: string; // local "YYYY-MM-DD"
+  startTime: string;
+  minutes: number;
+}
+
+export const PLAN_WEEKS = [2, 3, 4, 5, 6];
+export const PLAN_SESSIONS_PER_WEEK = [1, 2, 3, 4, 5, 6];
+
+const DRILLS_PER_SESSION = 3;
+
+const SEVERITY_WEIGHT: Record<Severity, number> = { high: 3, medium: 2, low: 1 };
+
+// Day offsets within a week, spread out so there is rest between sessions
+const WEEK_LAYOUTS: Record<number, number[]> = {
+  1: [0],
+  2: [0, 3],
+  3: [0, 2, 4],
+  4: [0, 1, 3, 5],
+  5: [0, 1, 2, 4, 5],
+  6: [0, 1, 2, 3, 4, 5],
+};
+
+const STOPWORDS = new Set(['with', 'that', 'this', 'from', 'into', 'your', 'the', 'and', 'for', 'ball', 'before', 'after', 'when']);
+
+const words = (text: string) =>
+  new Set(text.toLowerCase().split(/[^a-z]+/).filter((w) => w.length > 3 && !STOPWORDS.has(w)));
+
+const overlap = (a: Set<string>, b: Set<string>) => [...a].filter((w) => b.has(w)).length;
+
+const bySeverity = (a: AnalysisIssue, b: AnalysisIssue) => SEVERITY_WEIGHT[b.severity] - SEVERITY_WEIGHT[a.severity];
+
+// The issue sharing the most words with the drill, among issues of the same
+// stroke. When nothing overlaps, a stroke drill falls back to that stroke's
+// most severe issue and a general drill targets none.
+const targetIssue = (drill: Drill, issues: AnalysisIssue[]) => {
+  const candidates = issues.filter((i) => !drill.stroke || !i.stroke || i.stroke === drill.stroke).sort(bySeverity);
+  const drillWords = words(`${drill.name} ${drill.goal}`);
+  let best: AnalysisIssue | undefined = drill.stroke ? candidates[0] : undefined;
+  let bestScore = 0;
+  for (const issue of candidates) {
+    const score = overlap(drillWords, words(`${issue.bodyPart} ${issue.strokePhase} ${issue.description} ${issue.fix}`));
+    if (score > bestScore) [best, bestScore] = [issue, score];
+  }
+  return best;
+};
+
+const matchingVideo = (drill: Drill, issue: AnalysisIssue | undefined, videos: any[]) => {
+  const drillWords = words(`${drill.name} ${drill.goal} ${issue?.description || ''}`);
+  let best: any = null;
+  let bestScore = 0;
+  for (const video of videos) {
+    const score = overlap(drillWords, words(video.web?.title || ''));
+    if (score > bestScore) [best, bestScore] = [video, score];
+  }
+  return best ? { uri: best.web.uri, title: best.web.title || best.web.uri } : undefined;
+};
+
+const toPlanDrill = (drill: Drill, index: number, result: AnalysisResult): PlanDrill => {
+  const issue = targetIssue(drill, result.issues);
+  return {
+    id: `d${index + 1}`,
+    name: drill.name,
+    goal: drill.goal,
+    repsOrDuration: drill.repsOrDuration,
+    equipment: drill.equipment,
+    target: issue && {
+      bodyPart: issue.bodyPart,
+      strokePhase: issue.strokePhase,
+      severity: issue.severity,
+      description: issue.description,
+      startTime: issue.startTime,
+      endTime: issue.endTime,
+    },
+    video: matchingVideo(drill, issue, result.videos),
+    caution: drill.caution,
+  };
+};
+
+const parseDate = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const buildTrainingPlan = (result: AnalysisResult, options: PlanOptions): TrainingPlan => {
+  const drills = result.drills.map((d, i) => toPlanDrill(d, i, result));
+  const weight = (d: PlanDrill) => (d.target ? SEVERITY_WEIGHT[d.target.severity] : 1);
+  const lastUsed = new Map<string, number>();
+  const start = parseDate(options.startDate);
+  const sessions: PlanSession[] = [];
+
+  for (let week = 1; week <= options.weeks; week++) {
+    for (const offset of WEEK_LAYOUTS[options.sessionsPerWeek] || WEEK_LAYOUTS[3]) {
+      const n = sessions.length;
+      // A drill's priority grows with its issue's severity and the time since
+      // it was last practised; ties keep the analysis order.
+      const picked = [...drills]
+        .sort((a, b) => weight(b) * (n - (lastUsed.get(b.id) ?? -2)) - weight(a) * (n - (lastUsed.get(a.id) ?? -2)))
+        .slice(0, DRILLS_PER_SESSION)
+        .sort((a, b) => drills.indexOf(a) - drills.indexOf(b));
+      picked.forEach((d) => lastUsed.set(d.id, n));
+      const date = new Date(start);
+      date.setDate(start.getDate() + (week - 1) * 7 + offset);
+      sessions.push({ id: `s${n + 1}`, week, date: toDateString(date), drills: picked });
+    }
+  }
+
+  return {
+    id: `plan-${Date.now().toString(36)}`,
+    createdAt: Date.now(),
+    weeks: options.weeks,
+    sessionsPerWeek: options.sessionsPerWeek,
+    startTime: options.startTime,
+    minutes: options.minutes,
+    sessions,
+    completed: [],
+  };
+};
+
+export const progressKey = (session: PlanSession, drill: PlanDrill) => `${session.id}:${drill.id}`;
+
+export const toggleProgress = (plan: TrainingPlan, key: string): TrainingPlan => ({
+  ...plan,
+  completed: plan.completed.includes(key) ? plan.completed.filter((k) => k !== key) : [...plan.completed, key],
+});
+
+export const planProgress = (plan: TrainingPlan) => {
+  const total = plan.sessions.reduce((sum, s) => sum + s.drills.length, 0);
+  return { done: plan.completed.length, total };
+};
+
+// --- Calendar Export ---
+//
+// One event per session, in floating local time so it lands at the chosen
+// hour in whatever timezone the calendar is in.
+
+const escapeText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space
+const encoder = new TextEncoder();
+const fold = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  return [...parts, current].join('\r\n ');
+};
+
+const icsDateTime = (date: string, time: string, addMinutes = 0) => {
+  const [h, m] = time.split(':').map(Number);
+  const d = parseDate(date);
+  d.setHours(h, m + addMinutes, 0, 0);
+  return `${toDateString(d).replace(/-/g, '')}T${String(d.getHours()).padStart(2, '0')}${String(d.getMinutes()).padStart(2, '0')}00`;
+};
+
+export const planToIcs = (plan: TrainingPlan, title: string) => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+  const events = plan.sessions.flatMap((session, i) => {
+    const description = session.drills
+      .map((d) => `- ${d.name} (${d.repsOrDuration})${d.target ? `\nTargets: ${d.target.description}` : ''}${d.video ? `\nVideo: ${d.video.uri}` : ''}`)
+      .join('\n');
+    return [
+      'BEGIN:VEVENT',
+      `UID:${plan.id}-${session.id}@proform`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDateTime(session.date, plan.startTime)}`,
+      `DTEND:${icsDateTime(session.date, plan.startTime, plan.minutes)}`,
+      `SUMMARY:${escapeText(`${title}: week ${session.week}, session ${i + 1}`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      'END:VEVENT',
+    ];
+  });
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ProForm AI//Training Plan//EN',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    'END:VCALENDAR',
+  ].map(fold).join('\r\n') + '\r\n';
+};
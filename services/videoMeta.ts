@@ -0,0 +1,143 @@
+import { isRedirectLink, sourceDomain } from './sourceClassifier';
+import type { VideoMeta } from '../types';
+
+// --- Video Metadata Cache ---
+//
+// YouTube titles and thumbnails are looked up once through noembed and kept
+// in localStorage, so video cards render straight away and offline. Links
+// known to be elsewhere are marked external without a lookup; videos noembed
+// can't find are marked broken. Grounding redirects hide the video id, so the
+// API proxy follows them first and the id is cached with the result.
+
+const META_KEY = 'proform.videoMeta';
+const MAX_ENTRIES = 200;
+const BROKEN_RECHECK_MS = 7 * 24 * 60 * 60 * 1000; // removed videos are sometimes restored
+const THUMBNAIL_WIDTH = 192;
+
+export const youTubeVideoId = (url: string): string | null => {
+  if (!url) return null;
+  const match = url.match(/^.*(youtu.be\/|v\/|u\/\w\/|embed\/|shorts\/|watch\?v=|&v=)([^#&?]*).*/);
+  return (match && match[2].length === 11) ? match[2] : null;
+};
+
+const YOUTUBE_DOMAINS = ['youtube.com', 'youtu.be', 'youtube-nocookie.com'];
+
+// A redirect titled with no domain could still be a video, so it isn't written off
+const knownElsewhere = (uri: string, title?: string) => {
+  const domain = sourceDomain(uri, title);
+  return domain ? !YOUTUBE_DOMAINS.some((d) => domain === d || domain.endsWith(`.${d}`)) : !isRedirectLink(uri);
+};
+
+// The video id, or the redirect link itself until it has been followed
+const cacheKey = (uri: string, title?: string) =>
+  youTubeVideoId(uri) || (isRedirectLink(uri) && !knownElsewhere(uri, title) ? uri : null);
+
+type MetaCache = Record<string, VideoMeta>; // by cache key
+
+let memory: MetaCache | null = null;
+
+const readCache = (): MetaCache => {
+  if (!memory) {
+    try {
+      memory = JSON.parse(localStorage.getItem(META_KEY) || '{}');
+    } catch {
+      memory = {};
+    }
+  }
+  return memory!;
+};
+
+const writeCache = (id: string, meta: VideoMeta) => {
+  // Least recently checked entries go first once the cache is full
+  const entries = Object.entries({ ...readCache(), [id]: meta })
+    .sort(([, a], [, b]) => b.checkedAt - a.checkedAt)
+    .slice(0, MAX_ENTRIES);
+  memory = Object.fromEntries(entries);
+  try {
+    localStorage.setItem(META_KEY, JSON.stringify(memory));
+  } catch {
+    // Over quota: the entry still serves this page, and is looked up again next time.
+  }
+};
+
+const external = (): VideoMeta => ({ status: 'external', checkedAt: Date.now() });
+
+// What a card can show without waiting; undefined means not looked up yet
+export const cachedVideoMeta = (uri: string, title?: string): VideoMeta | undefined => {
+  const key = cacheKey(uri, title);
+  if (key) return readCache()[key];
+  return knownElsewhere(uri, title) ? external() : undefined;
+};
+
+export const remoteThumbnail = (id: string) => `https://i.ytimg.com/vi/${id}/mqdefault.jpg`;
+
+// A small JPEG keeps 200 entries well inside the storage quota. Falls back
+// to the remote image when it can't be read (offline, blocked).
+const cacheThumbnail = async (id: string): Promise<string> => {
+  try {
+    const bitmap = await createImageBitmap(await (await fetch(remoteThumbnail(id))).blob());
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = Math.round(THUMBNAIL_WIDTH * bitmap.height / bitmap.width);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch {
+    return remoteThumbnail(id);
+  }
+};
+
+const lookup = async (id: string): Promise<VideoMeta | undefined> => {
+  try {
+    const response = await fetch(`https://noembed.com/embed?url=https://www.youtube.com/watch?v=${id}`);
+    const data = await response.json();
+    const meta: VideoMeta = data.title
+      ? { status: 'ok', title: data.title, author: data.author_name, thumbnail: await cacheThumbnail(id), checkedAt: Date.now() }
+      : { status: 'broken', checkedAt: Date.now() };
+    writeCache(id, meta);
+    return meta;
+  } catch {
+    return undefined; // network trouble says nothing about the video, so nothing is cached
+  }
+};
+
+// --- Grounding Redirects ---
+
+// The browser can't read a cross-origin redirect, so the API proxy does it.
+// With a key in the bundle there is no proxy to ask.
+const RESOLVE_URL = process.env.API_KEY ? null : '/api/links/resolve';
+
+// The target, null for a dead link, undefined when it couldn't be told
+const followRedirect = async (uri: string): Promise<string | null | undefined> => {
+  if (!RESOLVE_URL) return undefined;
+  try {
+    const response = await fetch(`${RESOLVE_URL}?uri=${encodeURIComponent(uri)}`);
+    if (response.status === 404) return null;
+    return response.ok ? (await response.json()).target || undefined : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const lookupRedirect = async (uri: string): Promise<VideoMeta | undefined> => {
+  const target = await followRedirect(uri);
+  if (target === undefined) return undefined;
+  const videoId = (target && youTubeVideoId(target)) || undefined;
+  const meta = !target ? { status: 'broken' as const, checkedAt: Date.now() } : videoId ? await resolveVideoMeta(target) : external();
+  if (!meta) return undefined;
+  writeCache(uri, { ...meta, videoId });
+  return { ...meta, videoId };
+};
+
+const pending = new Map<string, Promise<VideoMeta | undefined>>();
+
+// One lookup per video however many cards show it
+export const resolveVideoMeta = (uri: string, title?: string): Promise<VideoMeta | undefined> => {
+  const key = cacheKey(uri, title);
+  if (!key) return Promise.resolve(cachedVideoMeta(uri, title));
+  const cached = readCache()[key];
+  const stale = cached?.status === 'broken' && Date.now() - cached.checkedAt > BROKEN_RECHECK_MS;
+  if ((cached && !stale) || !navigator.onLine) return Promise.resolve(cached);
+  if (!pending.has(key)) pending.set(key, (key === uri ? lookupRedirect(uri) : lookup(key)).finally(() => pending.delete(key)));
+  return pending.get(key)!;
+};
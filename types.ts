@@ -0,0 +1,343 @@
+// --- Shared Types ---
+
+// Sport ids come from the registry in services/sports.ts
+export type Sport = string | null;
+
+export type Severity = 'low' | 'medium' | 'high';
+
+export type StrokePhase = 'preparation' | 'backswing' | 'forward swing' | 'contact' | 'follow-through' | 'recovery';
+
+export type ScoreCategory = 'stance' | 'swingPath' | 'contactPoint' | 'followThrough';
+
+export interface AnalysisIssue {
+  bodyPart: string;
+  strokePhase: StrokePhase;
+  severity: Severity;
+  description: string;
+  fix: string;
+  startTime: number; // seconds into the clip
+  endTime: number;
+  stroke?: string;
+}
+
+export interface CategoryScore {
+  category: ScoreCategory;
+  score: number; // 0-10
+  note: string;
+}
+
+export interface Drill {
+  name: string;
+  goal: string;
+  repsOrDuration: string;
+  equipment: string[];
+  stroke?: string;
+  caution?: string; // why it may aggravate an injury in the player profile
+}
+
+export interface TimeRange {
+  startTime: number;
+  endTime: number;
+}
+
+export interface StrokeBreakdown {
+  stroke: string;
+  summary: string;
+  segments: TimeRange[];
+}
+
+// Which tab a grounding chunk was sorted into, and why
+export type SourceKind = 'video' | 'coach' | 'place' | 'excluded';
+
+export interface SourceDecision {
+  title: string;
+  uri: string;
+  domain?: string; // the source behind a redirect link, when known
+  origin: 'analysis' | 'search' | 'places'; // the response it came from
+  kind: SourceKind;
+  confidence: number; // 0-1
+  reason: string;
+  key: string; // normalized URL, used to drop duplicates
+  duplicateOf?: number; // index of the earlier decision with the same source
+}
+
+export interface AnalysisResult {
+  summary: string;
+  scores: CategoryScore[];
+  strokes?: StrokeBreakdown[]; // absent on sessions saved before per-stroke analysis
+  issues: AnalysisIssue[];
+  drills: Drill[];
+  videos: any[];
+  coaches: any[];
+  places: Place[];
+  assumptions?: string[]; // what the analysis assumed about the player
+  resourceSources?: SourceDecision[]; // how videos and coaches were picked
+  placeSources?: SourceDecision[];
+}
+
+export interface SavedSession {
+  id: string;
+  title: string;
+  sport: Exclude<Sport, null>;
+  stroke?: string;
+  createdAt: number;
+  thumbnail?: string; // JPEG data URL
+  result: AnalysisResult;
+  hasVideo: boolean;
+  videoName?: string;
+  videoType?: string;
+  plan?: TrainingPlan;
+  annotations?: Annotation[];
+  chat?: ChatMessage[];
+}
+
+export interface ClipDifference {
+  aspect: string;
+  current: string;
+  reference: string;
+  suggestion: string;
+}
+
+export interface ComparisonSummary {
+  summary: string;
+  differences: ClipDifference[];
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export type Weekday = 'Mon' | 'Tue' | 'Wed' | 'Thu' | 'Fri' | 'Sat' | 'Sun';
+
+export interface AvailabilitySlot {
+  day: Weekday;
+  from: string; // 24h "HH:MM"
+  to: string;
+}
+
+export interface Coach {
+  id: string;
+  name: string;
+  title: string;
+  sport: Exclude<Sport, null>;
+  certifications: string[];
+  specialties: string[];
+  priceRange: { min: number, max: number, currency: string }; // per hour
+  location: LatLng & { name: string };
+  availability: AvailabilitySlot[];
+  rating: number; // 0-5
+  reviews: number;
+  verified: boolean; // certifications checked by us, not self-reported
+  image?: string;
+}
+
+export interface ContactRequest {
+  id: string;
+  coachId: string;
+  name: string;
+  email: string;
+  preferredSlot?: string;
+  message: string;
+  createdAt: number;
+}
+
+export type CourtSetting = 'indoor' | 'outdoor' | 'mixed';
+export type CourtAccess = 'public' | 'club';
+
+// A court or club from Maps grounding. Everything past name and link comes
+// from the model's description of the place and is left out when unknown.
+export interface Place {
+  id: string; // Maps place id when available, else the link
+  name: string;
+  uri: string;
+  address?: string;
+  location?: LatLng;
+  setting?: CourtSetting;
+  lights?: boolean;
+  access?: CourtAccess;
+  courts?: number;
+}
+
+// --- Training Plan ---
+
+export interface PlanDrill {
+  id: string; // stable within the plan, used for progress
+  name: string;
+  goal: string;
+  repsOrDuration: string;
+  equipment: string[];
+  target?: Pick<AnalysisIssue, 'bodyPart' | 'strokePhase' | 'severity' | 'description' | 'startTime' | 'endTime'>;
+  video?: { uri: string, title: string };
+  caution?: string;
+}
+
+export interface PlanSession {
+  id: string;
+  week: number; // 1-based
+  date: string; // local "YYYY-MM-DD"
+  drills: PlanDrill[];
+}
+
+export interface TrainingPlan {
+  id: string;
+  createdAt: number;
+  weeks: number;
+  sessionsPerWeek: number;
+  startTime: string; // local "HH:MM", for calendar export
+  minutes: number;
+  sessions: PlanSession[];
+  completed: string[]; // `${sessionId}:${drillId}` keys
+}
+
+// --- Telestration ---
+
+export type AnnotationTool = 'line' | 'arrow' | 'circle' | 'freehand' | 'angle' | 'path';
+
+export interface AnnotationPoint {
+  x: number; // 0-1 across the video frame
+  y: number; // 0-1 down the video frame
+  t?: number; // path points only: the frame each was placed on
+}
+
+export interface Annotation {
+  id: string;
+  tool: AnnotationTool;
+  time: number; // seconds; the frame it was drawn on, or a path's first point
+  points: AnnotationPoint[]; // angle: [end, vertex, end]; circle: [center, edge]
+  color: string;
+  label?: string; // e.g. the joint an angle measures
+}
+
+// --- Coach Chat ---
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string; // model answers cite clip moments as [m:ss] or [m:ss-m:ss]
+  createdAt: number;
+}
+
+// --- Player Profile ---
+
+export type SkillLevel = 'beginner' | 'intermediate' | 'advanced' | 'competitive';
+
+export type Handedness = 'right' | 'left';
+
+export type BackhandStyle = 'one-handed' | 'two-handed';
+
+export type AgeBracket = 'under 13' | '13-17' | '18-34' | '35-49' | '50-64' | '65+';
+
+export interface PlayerProfile {
+  level?: SkillLevel;
+  ratings: Record<string, string>; // per sport id, e.g. { Tennis: '3.5 NTRP' }
+  handedness?: Handedness;
+  backhand?: BackhandStyle;
+  grip?: string;
+  ageBracket?: AgeBracket;
+  goals: string;
+  injuries: string;
+}
+
+// --- Drill Library ---
+
+// 'external' links are known not to be YouTube and open in a new tab
+export type VideoLinkStatus = 'ok' | 'broken' | 'external';
+
+export interface VideoMeta {
+  status: VideoLinkStatus;
+  title?: string;
+  author?: string;
+  thumbnail?: string; // JPEG data URL when it could be cached, else the remote URL
+  videoId?: string; // for redirect links, the video they lead to
+  checkedAt: number;
+}
+
+export interface LibraryItem {
+  id: string;
+  kind: 'video' | 'drill';
+  sport: string;
+  title: string;
+  uri?: string; // videos only
+  drill?: Drill; // drills only
+  strokes: string[];
+  skills: string[];
+  notes: string;
+  sessionId?: string; // the analysis it was saved from
+  savedAt: number;
+}
+
+// --- Match Statistics ---
+
+export type MatchSide = 'player' | 'opponent';
+
+export type PointEnding = 'winner' | 'unforced error' | 'forced error' | 'ace' | 'double fault';
+
+export interface MatchShot {
+  time: number; // seconds
+  by: MatchSide;
+  stroke: string;
+}
+
+export interface MatchPoint extends TimeRange {
+  server: MatchSide;
+  firstServeIn: boolean; // false for points played on a second serve or double faulted
+  shots: MatchShot[]; // in order, starting with the serve
+  ending: PointEnding;
+  endedBy: MatchSide; // who hit the last shot: the winner, or the error
+  netApproach: boolean; // the player came forward to the net
+}
+
+export interface MatchAnalysis {
+  summary: string;
+  points: MatchPoint[];
+}
+
+// --- Coach Workspace ---
+
+export interface Athlete {
+  id: string;
+  name: string;
+  sport?: string; // main sport id
+  createdAt: number;
+}
+
+export type ReviewStatus = 'draft' | 'approved' | 'published';
+
+// An item in the coach's revision. origin points at the AI item it started
+// from; items the coach added have none.
+export interface RevisedItem<T> {
+  id: string;
+  origin?: number;
+  value: T;
+}
+
+export interface CoachComment {
+  id: string;
+  text: string;
+  createdAt: number;
+}
+
+export interface ReviewContent {
+  summary: string;
+  issues: AnalysisIssue[];
+  drills: Drill[];
+}
+
+export interface CoachReview {
+  id: string; // the session id the analysis was saved under
+  athleteId: string;
+  sport: string;
+  title: string;
+  thumbnail?: string;
+  analyzedAt: number;
+  scores: CategoryScore[];
+  original: ReviewContent; // as the AI wrote it, never edited
+  summary: string;
+  issues: RevisedItem<AnalysisIssue>[];
+  drills: RevisedItem<Drill>[];
+  comments: CoachComment[];
+  status: ReviewStatus; // any edit after approval goes back to draft
+  updatedAt: number;
+  published?: ReviewContent & { comments: CoachComment[], publishedAt: number }; // what the student sees
+}
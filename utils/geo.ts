@@ -0,0 +1,18 @@
+import type { LatLng } from '../types';
+
+// --- Distances ---
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+// Great-circle distance (haversine); plenty accurate at city scale.
+export const distanceKm = (a: LatLng, b: LatLng) => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+export const formatDistance = (km: number) =>
+  km < 1 ? `${Math.round(km * 1000)} m` : `${km < 10 ? km.toFixed(1) : Math.round(km)} km`;
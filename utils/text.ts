@@ -0,0 +1,8 @@
+// --- Keyword Matching ---
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches at word starts only, so "coach" finds "coaching" but "net" is not
+// found in "kinetic" and "serve" not in "observe".
+export const hasWordStart = (text: string, keyword: string) =>
+  new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword)}`, 'i').test(text);
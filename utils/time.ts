@@ -0,0 +1,11 @@
+// --- Time Formatting ---
+
+export const formatTimestamp = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+export const formatRange = (start: number, end: number): string =>
+  end > start ? `${formatTimestamp(start)}–${formatTimestamp(end)}` : formatTimestamp(start);
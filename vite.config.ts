@@ -4,15 +4,26 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The key stays on the server (server/index.mjs) unless the app is
+    // explicitly configured to call Gemini from the browser.
+    const clientKey = env.AI_PROVIDER === 'gemini' ? env.GEMINI_API_KEY : '';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 8790}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(clientKey || ''),
+        'process.env.UPLOAD_BASE_URL': JSON.stringify(env.UPLOAD_BASE_URL || ''),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || ''),
+        'process.env.ANALYSIS_MODEL': JSON.stringify(env.ANALYSIS_MODEL || ''),
+        'process.env.SEARCH_MODEL': JSON.stringify(env.SEARCH_MODEL || ''),
+        'process.env.PLACES_MODEL': JSON.stringify(env.PLACES_MODEL || ''),
+        'process.env.COACH_API_URL': JSON.stringify(env.COACH_API_URL || '')
       },
       resolve: {
         alias: {